@@ -6,6 +6,8 @@ await Bun.build({
 		"./src/maybe/index.ts",
 		"./src/either/index.ts",
 		"./src/result/index.ts",
+		"./src/validation/index.ts",
+		"./src/decoder/index.ts",
 	],
 	outdir: "./dist",
 	sourcemap: "linked",
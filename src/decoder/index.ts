@@ -0,0 +1,349 @@
+import { Just, type Maybe, Nothing } from "../maybe";
+import { Err, Ok, type Result } from "../result";
+import { joinPath } from "../utils/path";
+
+/**
+ * A single decoding failure together with the path of the value that failed.
+ * The path uses dot notation for keys and brackets for indexes (e.g. `address.zip`
+ * or `items[3].qty`), and is an empty string for the decoded value itself.
+ */
+export interface DecodeError {
+	readonly path: string;
+	readonly message: string;
+}
+
+/**
+ * A function that checks an unknown input, such as parsed JSON, and produces a typed
+ * value or every failure found, with its path.
+ *
+ * @template T - The type of the decoded value
+ *
+ * @example
+ * ```ts
+ * const user: Decoder<{ name: string }> = object({ name: string });
+ * user({ name: "Alice" }); // Ok({ name: "Alice" })
+ * user({ name: 42 }); // Err([{ path: "name", message: "expected string, got number" }])
+ * ```
+ */
+export type Decoder<T> = (input: unknown) => Result<T, DecodeError[]>;
+
+/**
+ * The type of the values produced by a decoder.
+ *
+ * @example
+ * ```ts
+ * const user = object({ name: string, tags: array(string) });
+ * type User = Infer<typeof user>; // { name: string; tags: string[] }
+ * ```
+ */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+type Literal = string | number | boolean | null;
+
+const describe = (input: unknown): string => {
+	if (input === null) {
+		return "null";
+	}
+	return Array.isArray(input) ? "array" : typeof input;
+};
+
+const fail = <T>(expected: string, input: unknown): Result<T, DecodeError[]> =>
+	new Err<T, DecodeError[]>([
+		{ path: "", message: `expected ${expected}, got ${describe(input)}` },
+	]);
+
+const isRecord = (input: unknown): input is Record<string, unknown> =>
+	typeof input === "object" && input !== null && !Array.isArray(input);
+
+/**
+ * Decodes every entry, prefixing the paths of the errors with the entry's key or index.
+ */
+const decodeEntries = <T>(
+	entries: [string | number, Result<T, DecodeError[]>][],
+): Result<T[], DecodeError[]> => {
+	const values: T[] = [];
+	const errors: DecodeError[] = [];
+
+	for (const [segment, result] of entries) {
+		if (!result.isErr()) {
+			values.push(result.unwrap());
+		} else {
+			for (const { path, message } of result.error) {
+				errors.push({ path: joinPath(segment, path), message });
+			}
+		}
+	}
+
+	if (errors.length > 0) {
+		return new Err<T[], DecodeError[]>(errors);
+	}
+
+	return new Ok<T[], DecodeError[]>(values);
+};
+
+const primitive =
+	<T>(expected: string, is: (input: unknown) => input is T): Decoder<T> =>
+	(input) =>
+		is(input) ? new Ok<T, DecodeError[]>(input) : fail(expected, input);
+
+/**
+ * Decodes a string.
+ *
+ * @example
+ * ```ts
+ * string("a"); // Ok("a")
+ * string(1); // Err([{ path: "", message: "expected string, got number" }])
+ * ```
+ */
+export const string: Decoder<string> = primitive(
+	"string",
+	(input): input is string => typeof input === "string",
+);
+
+/**
+ * Decodes a number. NaN is rejected.
+ *
+ * @example
+ * ```ts
+ * number(42); // Ok(42)
+ * number("42"); // Err([{ path: "", message: "expected number, got string" }])
+ * ```
+ */
+export const number: Decoder<number> = primitive(
+	"number",
+	(input): input is number => typeof input === "number" && !Number.isNaN(input),
+);
+
+/**
+ * Decodes a boolean.
+ *
+ * @example
+ * ```ts
+ * boolean(true); // Ok(true)
+ * ```
+ */
+export const boolean: Decoder<boolean> = primitive(
+	"boolean",
+	(input): input is boolean => typeof input === "boolean",
+);
+
+/**
+ * Decodes one of the given literal values, compared with `===`.
+ *
+ * @param values - The accepted values
+ * @returns A decoder for the union of the values
+ *
+ * @example
+ * ```ts
+ * const role = literal("admin", "user"); // Decoder<"admin" | "user">
+ * role("guest"); // Err([{ path: "", message: 'expected "admin" | "user", got string' }])
+ * ```
+ */
+export const literal =
+	<const L extends readonly Literal[]>(...values: L): Decoder<L[number]> =>
+	(input) =>
+		values.includes(input as Literal)
+			? new Ok<L[number], DecodeError[]>(input as L[number])
+			: fail(values.map((value) => JSON.stringify(value)).join(" | "), input);
+
+/**
+ * Decodes an array, decoding every item. The errors of every failing item are
+ * reported, with paths prefixed by the index.
+ *
+ * @param item - Decoder for each item
+ * @returns A decoder for the whole array
+ *
+ * @example
+ * ```ts
+ * array(number)([1, "2", 3]); // Err([{ path: "[1]", message: "expected number, got string" }])
+ * ```
+ */
+export const array =
+	<T>(item: Decoder<T>): Decoder<T[]> =>
+	(input) => {
+		if (!Array.isArray(input)) {
+			return fail("array", input);
+		}
+		return decodeEntries(input.map((value, index) => [index, item(value)]));
+	};
+
+/**
+ * Decodes an object from one decoder per field. Every field is decoded and the errors
+ * of every failing field are reported, with paths prefixed by the field name.
+ * Fields that are not in the shape are left out of the result.
+ *
+ * @param shape - Object with one decoder per field
+ * @returns A decoder for the whole object
+ *
+ * @example
+ * ```ts
+ * const user = object({ name: string, address: object({ zip: string }) });
+ * user({ name: 1, address: {} });
+ * // Err([
+ * //   { path: "name", message: "expected string, got number" },
+ * //   { path: "address.zip", message: "expected string, got undefined" },
+ * // ])
+ * ```
+ */
+export const object =
+	<S extends Record<string, Decoder<unknown>>>(
+		shape: S,
+	): Decoder<{ [K in keyof S]: Infer<S[K]> }> =>
+	(input) => {
+		if (!isRecord(input)) {
+			return fail("object", input);
+		}
+		const keys = Object.keys(shape);
+		return decodeEntries(
+			keys.map((key) => [key, (shape[key] as Decoder<unknown>)(input[key])]),
+		).map(
+			(values) =>
+				Object.fromEntries(keys.map((key, i) => [key, values[i]])) as {
+					[K in keyof S]: Infer<S[K]>;
+				},
+		);
+	};
+
+/**
+ * Decodes an object used as a dictionary, decoding every value.
+ *
+ * @param value - Decoder for each value
+ * @returns A decoder for the whole record
+ *
+ * @example
+ * ```ts
+ * record(number)({ a: 1, b: 2 }); // Ok({ a: 1, b: 2 })
+ * ```
+ */
+export const record =
+	<T>(value: Decoder<T>): Decoder<Record<string, T>> =>
+	(input) => {
+		if (!isRecord(input)) {
+			return fail("object", input);
+		}
+		const entries = Object.entries(input);
+		return decodeEntries(entries.map(([key, item]) => [key, value(item)])).map(
+			(values) =>
+				Object.fromEntries(
+					entries.map(([key], i) => [key, values[i]]),
+				) as Record<string, T>,
+		);
+	};
+
+/**
+ * Tries each decoder in order and returns the first success.
+ * If every decoder fails, the errors of all of them are reported.
+ *
+ * @param decoders - The decoders to try
+ * @returns A decoder for the union of their types
+ *
+ * @example
+ * ```ts
+ * const id = union(string, number); // Decoder<string | number>
+ * id(true); // Err with both errors
+ * ```
+ */
+export const union =
+	<D extends Decoder<unknown>[]>(...decoders: D): Decoder<Infer<D[number]>> =>
+	(input) => {
+		const errors: DecodeError[] = [];
+
+		for (const decoder of decoders) {
+			const result = decoder(input);
+			if (!result.isErr()) {
+				return new Ok<Infer<D[number]>, DecodeError[]>(
+					result.unwrap() as Infer<D[number]>,
+				);
+			}
+			errors.push(...result.error);
+		}
+
+		return new Err<Infer<D[number]>, DecodeError[]>(errors);
+	};
+
+/**
+ * Decodes a value that may be missing: `undefined` becomes Nothing, anything else
+ * is decoded and wrapped in Just.
+ *
+ * @param decoder - Decoder for the value when it is present
+ * @returns A decoder of a Maybe
+ *
+ * @example
+ * ```ts
+ * const user = object({ name: string, nickname: optional(string) });
+ * user({ name: "Alice" }); // Ok({ name: "Alice", nickname: Nothing })
+ * ```
+ */
+export const optional =
+	<T>(decoder: Decoder<T>): Decoder<Maybe<T>> =>
+	(input) => {
+		if (input === undefined) {
+			return new Ok<Maybe<T>, DecodeError[]>(new Nothing<T>());
+		}
+		return decoder(input).map((value): Maybe<T> => new Just(value));
+	};
+
+/**
+ * Decodes `null` as it is, and anything else with the given decoder.
+ *
+ * @param decoder - Decoder for the value when it is not null
+ * @returns A decoder of the value or null
+ *
+ * @example
+ * ```ts
+ * nullable(string)(null); // Ok(null)
+ * ```
+ */
+export const nullable =
+	<T>(decoder: Decoder<T>): Decoder<T | null> =>
+	(input) =>
+		input === null ? new Ok<T | null, DecodeError[]>(null) : decoder(input);
+
+/**
+ * Defers building a decoder until it is used, so that a decoder can refer to itself.
+ * The type of a recursive decoder must be written explicitly.
+ *
+ * @param build - Function returning the decoder
+ * @returns A decoder that calls the built decoder
+ *
+ * @example
+ * ```ts
+ * type Category = { name: string; children: Category[] };
+ * const category: Decoder<Category> = object({
+ *   name: string,
+ *   children: array(lazy(() => category)),
+ * });
+ * ```
+ */
+export const lazy =
+	<T>(build: () => Decoder<T>): Decoder<T> =>
+	(input) =>
+		build()(input);
+
+/**
+ * Parses a JSON string and decodes the result. Invalid JSON is reported as a
+ * DecodeError at the root instead of throwing.
+ *
+ * @param decoder - Decoder for the parsed value
+ * @returns A function from a JSON string to a Result
+ *
+ * @example
+ * ```ts
+ * const parseUser = parseJSON(object({ name: string }));
+ * parseUser('{"name":"Alice"}'); // Ok({ name: "Alice" })
+ * parseUser("{"); // Err([{ path: "", message: "invalid JSON: ..." }])
+ * ```
+ */
+export const parseJSON =
+	<T>(decoder: Decoder<T>) =>
+	(text: string): Result<T, DecodeError[]> => {
+		let input: unknown;
+		try {
+			input = JSON.parse(text);
+		} catch (error) {
+			return new Err<T, DecodeError[]>([
+				{ path: "", message: `invalid JSON: ${(error as Error).message}` },
+			]);
+		}
+		return decoder(input);
+	};
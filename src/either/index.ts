@@ -1,3 +1,52 @@
+import { Just, type Maybe, Nothing } from "../maybe";
+import { Err, Ok, type Result } from "../result";
+import { callbackPromise, type NodeCallback } from "../utils/callback";
+import {
+	awaitCancellable,
+	type CancelError,
+	type CancelOptions,
+	type CancelOutcome,
+	runCancellable,
+} from "../utils/cancel";
+import {
+	captureTrace,
+	type DebugTrace,
+	debugSettings,
+	deriveTrace,
+	traceOf,
+} from "../utils/debug";
+import {
+	combineHashes,
+	type Eq,
+	type HashEq,
+	hash as hashValue,
+	structuralEq,
+} from "../utils/eq";
+import { UnwrapError } from "../utils/errors";
+import { revive, toJSONValue } from "../utils/json";
+import {
+	isPromiseLike,
+	type MethodKeys,
+	methodKeys,
+	type ReturnsPromise,
+} from "../utils/safe";
+import {
+	type HandledError,
+	type HandledValue,
+	handlerForTag,
+	readTag,
+	type TagCases,
+	type Tagged,
+	type TagOf,
+	type WithoutTag,
+	type WithTag,
+} from "../utils/tag";
+import {
+	runTraversal,
+	type TraverseOptions,
+	type TraverseTask,
+} from "../utils/traverse";
+
 /**
  * Represents a value of one of two possible types: Left or Right.
  * By convention, Right is used for success and Left for failure or alternative values.
@@ -13,14 +62,28 @@
  */
 export interface Either<L, R> {
 	/**
-	 * Returns true if the Either is a Left value.
+	 * Returns true if the Either is a Left value, narrowing it to Left.
+	 *
+	 * @example
+	 * ```ts
+	 * if (either.isLeft()) {
+	 *   console.log(either.value); // L
+	 * }
+	 * ```
 	 */
-	isLeft(): boolean;
+	isLeft(): this is Left<L, R>;
 
 	/**
-	 * Returns true if the Either is a Right value.
+	 * Returns true if the Either is a Right value, narrowing it to Right.
+	 *
+	 * @example
+	 * ```ts
+	 * if (either.isRight()) {
+	 *   console.log(either.value); // R
+	 * }
+	 * ```
 	 */
-	isRight(): boolean;
+	isRight(): this is Right<L, R>;
 
 	/**
 	 * Applies a function to the value inside Right. Does nothing for Left.
@@ -50,6 +113,21 @@ export interface Either<L, R> {
 	 */
 	mapLeft<M>(fn: (err: L) => M): Either<M, R>;
 
+	/**
+	 * Transforms both sides at once: the Left value with `onLeft`, the Right value with `onRight`.
+	 *
+	 * @param onLeft - Function to transform the Left value
+	 * @param onRight - Function to transform the Right value
+	 * @returns A new Either with the transformed value
+	 *
+	 * @example
+	 * ```ts
+	 * right(2).bimap(e => `Error: ${e}`, x => x * 2); // Right(4)
+	 * left("fail").bimap(e => `Error: ${e}`, x => x * 2); // Left("Error: fail")
+	 * ```
+	 */
+	bimap<M, U>(onLeft: (left: L) => M, onRight: (right: R) => U): Either<M, U>;
+
 	/**
 	 * Chains an Either-returning function. Useful for sequential operations that may fail.
 	 *
@@ -64,6 +142,83 @@ export interface Either<L, R> {
 	 */
 	chain<U>(fn: (value: R) => Either<L, U>): Either<L, U>;
 
+	/**
+	 * Collapses an Either of an Either into a single Either.
+	 *
+	 * @returns The inner Either, or the outer Left
+	 *
+	 * @example
+	 * ```ts
+	 * right(right(1)).flatten(); // Right(1)
+	 * right(left("inner")).flatten(); // Left("inner")
+	 * left("outer").flatten(); // Left("outer")
+	 * ```
+	 */
+	flatten<M, U>(this: Either<L, Either<M, U>>): Either<L | M, U>;
+
+	/**
+	 * Exchanges the two sides: a Right becomes a Left and a Left becomes a Right.
+	 *
+	 * @returns Left with the Right value, or Right with the Left value
+	 *
+	 * @example
+	 * ```ts
+	 * right(1).swap(); // Left(1)
+	 * left("fail").swap(); // Right("fail")
+	 * ```
+	 */
+	swap(): Either<R, L>;
+
+	/**
+	 * Combines this Either with another one into an Either of a tuple.
+	 * Returns the first Left if either is Left.
+	 *
+	 * @param other - The other Either
+	 * @returns Right with both values, or the first Left
+	 *
+	 * @example
+	 * ```ts
+	 * right(1).zip(right("a")); // Right([1, "a"])
+	 * right(1).zip(left("fail")); // Left("fail")
+	 * ```
+	 */
+	zip<U, M = L>(other: Either<M, U>): Either<L | M, [R, U]>;
+
+	/**
+	 * Combines this Either with another one using a function.
+	 * Returns the first Left if either is Left.
+	 *
+	 * @param other - The other Either
+	 * @param fn - Function combining both Right values
+	 * @returns Right with the combined value, or the first Left
+	 *
+	 * @example
+	 * ```ts
+	 * right(2).zipWith(right(3), (a, b) => a * b); // Right(6)
+	 * ```
+	 */
+	zipWith<U, V, M = L>(
+		other: Either<M, U>,
+		fn: (value: R, other: U) => V,
+	): Either<L | M, V>;
+
+	/**
+	 * Applies the function inside this Right to the value inside another Either.
+	 * Returns the first Left if either is Left.
+	 *
+	 * @param arg - Either holding the argument
+	 * @returns Right with the function's return value, or the first Left
+	 *
+	 * @example
+	 * ```ts
+	 * right((x: number) => x + 1).ap(right(41)); // Right(42)
+	 * ```
+	 */
+	ap<A, B, M = L>(
+		this: Either<L, (value: A) => B>,
+		arg: Either<M, A>,
+	): Either<L | M, B>;
+
 	/**
 	 * Validates the Right value with a predicate. Converts Right to Left if predicate fails.
 	 *
@@ -79,6 +234,128 @@ export interface Either<L, R> {
 	 */
 	validate(predicate: (value: R) => boolean, leftValue: L): Either<L, R>;
 
+	/**
+	 * Chains an Either-returning function on the Left value.
+	 * Useful to switch to a fallback computation. Does nothing for Right.
+	 *
+	 * @param fn - Function that receives the Left value and returns a new Either
+	 * @returns The original Right, or the result of the function
+	 *
+	 * @example
+	 * ```ts
+	 * left("cache miss").orElse(() => right(42)); // Right(42)
+	 * ```
+	 */
+	orElse<M>(fn: (left: L) => Either<M, R>): Either<M, R>;
+
+	/**
+	 * Returns this Either if it is Right, or the other Either otherwise.
+	 * Use `orElse` to compute the fallback only when it is needed.
+	 *
+	 * @param other - The fallback Either
+	 * @returns The original Right, or the other Either
+	 *
+	 * @example
+	 * ```ts
+	 * left("cache miss").or(right(42)); // Right(42)
+	 * right(1).or(right(42)); // Right(1)
+	 * ```
+	 */
+	or<M>(other: Either<M, R>): Either<M, R>;
+
+	/**
+	 * Turns a Left into a Right by computing a value from the Left value. Does nothing for Right.
+	 *
+	 * @param fn - Function that receives the Left value and returns a Right value
+	 * @returns Always a Right
+	 *
+	 * @example
+	 * ```ts
+	 * left("fail").recover(e => e.length); // Right(4)
+	 * ```
+	 */
+	recover(fn: (left: L) => R): Either<L, R>;
+
+	/**
+	 * Like recover, but only for Left values matching the predicate. Other Left values are kept.
+	 * With a type guard, the handled values are removed from the Left type.
+	 *
+	 * @param predicate - Selects the Left values to recover from
+	 * @param fn - Function that receives the Left value and returns a Right value
+	 * @returns Right if recovered, the original Either otherwise
+	 *
+	 * @example
+	 * ```ts
+	 * left(404).recoverWhen(code => code === 404, () => null); // Right(null)
+	 * left(500).recoverWhen(code => code === 404, () => null); // Left(500)
+	 * ```
+	 */
+	recoverWhen<M extends L>(
+		predicate: (left: L) => left is M,
+		fn: (left: M) => R,
+	): Either<Exclude<L, M>, R>;
+	recoverWhen(
+		predicate: (left: L) => boolean,
+		fn: (left: L) => R,
+	): Either<L, R>;
+
+	/**
+	 * Handles a single variant of a tagged Left union and removes it from the Left type.
+	 * Left values with other tags are kept. Does nothing for Right. The Left and Right
+	 * types of the handler's Either are added to those of the Either.
+	 *
+	 * @param tag - The `_tag` of the Left variant to handle
+	 * @param handler - Function that receives the matching Left value and returns a new Either
+	 * @returns The original Either, or the result of the handler
+	 *
+	 * @example
+	 * ```ts
+	 * // Either<NotFound | Invalid, User> -> Either<Invalid, User | null>
+	 * findUser(1).catchTag("NotFound", () => right(null));
+	 * ```
+	 */
+	catchTag<K extends TagOf<L>, M = never, U = never>(
+		tag: K,
+		handler: (left: WithTag<L, K>) => Either<M, U>,
+	): Either<WithoutTag<L, K> | HandledError<M>, R | HandledValue<U>>;
+
+	/**
+	 * Handles several variants of a tagged Left union at once, keyed by `_tag`.
+	 * Handled variants are removed from the Left type, and the Left and Right types of
+	 * the handlers are added.
+	 *
+	 * @param handlers - Object with one handler per `_tag` to handle
+	 * @returns The original Either, or the result of the matching handler
+	 *
+	 * @example
+	 * ```ts
+	 * findUser(1).catchTags({
+	 *   NotFound: () => right(guest),
+	 *   Invalid: (e) => left(`invalid: ${e.reason}`),
+	 * }); // Either<string, User>
+	 * ```
+	 */
+	catchTags<H extends EitherTagHandlers<L>, U = HandlerRights<H>>(
+		handlers: H,
+	): Either<WithoutTag<L, keyof H> | HandlerLefts<H>, R | U>;
+
+	/**
+	 * Pattern matches on the Either with one handler per Left `_tag`.
+	 * Every tag must be handled, which is checked at compile time.
+	 *
+	 * @param cases - Object with a right handler and a left object keyed by `_tag`
+	 * @returns The result of the matched handler
+	 *
+	 * @example
+	 * ```ts
+	 * findUser(1).matchTag({
+	 *   right: (user) => 200,
+	 *   left: { NotFound: () => 404, Invalid: () => 400 },
+	 * });
+	 * ```
+	 */
+	matchTag<T>(cases: { right: (right: R) => T; left: TagCases<L, T> }): T;
+
 	/**
 	 * Extracts the Right value, or returns the default value for Left.
 	 *
@@ -93,6 +370,116 @@ export interface Either<L, R> {
 	 */
 	unwrapOr(defaultValue: R): R;
 
+	/**
+	 * Extracts the value from Right, or computes a fallback from the Left value for Left.
+	 * Unlike unwrapOr, the fallback is only computed when needed.
+	 *
+	 * @param fn - Function that receives the Left value and returns a fallback value
+	 * @returns The contained value or the computed fallback
+	 *
+	 * @example
+	 * ```ts
+	 * left("fail").unwrapOrElse(e => e.length); // 4
+	 * ```
+	 */
+	unwrapOrElse(fn: (left: L) => R): R;
+
+	/**
+	 * Extracts the value from Right, or throws an UnwrapError for Left.
+	 * The Left value is available as the `cause` of the thrown error.
+	 *
+	 * @returns The contained value
+	 * @throws {UnwrapError} If the value is Left
+	 *
+	 * @example
+	 * ```ts
+	 * right(42).unwrap(); // 42
+	 * left("fail").unwrap(); // throws UnwrapError with cause "fail"
+	 * ```
+	 */
+	unwrap(): R;
+
+	/**
+	 * Like unwrap, but throws an UnwrapError with the given message.
+	 *
+	 * @param message - Message of the thrown error
+	 * @returns The contained value
+	 * @throws {UnwrapError} If the value is Left
+	 *
+	 * @example
+	 * ```ts
+	 * loadConfig().expect("config must be valid");
+	 * ```
+	 */
+	expect(message: string): R;
+
+	/**
+	 * Extracts the Left value from Left, or throws an UnwrapError for Right.
+	 * The value is available as the `cause` of the thrown error.
+	 *
+	 * @returns The contained Left value
+	 * @throws {UnwrapError} If the value is Right
+	 *
+	 * @example
+	 * ```ts
+	 * left("fail").unwrapLeft(); // "fail"
+	 * ```
+	 */
+	unwrapLeft(): L;
+
+	/**
+	 * Returns the value of Right, or null for Left.
+	 *
+	 * @example
+	 * ```ts
+	 * left("fail").toNullable(); // null
+	 * ```
+	 */
+	toNullable(): R | null;
+
+	/**
+	 * Returns the value of Right, or undefined for Left.
+	 *
+	 * @example
+	 * ```ts
+	 * left("fail").toUndefined(); // undefined
+	 * ```
+	 */
+	toUndefined(): R | undefined;
+
+	/**
+	 * Converts the Either to a Result: Right becomes Ok, Left becomes Err.
+	 *
+	 * @example
+	 * ```ts
+	 * right(42).toResult(); // Ok(42)
+	 * left("fail").toResult(); // Err("fail")
+	 * ```
+	 */
+	toResult(): Result<R, L>;
+
+	/**
+	 * Converts the Either to a Maybe: Right becomes Just, Left becomes Nothing.
+	 *
+	 * @example
+	 * ```ts
+	 * right(42).toMaybe(); // Just(42)
+	 * left("fail").toMaybe(); // Nothing
+	 * ```
+	 */
+	toMaybe(): Maybe<R>;
+
+	/**
+	 * Returns an iterator over the Right value: one value for Right, none for Left.
+	 *
+	 * @example
+	 * ```ts
+	 * [...right(42).values()]; // [42]
+	 * [...left("fail").values()]; // []
+	 * ```
+	 */
+	values(): IterableIterator<R>;
+
 	/**
 	 * Pattern matches on the Either, executing the appropriate branch.
 	 *
@@ -109,29 +496,121 @@ export interface Either<L, R> {
 	 */
 	match<T>(cases: { left: (left: L) => T; right: (right: R) => T }): T;
 
+	/**
+	 * Reduces the Either to a single value, like `match` without the object literal.
+	 *
+	 * @param onLeft - Function called with the Left value
+	 * @param onRight - Function called with the Right value
+	 * @returns The result of the called function
+	 *
+	 * @example
+	 * ```ts
+	 * right(42).fold(e => `Error: ${e}`, x => `Value: ${x}`); // "Value: 42"
+	 * ```
+	 */
+	fold<T>(onLeft: (left: L) => T, onRight: (right: R) => T): T;
+
 	/**
 	 * Checks if two Either values are equal.
+	 * Values are compared structurally unless a custom Eq is given.
 	 *
 	 * @param other - Either to compare with
+	 * @param eq - Optional Eq used to compare Right values
+	 * @param leftEq - Optional Eq used to compare Left values
 	 * @returns true if both are Left or both are Right with equal values
+	 *
+	 * @example
+	 * ```ts
+	 * right({ id: 1 }).equals(right({ id: 1 })); // true
+	 * ```
+	 */
+	equals(other: Either<L, R>, eq?: Eq<R>, leftEq?: Eq<L>): boolean;
+
+	/**
+	 * Computes a hash consistent with `equals`, so Eithers can be used as cache keys.
+	 *
+	 * @param eq - Optional Eq with a `hash`, used for Right values
+	 * @param leftEq - Optional Eq with a `hash`, used for Left values
+	 * @returns A 32-bit integer hash
+	 *
+	 * @example
+	 * ```ts
+	 * right({ id: 1 }).hash() === right({ id: 1 }).hash(); // true
+	 * ```
 	 */
-	equals(other: Either<L, R>): boolean;
+	hash(eq?: HashEq<R>, leftEq?: HashEq<L>): number;
 
 	/**
-	 * Extracts the internal value. Use unwrapOr instead for safe extraction.
+	 * Extracts the internal value. Use unwrapOr instead for safe extraction,
+	 * or narrow with isLeft/isRight and read `value`.
 	 * @internal
 	 */
 	extract(): L | R;
+
+	/**
+	 * Returns where this Left was created, and the steps (`map`, `mapLeft`, `chain`...) it
+	 * went through, when capture is turned on with `configureDebug`. A Left derived from
+	 * another one keeps its trace. Undefined for Right and when capture is off.
+	 *
+	 * @example
+	 * ```ts
+	 * configureDebug({ captureStacks: true });
+	 * left("boom").trace()?.stack; // "at loadUser (users.ts:12:10)\n..."
+	 * ```
+	 */
+	trace(): DebugTrace | undefined;
+
+	/**
+	 * Converts the Either to its wire format: a plain tagged object that survives
+	 * `JSON.stringify`, `structuredClone` and `postMessage`. Nested Maybe, Either and
+	 * Result values and Errors are converted too. Rebuild it with `fromJSON`.
+	 *
+	 * @example
+	 * ```ts
+	 * JSON.stringify(left("boom")); // '{"_tag":"Left","value":"boom"}'
+	 * ```
+	 */
+	toJSON(): EitherJSON;
+
+	/**
+	 * Makes the Either iterable like `values()`: one value for Right, none for Left.
+	 *
+	 * @example
+	 * ```ts
+	 * [...right(42)]; // [42]
+	 * [...left("fail")]; // []
+	 * ```
+	 */
+	[Symbol.iterator](): IterableIterator<R>;
 }
 
+type EitherTagHandlers<L> = {
+	[K in TagOf<L>]?: (left: WithTag<L, K>) => Either<unknown, unknown>;
+};
+
+type HandlerLefts<H> = {
+	[K in keyof H]: H[K] extends (left: never) => Either<infer M, unknown>
+		? HandledError<M>
+		: never;
+}[keyof H];
+
+type HandlerRights<H> = {
+	[K in keyof H]: H[K] extends (left: never) => Either<unknown, infer U>
+		? HandledValue<U>
+		: never;
+}[keyof H];
+
 export class Right<L, R> implements Either<L, R> {
-	constructor(private readonly value: R) {}
+	/**
+	 * @param value - The Right value, readable after narrowing with isRight
+	 */
+	constructor(readonly value: R) {}
 
-	isLeft(): boolean {
+	isLeft(): this is Left<L, R> {
 		return false;
 	}
 
-	isRight(): boolean {
+	isRight(): this is Right<L, R> {
 		return true;
 	}
 
@@ -143,247 +622,1237 @@ export class Right<L, R> implements Either<L, R> {
 		return new Right(this.value);
 	}
 
-	chain<U>(fn: (value: R) => Either<L, U>): Either<L, U> {
-		return fn(this.value);
+	bimap<M, U>(_onLeft: (left: L) => M, onRight: (right: R) => U): Either<M, U> {
+		return new Right(onRight(this.value));
 	}
 
-	validate(predicate: (value: R) => boolean, leftValue: L): Either<L, R> {
-		return predicate(this.value) ? this : new Left<L, R>(leftValue);
+	chain<U>(fn: (value: R) => Either<L, U>): Either<L, U> {
+		return fn(this.value);
 	}
 
-	unwrapOr(_: R): R {
+	flatten<M, U>(this: Right<L, Either<M, U>>): Either<L | M, U> {
 		return this.value;
 	}
 
-	match<T>(cases: { left: (left: L) => T; right: (right: R) => T }): T {
-		return cases.right(this.value);
+	swap(): Either<R, L> {
+		return new Left(this.value);
 	}
 
-	equals(other: Either<L, R>): boolean {
-		return other.isRight() ? this.value === other.extract() : false;
+	zip<U, M = L>(other: Either<M, U>): Either<L | M, [R, U]> {
+		return this.zipWith(other, (value, otherValue): [R, U] => [
+			value,
+			otherValue,
+		]);
 	}
 
-	extract(): R {
-		return this.value;
+	zipWith<U, V, M = L>(
+		other: Either<M, U>,
+		fn: (value: R, other: U) => V,
+	): Either<L | M, V> {
+		return other.match<Either<L | M, V>>({
+			left: (leftValue) => new Left<L | M, V>(leftValue),
+			right: (otherValue) => new Right<L | M, V>(fn(this.value, otherValue)),
+		});
 	}
-}
-
-export class Left<L, R = never> implements Either<L, R> {
-	constructor(private readonly value: L) {}
 
-	isLeft(): boolean {
-		return true;
+	ap<A, B, M = L>(
+		this: Either<L, (value: A) => B>,
+		arg: Either<M, A>,
+	): Either<L | M, B> {
+		return this.zipWith(arg, (fn, value) => fn(value));
 	}
 
-	isRight(): boolean {
-		return false;
+	validate(predicate: (value: R) => boolean, leftValue: L): Either<L, R> {
+		return predicate(this.value) ? this : new Left<L, R>(leftValue);
 	}
 
-	map<U>(_: (value: R) => U): Either<L, U> {
-		return new Left(this.value);
+	orElse<M>(_fn: (left: L) => Either<M, R>): Either<M, R> {
+		return new Right(this.value);
 	}
 
-	mapLeft<M>(fn: (err: L) => M): Either<M, R> {
-		return new Left(fn(this.value));
+	or<M>(_other: Either<M, R>): Either<M, R> {
+		return new Right(this.value);
 	}
 
-	chain<U>(_: (value: R) => Either<L, U>): Either<L, U> {
-		return new Left<L, U>(this.value);
+	recover(_fn: (left: L) => R): Either<L, R> {
+		return this;
 	}
 
-	validate(_predicate: (value: R) => boolean, _leftValue: L): Either<L, R> {
+	recoverWhen<M extends L>(
+		predicate: (left: L) => left is M,
+		fn: (left: M) => R,
+	): Either<Exclude<L, M>, R>;
+	recoverWhen(
+		predicate: (left: L) => boolean,
+		fn: (left: L) => R,
+	): Either<L, R>;
+	recoverWhen(
+		_predicate: (left: L) => boolean,
+		_fn: (left: L) => R,
+	): Either<L, R> {
 		return this;
 	}
 
-	unwrapOr(defaultValue: R): R {
+	catchTag<K extends TagOf<L>, M = never, U = never>(
+		_tag: K,
+		_handler: (left: WithTag<L, K>) => Either<M, U>,
+	): Either<WithoutTag<L, K> | HandledError<M>, R | HandledValue<U>> {
+		return new Right(this.value);
+	}
+
+	catchTags<H extends EitherTagHandlers<L>, U = HandlerRights<H>>(
+		_handlers: H,
+	): Either<WithoutTag<L, keyof H> | HandlerLefts<H>, R | U> {
+		return new Right(this.value);
+	}
+
+	matchTag<T>(cases: { right: (right: R) => T; left: TagCases<L, T> }): T {
+		return cases.right(this.value);
+	}
+
+	unwrapOr(_: R): R {
+		return this.value;
+	}
+
+	unwrapOrElse(_: (left: L) => R): R {
+		return this.value;
+	}
+
+	unwrap(): R {
+		return this.value;
+	}
+
+	expect(_: string): R {
+		return this.value;
+	}
+
+	unwrapLeft(): L {
+		throw new UnwrapError("Called unwrapLeft on a Right value", {
+			cause: this.value,
+		});
+	}
+
+	toNullable(): R | null {
+		return this.value;
+	}
+
+	toUndefined(): R | undefined {
+		return this.value;
+	}
+
+	toResult(): Result<R, L> {
+		return new Ok(this.value);
+	}
+
+	toMaybe(): Maybe<R> {
+		return new Just(this.value);
+	}
+
+	values(): IterableIterator<R> {
+		return [this.value].values();
+	}
+
+	match<T>(cases: { left: (left: L) => T; right: (right: R) => T }): T {
+		return cases.right(this.value);
+	}
+
+	fold<T>(_onLeft: (left: L) => T, onRight: (right: R) => T): T {
+		return onRight(this.value);
+	}
+
+	equals(
+		other: Either<L, R>,
+		eq: Eq<R> = structuralEq,
+		_leftEq?: Eq<L>,
+	): boolean {
+		return other.isRight() ? eq.equals(this.value, other.value) : false;
+	}
+
+	hash(eq: HashEq<R> = structuralEq, _leftEq?: HashEq<L>): number {
+		return combineHashes(hashValue("Right"), eq.hash(this.value));
+	}
+
+	extract(): R {
+		return this.value;
+	}
+
+	trace(): DebugTrace | undefined {
+		return undefined;
+	}
+
+	toJSON(): EitherJSON {
+		return { _tag: "Right", value: toJSONValue(this.value) };
+	}
+
+	[Symbol.iterator](): IterableIterator<R> {
+		return this.values();
+	}
+}
+
+export class Left<L, R = never> implements Either<L, R> {
+	/**
+	 * @param value - The Left value, readable after narrowing with isLeft
+	 */
+	constructor(readonly value: L) {
+		if (debugSettings.captureStacks) {
+			captureTrace(this);
+		}
+	}
+
+	isLeft(): this is Left<L, R> {
+		return true;
+	}
+
+	isRight(): this is Right<L, R> {
+		return false;
+	}
+
+	map<U>(_: (value: R) => U): Either<L, U> {
+		return deriveTrace(this, new Left<L, U>(this.value), "map");
+	}
+
+	mapLeft<M>(fn: (err: L) => M): Either<M, R> {
+		return deriveTrace(this, new Left<M, R>(fn(this.value)), "mapLeft");
+	}
+
+	bimap<M, U>(onLeft: (left: L) => M, _: (right: R) => U): Either<M, U> {
+		return deriveTrace(this, new Left<M, U>(onLeft(this.value)), "bimap");
+	}
+
+	chain<U>(_: (value: R) => Either<L, U>): Either<L, U> {
+		return deriveTrace(this, new Left<L, U>(this.value), "chain");
+	}
+
+	flatten<M, U>(this: Left<L, Either<M, U>>): Either<L | M, U> {
+		return deriveTrace(this, new Left<L | M, U>(this.value), "flatten");
+	}
+
+	swap(): Either<R, L> {
+		return new Right(this.value);
+	}
+
+	zip<U, M = L>(_: Either<M, U>): Either<L | M, [R, U]> {
+		return deriveTrace(this, new Left<L | M, [R, U]>(this.value), "zip");
+	}
+
+	zipWith<U, V, M = L>(
+		_: Either<M, U>,
+		__: (value: R, other: U) => V,
+	): Either<L | M, V> {
+		return deriveTrace(this, new Left<L | M, V>(this.value), "zipWith");
+	}
+
+	ap<A, B, M = L>(
+		this: Left<L, (value: A) => B>,
+		_: Either<M, A>,
+	): Either<L | M, B> {
+		return deriveTrace(this, new Left<L | M, B>(this.value), "ap");
+	}
+
+	validate(_predicate: (value: R) => boolean, _leftValue: L): Either<L, R> {
+		return this;
+	}
+
+	orElse<M>(fn: (left: L) => Either<M, R>): Either<M, R> {
+		return fn(this.value);
+	}
+
+	or<M>(other: Either<M, R>): Either<M, R> {
+		return other;
+	}
+
+	recover(fn: (left: L) => R): Either<L, R> {
+		return new Right(fn(this.value));
+	}
+
+	recoverWhen<M extends L>(
+		predicate: (left: L) => left is M,
+		fn: (left: M) => R,
+	): Either<Exclude<L, M>, R>;
+	recoverWhen(
+		predicate: (left: L) => boolean,
+		fn: (left: L) => R,
+	): Either<L, R>;
+	recoverWhen(
+		predicate: (left: L) => boolean,
+		fn: (left: L) => R,
+	): Either<L, R> {
+		return predicate(this.value) ? new Right(fn(this.value)) : this;
+	}
+
+	catchTag<K extends TagOf<L>, M = never, U = never>(
+		tag: K,
+		handler: (left: WithTag<L, K>) => Either<M, U>,
+	): Either<WithoutTag<L, K> | HandledError<M>, R | HandledValue<U>> {
+		return readTag(this.value) === tag
+			? (handler(this.value as WithTag<L, K>) as Either<
+					HandledError<M>,
+					HandledValue<U>
+				>)
+			: deriveTrace(
+					this,
+					new Left<WithoutTag<L, K> | HandledError<M>, R | HandledValue<U>>(
+						this.value as WithoutTag<L, K>,
+					),
+					"catchTag",
+				);
+	}
+
+	catchTags<H extends EitherTagHandlers<L>, U = HandlerRights<H>>(
+		handlers: H,
+	): Either<WithoutTag<L, keyof H> | HandlerLefts<H>, R | U> {
+		const handler = handlerForTag<(left: L) => Either<HandlerLefts<H>, U>>(
+			handlers,
+			this.value,
+		);
+		return handler
+			? handler(this.value)
+			: deriveTrace(
+					this,
+					new Left<WithoutTag<L, keyof H> | HandlerLefts<H>, R | U>(
+						this.value as WithoutTag<L, keyof H>,
+					),
+					"catchTags",
+				);
+	}
+
+	matchTag<T>(cases: { right: (right: R) => T; left: TagCases<L, T> }): T {
+		const handler = handlerForTag<(left: L) => T>(cases.left, this.value);
+		return (handler as (left: L) => T)(this.value);
+	}
+
+	unwrapOr(defaultValue: R): R {
 		return defaultValue;
 	}
 
+	unwrapOrElse(fn: (left: L) => R): R {
+		return fn(this.value);
+	}
+
+	unwrap(): R {
+		throw new UnwrapError("Called unwrap on a Left value", {
+			cause: this.value,
+		});
+	}
+
+	expect(message: string): R {
+		throw new UnwrapError(message, { cause: this.value });
+	}
+
+	unwrapLeft(): L {
+		return this.value;
+	}
+
+	toNullable(): R | null {
+		return null;
+	}
+
+	toUndefined(): R | undefined {
+		return undefined;
+	}
+
+	toResult(): Result<R, L> {
+		return deriveTrace(this, new Err<R, L>(this.value), "toResult");
+	}
+
+	toMaybe(): Maybe<R> {
+		return new Nothing();
+	}
+
+	values(): IterableIterator<R> {
+		return ([] as R[]).values();
+	}
+
 	match<T>(cases: { left: (left: L) => T; right: (right: R) => T }): T {
 		return cases.left(this.value);
 	}
 
-	equals(other: Either<L, R>): boolean {
-		return other.isLeft() ? this.value === other.extract() : false;
+	fold<T>(onLeft: (left: L) => T, _: (right: R) => T): T {
+		return onLeft(this.value);
+	}
+
+	equals(
+		other: Either<L, R>,
+		_eq?: Eq<R>,
+		leftEq: Eq<L> = structuralEq,
+	): boolean {
+		return other.isLeft() ? leftEq.equals(this.value, other.value) : false;
+	}
+
+	hash(_eq?: HashEq<R>, leftEq: HashEq<L> = structuralEq): number {
+		return combineHashes(hashValue("Left"), leftEq.hash(this.value));
 	}
 
 	extract(): L {
 		return this.value;
 	}
+
+	trace(): DebugTrace | undefined {
+		return traceOf(this);
+	}
+
+	toJSON(): EitherJSON {
+		return { _tag: "Left", value: toJSONValue(this.value) };
+	}
+
+	[Symbol.iterator](): IterableIterator<R> {
+		return this.values();
+	}
+}
+
+/**
+ * Converts a nullable value into an Either: null and undefined become Left with the given value.
+ * Called with the Left value only, returns a function for use in pipelines.
+ *
+ * @param value - Value that might be null or undefined
+ * @param onNull - Left value used when the value is null or undefined
+ * @returns Right with the value, or Left with `onNull`
+ *
+ * @example
+ * ```ts
+ * fromNullable(users.get(42), "user not found"); // Right(user) or Left("user not found")
+ * pipe(process.env.PORT, fromNullable("PORT must be set")); // Right(port) or Left("PORT must be set")
+ * ```
+ */
+export function fromNullable<L, R>(
+	value: R | null | undefined,
+	onNull: L,
+): Either<L, R>;
+export function fromNullable<L>(
+	onNull: L,
+): <R>(value: R | null | undefined) => Either<L, R>;
+export function fromNullable<L, R>(
+	...args: [value: R | null | undefined, onNull: L] | [onNull: L]
+): Either<L, R> | ((value: R | null | undefined) => Either<L, R>) {
+	if (args.length === 1) {
+		const [onNull] = args;
+		return (value) => fromNullable(value, onNull);
+	}
+	const [value, onNull] = args;
+	return value == null ? new Left<L, R>(onNull) : new Right<L, R>(value);
+}
+
+/**
+ * Converts a value into an Either: Right if it satisfies the predicate, Left with the given value otherwise.
+ * Called without the value, returns a function for use in pipelines.
+ *
+ * @param value - Value to check
+ * @param predicate - Condition the value must satisfy
+ * @param onFalse - Left value used when the predicate fails
+ * @returns Right with the value, or Left with `onFalse`
+ *
+ * @example
+ * ```ts
+ * fromPredicate(age, (n) => n >= 18, "too young"); // Right(age) or Left("too young")
+ * pipe(age, fromPredicate((n: number) => n >= 18, "too young"));
+ * ```
+ */
+export function fromPredicate<L, R>(
+	value: R,
+	predicate: (value: R) => boolean,
+	onFalse: L,
+): Either<L, R>;
+export function fromPredicate<L, R>(
+	predicate: (value: R) => boolean,
+	onFalse: L,
+): (value: R) => Either<L, R>;
+export function fromPredicate<L, R>(
+	...args:
+		| [value: R, predicate: (value: R) => boolean, onFalse: L]
+		| [predicate: (value: R) => boolean, onFalse: L]
+): Either<L, R> | ((value: R) => Either<L, R>) {
+	if (args.length === 2) {
+		const [predicate, onFalse] = args;
+		return (value) => fromPredicate(value, predicate, onFalse);
+	}
+	const [value, predicate, onFalse] = args;
+	return predicate(value) ? new Right<L, R>(value) : new Left<L, R>(onFalse);
+}
+
+/**
+ * Wraps a function that may throw an exception into an Either.
+ *
+ * @param fn - Function that might throw an error
+ * @param onError - Optional function to transform the caught error
+ * @returns Right if successful, Left if exception is thrown
+ *
+ * @example
+ * ```ts
+ * tryCatch(() => JSON.parse('{"a": 1}')); // Right({ a: 1 })
+ * tryCatch(() => JSON.parse('invalid')); // Left(SyntaxError)
+ * tryCatch(
+ *   () => JSON.parse('invalid'),
+ *   e => (e as Error).message
+ * ); // Left("Unexpected token...")
+ * ```
+ */
+export const tryCatch = <L = unknown, R = unknown>(
+	fn: () => R,
+	onError?: (e: unknown) => L,
+): Either<L, R> => {
+	try {
+		return new Right<L, R>(fn());
+	} catch (e) {
+		return new Left<L, R>(onError ? onError(e) : (e as L));
+	}
+};
+
+/**
+ * Turns a function that may throw into a function that returns an Either.
+ * The parameter types of the original function are preserved.
+ *
+ * @param fn - Function that might throw an error
+ * @param onError - Optional function to transform the error
+ * @returns A function with the same parameters, returning Right or Left
+ *
+ * @example
+ * ```ts
+ * const parseJson = safeFn(JSON.parse, e => (e as Error).message);
+ * parseJson('{"a": 1}'); // Right({ a: 1 })
+ * parseJson("invalid"); // Left("Unexpected token...")
+ * ```
+ */
+export const safeFn =
+	<A extends unknown[], R, L = unknown>(
+		fn: (...args: A) => R,
+		onError?: (e: unknown) => L,
+	) =>
+	(...args: A): Either<L, R> =>
+		tryCatch(() => fn(...args), onError);
+
+const fromOutcome = <L, R>(
+	outcome: CancelOutcome<R>,
+	onError?: (e: unknown) => L,
+): Either<L | CancelError, R> => {
+	switch (outcome.status) {
+		case "fulfilled":
+			return new Right<L | CancelError, R>(outcome.value);
+		case "rejected":
+			return new Left<L | CancelError, R>(
+				onError ? onError(outcome.reason) : (outcome.reason as L),
+			);
+		case "cancelled":
+			return new Left<L | CancelError, R>(outcome.error);
+	}
+};
+
+/**
+ * Wraps a Promise into an Either, handling rejections.
+ * With `timeoutMs` or `signal`, the Either is a Left holding a `TimeoutError` or an
+ * `AbortedError` when the promise does not settle in time or the signal is aborted.
+ *
+ * @param promise - Promise to wrap
+ * @param onError - Optional function to transform the rejection error
+ * @param options - Optional `timeoutMs` and `signal`
+ * @returns Promise resolving to Right on success, Left on rejection or cancellation
+ *
+ * @example
+ * ```ts
+ * await fromPromise(Promise.resolve(42)); // Right(42)
+ * await fromPromise(Promise.reject(new Error("fail"))); // Left(Error)
+ * await fromPromise(
+ *   Promise.reject(new Error("fail")),
+ *   e => (e as Error).message
+ * ); // Left("fail")
+ * await fromPromise(new Promise(() => {}), undefined, { timeoutMs: 100 }); // Left(TimeoutError)
+ * ```
+ */
+export function fromPromise<L, R>(
+	promise: Promise<R>,
+	onError?: (e: unknown) => L,
+): Promise<Either<L, R>>;
+export function fromPromise<L, R>(
+	promise: Promise<R>,
+	onError: ((e: unknown) => L) | undefined,
+	options: CancelOptions,
+): Promise<Either<L | CancelError, R>>;
+export async function fromPromise<L, R>(
+	promise: Promise<R>,
+	onError?: (e: unknown) => L,
+	options?: CancelOptions,
+): Promise<Either<L | CancelError, R>> {
+	return fromOutcome(await awaitCancellable(promise, options), onError);
+}
+
+/**
+ * Wraps an async function into an Either, handling rejections and exceptions.
+ * The function receives an `AbortSignal` that is aborted when `timeoutMs` elapses or
+ * `signal` is aborted, so the underlying work can be cancelled; the Either is then a Left
+ * holding a `TimeoutError` or an `AbortedError`.
+ *
+ * @param fn - Async function to wrap, called with an AbortSignal
+ * @param onError - Optional function to transform the error
+ * @param options - Optional `timeoutMs` and `signal`
+ * @returns Promise resolving to Right on success, Left on failure or cancellation
+ *
+ * @example
+ * ```ts
+ * await fromAsync(async () => 42); // Right(42)
+ * await fromAsync(async () => {
+ *   throw new Error("fail");
+ * }); // Left(Error)
+ * await fromAsync(
+ *   async () => { throw new Error("fail"); },
+ *   e => (e as Error).message
+ * ); // Left("fail")
+ * await fromAsync((signal) => fetch(url, { signal }), undefined, { timeoutMs: 1_000 });
+ * // Right(Response), or Left(TimeoutError) and the request is aborted
+ * ```
+ */
+export function fromAsync<L, R>(
+	fn: (signal: AbortSignal) => Promise<R>,
+	onError?: (e: unknown) => L,
+): Promise<Either<L, R>>;
+export function fromAsync<L, R>(
+	fn: (signal: AbortSignal) => Promise<R>,
+	onError: ((e: unknown) => L) | undefined,
+	options: CancelOptions,
+): Promise<Either<L | CancelError, R>>;
+export async function fromAsync<L, R>(
+	fn: (signal: AbortSignal) => Promise<R>,
+	onError?: (e: unknown) => L,
+	options?: CancelOptions,
+): Promise<Either<L | CancelError, R>> {
+	return fromOutcome(await runCancellable(fn, options), onError);
+}
+
+/**
+ * Turns an async function into a function that returns a Promise of an Either.
+ * Rejections and synchronous exceptions become Left. The parameter types are preserved.
+ *
+ * @param fn - Async function that might fail
+ * @param onError - Optional function to transform the error
+ * @returns A function with the same parameters, returning a Promise of an Either
+ *
+ * @example
+ * ```ts
+ * const fetchUser = safeFnAsync((id: number) => api.getUser(id));
+ * await fetchUser(1); // Right(user)
+ * ```
+ */
+export const safeFnAsync =
+	<A extends unknown[], R, L = unknown>(
+		fn: (...args: A) => Promise<R>,
+		onError?: (e: unknown) => L,
+	) =>
+	(...args: A): Promise<Either<L, R>> =>
+		fromAsync(() => fn(...args), onError);
+
+/**
+ * Calls a function that takes a Node-style `(error, value)` callback and returns a
+ * Promise of an Either: Right with the value, or Left when the callback gets a non-null
+ * error or the function throws. The value type can't be inferred from the callback, so
+ * give it explicitly.
+ *
+ * @param register - Function that passes the callback to the callback API
+ * @param onError - Optional function to transform the error
+ * @returns Promise resolving when the callback is called
+ *
+ * @example
+ * ```ts
+ * await fromCallback<Error, Buffer>((callback) => fs.readFile("config.json", callback)); // Right(Buffer)
+ * ```
+ */
+export const fromCallback = <L, R>(
+	register: (callback: NodeCallback<R>) => void,
+	onError?: (e: unknown) => L,
+): Promise<Either<L, R>> => fromAsync(() => callbackPromise(register), onError);
+
+/**
+ * Turns a function whose last parameter is a Node-style `(error, value)` callback into a
+ * function that returns a Promise of an Either. The other parameter types are preserved.
+ *
+ * @param fn - Callback API to adapt
+ * @param onError - Optional function to transform the error
+ * @returns A function taking the other parameters, returning a Promise of an Either
+ *
+ * @example
+ * ```ts
+ * const readFile = promisifyEither(legacyReadFile); // (path: string) => Promise<Either<unknown, string>>
+ * await readFile("config.json"); // Right(contents)
+ * ```
+ */
+export const promisifyEither =
+	<A extends unknown[], R, L = unknown>(
+		fn: (...args: [...A, NodeCallback<R>]) => void,
+		onError?: (e: unknown) => L,
+	) =>
+	(...args: A): Promise<Either<L, R>> =>
+		fromCallback<L, R>((callback) => fn(...args, callback), onError);
+
+/**
+ * Passes an Either to a Node-style callback: `callback(null, value)` for Right and
+ * `callback(value)` for Left. A Promise of an Either is awaited first, so a callback
+ * API can be implemented on top of Either code. A rejection is passed on as
+ * `callback(error)`.
+ *
+ * @param either - The Either to deliver
+ * @param callback - The Node-style callback
+ *
+ * @example
+ * ```ts
+ * toCallback(right(42), (error, value) => console.log(error, value)); // null 42
+ * toCallback(left("boom"), (error) => console.log(error)); // "boom"
+ * ```
+ */
+export const toCallback = <L, R>(
+	either: Either<L, R> | PromiseLike<Either<L, R>>,
+	callback: NodeCallback<R, L>,
+): void => {
+	if (isPromiseLike(either)) {
+		either.then(
+			(settled) => toCallback(settled, callback),
+			(error) => callback(error as L),
+		);
+		return;
+	}
+	either.match({
+		right: (value) => callback(null, value),
+		left: (error) => callback(error),
+	});
+};
+
+type SafeEitherMethods<O, L> = {
+	[K in MethodKeys<O>]: O[K] extends (...args: infer A) => infer R
+		? ReturnsPromise<R> extends true
+			? (...args: A) => Promise<Either<L, Awaited<R>>>
+			: (...args: A) => Either<L, R>
+		: never;
+};
+
+/**
+ * Wraps every method of an object, class instance or module namespace so that it
+ * returns an Either instead of throwing. Methods returning a Promise return a
+ * Promise of an Either instead. Methods are called with the original object as `this`.
+ *
+ * @param obj - Object whose methods should be wrapped
+ * @param onError - Optional function to transform the errors
+ * @returns An object with the same methods, returning Eithers
+ *
+ * @example
+ * ```ts
+ * const json = safeAll(JSON);
+ * json.parse("invalid"); // Left(SyntaxError)
+ * ```
+ */
+export const safeAll = <O extends object, L = unknown>(
+	obj: O,
+	onError?: (e: unknown) => L,
+): SafeEitherMethods<O, L> => {
+	const safe: Record<string, unknown> = {};
+	for (const key of methodKeys(obj)) {
+		const method = (obj as Record<string, unknown>)[key] as (
+			...args: unknown[]
+		) => unknown;
+		safe[key] = (...args: unknown[]) => {
+			const either = tryCatch(() => method.apply(obj, args), onError);
+			return either.isRight() && isPromiseLike(either.value)
+				? fromPromise(Promise.resolve(either.value), onError)
+				: either;
+		};
+	}
+	return safe as SafeEitherMethods<O, L>;
+};
+
+/**
+ * Runs an async function returning an Either for every item, with at most `concurrency`
+ * calls at once. Right values are kept in input order.
+ * In `"failFast"` mode (default), the first Left stops the traversal: no new call is started
+ * and the `AbortSignal` passed to running calls is aborted. In `"collect"` mode, every item
+ * is processed and the Left holds every Left value, in input order.
+ * If `fn` throws or rejects, pending calls are aborted and the Promise rejects.
+ *
+ * @param items - Items to process
+ * @param fn - Function called with each item, its index and an AbortSignal
+ * @param options - `concurrency` limit and `mode`
+ * @returns Promise resolving to Right with every value, or the first Left (or every Left value in `"collect"` mode)
+ *
+ * @example
+ * ```ts
+ * await traverseAsync(ids, (id, _, signal) => fetchUser(id, signal), { concurrency: 5 });
+ * // Right(users) or the first Left
+ *
+ * await traverseAsync(ids, fetchUser, { concurrency: 5, mode: "collect" });
+ * // Right(users) or Left(errors)
+ * ```
+ */
+export function traverseAsync<A, L, R>(
+	items: Iterable<A>,
+	fn: TraverseTask<A, Either<L, R>>,
+	options: TraverseOptions & { readonly mode: "collect" },
+): Promise<Either<L[], R[]>>;
+export function traverseAsync<A, L, R>(
+	items: Iterable<A>,
+	fn: TraverseTask<A, Either<L, R>>,
+	options?: TraverseOptions & { readonly mode?: "failFast" },
+): Promise<Either<L, R[]>>;
+export async function traverseAsync<A, L, R>(
+	items: Iterable<A>,
+	fn: TraverseTask<A, Either<L, R>>,
+	options?: TraverseOptions,
+): Promise<Either<L | L[], R[]>> {
+	const { outputs, failure } = await runTraversal(
+		items,
+		fn,
+		(either) => either.isLeft(),
+		options,
+	);
+	return failure
+		? new Left<L, R[]>(failure.unwrapLeft())
+		: all<Either<L, R>, L, R>(outputs);
 }
 
 /**
- * Wraps a function that may throw an exception into an Either.
+ * The wire format of an Either, as produced by `toJSON`.
+ */
+export type EitherJSON =
+	| { readonly _tag: "Left"; readonly value: unknown }
+	| { readonly _tag: "Right"; readonly value: unknown };
+
+/**
+ * Rebuilds an Either from its wire format, including nested Maybe, Either
+ * and Result values and Errors.
+ *
+ * @param json - The wire format, e.g. from `JSON.parse`, `structuredClone` or `postMessage`
+ * @returns The revived Either
+ * @throws {TypeError} If the value is not the wire format of an Either
+ *
+ * @example
+ * ```ts
+ * fromJSON<L, R>(JSON.parse('{"_tag":"Right","value":42}')); // Right(42)
+ * ```
+ */
+export const fromJSON = <L, R>(json: unknown): Either<L, R> => {
+	const value = revive(json);
+	if (value instanceof Left || value instanceof Right) {
+		return value;
+	}
+	throw new TypeError("Expected the JSON of an Either");
+};
+
+/**
+ * Curried version of map for use in pipelines.
+ *
+ * @param fn - Function to apply to the Right value
+ * @returns A function that takes an Either and returns a mapped Either
+ *
+ * @example
+ * ```ts
+ * pipe(right(5), map(x => x * 2)); // Right(10)
+ * ```
+ */
+export const map =
+	<L, R, U>(fn: (value: R) => U) =>
+	(either: Either<L, R>): Either<L, U> => {
+		return either.map(fn);
+	};
+
+/**
+ * Curried version of mapLeft for use in pipelines.
+ *
+ * @param fn - Function to transform the Left value
+ * @returns A function that takes an Either and returns an Either with transformed Left
+ *
+ * @example
+ * ```ts
+ * pipe(left("fail"), mapLeft(e => `Error: ${e}`)); // Left("Error: fail")
+ * ```
+ */
+export const mapLeft =
+	<L, M, R>(fn: (err: L) => M) =>
+	(either: Either<L, R>): Either<M, R> => {
+		return either.mapLeft(fn);
+	};
+
+/**
+ * Curried version of bimap for use in pipelines.
+ *
+ * @param onLeft - Function to transform the Left value
+ * @param onRight - Function to transform the Right value
+ * @returns A function that takes an Either and returns an Either with both sides transformed
+ *
+ * @example
+ * ```ts
+ * pipe(right(2), bimap(e => `Error: ${e}`, x => x * 2)); // Right(4)
+ * ```
+ */
+export const bimap =
+	<L, R, M, U>(onLeft: (left: L) => M, onRight: (right: R) => U) =>
+	(either: Either<L, R>): Either<M, U> => {
+		return either.bimap(onLeft, onRight);
+	};
+
+/**
+ * Curried version of chain for use in pipelines.
+ *
+ * @param fn - Function that returns an Either
+ * @returns A function that takes an Either and returns the chained result
+ *
+ * @example
+ * ```ts
+ * pipe(right(5), chain(x => x > 0 ? right(x * 2) : left("negative"))); // Right(10)
+ * ```
+ */
+export const chain =
+	<L, R, U>(fn: (value: R) => Either<L, U>) =>
+	(either: Either<L, R>): Either<L, U> => {
+		return either.chain(fn);
+	};
+
+/**
+ * Curried version of flatten for use in pipelines.
+ *
+ * @returns A function that takes an Either of an Either and returns a single Either
+ *
+ * @example
+ * ```ts
+ * pipe(right(right(1)), flatten()); // Right(1)
+ * ```
+ */
+export const flatten =
+	<L, M, U>() =>
+	(either: Either<L, Either<M, U>>): Either<L | M, U> => {
+		return either.flatten();
+	};
+
+/**
+ * Curried version of swap for use in pipelines.
+ *
+ * @returns A function that takes an Either and returns it with both sides exchanged
+ *
+ * @example
+ * ```ts
+ * pipe(left("fail"), swap()); // Right("fail")
+ * ```
+ */
+export const swap =
+	<L, R>() =>
+	(either: Either<L, R>): Either<R, L> => {
+		return either.swap();
+	};
+
+/**
+ * Curried version of zip for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(right(1), zip(right("a"))); // Right([1, "a"])
+ * ```
+ */
+export const zip =
+	<L, R, U, M = L>(other: Either<M, U>) =>
+	(either: Either<L, R>): Either<L | M, [R, U]> => {
+		return either.zip(other);
+	};
+
+/**
+ * Curried version of zipWith for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(right(2), zipWith(right(3), (a: number, b: number) => a * b)); // Right(6)
+ * ```
+ */
+export const zipWith =
+	<L, R, U, V, M = L>(other: Either<M, U>, fn: (value: R, other: U) => V) =>
+	(either: Either<L, R>): Either<L | M, V> => {
+		return either.zipWith(other, fn);
+	};
+
+/**
+ * Curried version of ap for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(right((x: number) => x + 1), ap(right(41))); // Right(42)
+ * ```
+ */
+export const ap =
+	<L, A, B, M = L>(arg: Either<M, A>) =>
+	(either: Either<L, (value: A) => B>): Either<L | M, B> => {
+		return either.ap(arg);
+	};
+
+/**
+ * Curried version of validate for use in pipelines.
+ *
+ * @param predicate - Validation function
+ * @param leftValue - Left value if validation fails
+ * @returns A function that takes an Either and returns validated Either
+ *
+ * @example
+ * ```ts
+ * pipe(right(25), validate(x => x >= 18, "Must be 18+")); // Right(25)
+ * ```
+ */
+export const validate =
+	<L, R>(predicate: (value: R) => boolean, leftValue: L) =>
+	(either: Either<L, R>): Either<L, R> => {
+		return either.validate(predicate, leftValue);
+	};
+
+/**
+ * Curried version of orElse for use in pipelines.
+ *
+ * @param fn - Function that receives the Left value and returns a new Either
+ * @returns A function that takes an Either and returns the original Right or the fallback
+ *
+ * @example
+ * ```ts
+ * pipe(left("cache miss"), orElse(() => right(42))); // Right(42)
+ * ```
+ */
+export const orElse =
+	<L, M, R>(fn: (left: L) => Either<M, R>) =>
+	(either: Either<L, R>): Either<M, R> => {
+		return either.orElse(fn);
+	};
+
+/**
+ * Curried version of or for use in pipelines.
+ *
+ * @param other - The fallback Either
+ * @returns A function that takes an Either and returns the original Right or the fallback
+ *
+ * @example
+ * ```ts
+ * pipe(left("cache miss"), or(right(42))); // Right(42)
+ * ```
+ */
+export const or =
+	<M, R>(other: Either<M, R>) =>
+	<L>(either: Either<L, R>): Either<M, R> => {
+		return either.or(other);
+	};
+
+/**
+ * Curried version of recover for use in pipelines.
  *
- * @param fn - Function that might throw an error
- * @param onError - Optional function to transform the caught error
- * @returns Right if successful, Left if exception is thrown
+ * @param fn - Function that receives the Left value and returns a Right value
+ * @returns A function that takes an Either and always returns a Right
  *
  * @example
  * ```ts
- * tryCatch(() => JSON.parse('{"a": 1}')); // Right({ a: 1 })
- * tryCatch(() => JSON.parse('invalid')); // Left(SyntaxError)
- * tryCatch(
- *   () => JSON.parse('invalid'),
- *   e => (e as Error).message
- * ); // Left("Unexpected token...")
+ * pipe(left("fail"), recover(() => 0)); // Right(0)
  * ```
  */
-export const tryCatch = <L = unknown, R = unknown>(
-	fn: () => R,
-	onError?: (e: unknown) => L,
-): Either<L, R> => {
-	try {
-		return new Right<L, R>(fn());
-	} catch (e) {
-		return new Left<L, R>(onError ? onError(e) : (e as L));
-	}
-};
+export const recover =
+	<L, R>(fn: (left: L) => R) =>
+	(either: Either<L, R>): Either<L, R> => {
+		return either.recover(fn);
+	};
 
 /**
- * Wraps a Promise into an Either, handling rejections.
+ * Curried version of recoverWhen for use in pipelines.
  *
- * @param promise - Promise to wrap
- * @param onError - Optional function to transform the rejection error
- * @returns Promise resolving to Right on success, Left on rejection
+ * @param predicate - Selects the Left values to recover from
+ * @param fn - Function that receives the Left value and returns a Right value
+ * @returns A function that takes an Either and recovers the selected Left values
  *
  * @example
  * ```ts
- * await fromPromise(Promise.resolve(42)); // Right(42)
- * await fromPromise(Promise.reject(new Error("fail"))); // Left(Error)
- * await fromPromise(
- *   Promise.reject(new Error("fail")),
- *   e => (e as Error).message
- * ); // Left("fail")
+ * pipe(left(404), recoverWhen(code => code === 404, () => null)); // Right(null)
  * ```
  */
-export const fromPromise = async <L, R>(
-	promise: Promise<R>,
-	onError?: (e: unknown) => L,
-): Promise<Either<L, R>> => {
-	try {
-		const data = await promise;
-		return new Right<L, R>(data);
-	} catch (e) {
-		return new Left<L, R>(onError ? onError(e) : (e as L));
-	}
-};
+export function recoverWhen<L, R, M extends L>(
+	predicate: (left: L) => left is M,
+	fn: (left: M) => R,
+): (either: Either<L, R>) => Either<Exclude<L, M>, R>;
+export function recoverWhen<L, R>(
+	predicate: (left: L) => boolean,
+	fn: (left: L) => R,
+): (either: Either<L, R>) => Either<L, R>;
+export function recoverWhen<L, R>(
+	predicate: (left: L) => boolean,
+	fn: (left: L) => R,
+): (either: Either<L, R>) => Either<L, R> {
+	return (either) => either.recoverWhen(predicate, fn);
+}
 
 /**
- * Wraps an async function into an Either, handling rejections and exceptions.
+ * Curried version of catchTag for use in pipelines.
  *
- * @param fn - Async function to wrap
- * @param onError - Optional function to transform the error
- * @returns Promise resolving to Right on success, Left on failure
+ * @example
+ * ```ts
+ * pipe(findUser(1), catchTag("NotFound", () => right(null))); // Either<Invalid, User | null>
+ * ```
+ */
+export const catchTag =
+	<L extends Tagged, R, K extends TagOf<L>, M = never, U = never>(
+		tag: K,
+		handler: (left: WithTag<L, K>) => Either<M, U>,
+	) =>
+	(
+		either: Either<L, R>,
+	): Either<WithoutTag<L, K> | HandledError<M>, R | HandledValue<U>> => {
+		return either.catchTag(tag, handler);
+	};
+
+/**
+ * Curried version of catchTags for use in pipelines.
  *
  * @example
  * ```ts
- * await fromAsync(async () => 42); // Right(42)
- * await fromAsync(async () => {
- *   throw new Error("fail");
- * }); // Left(Error)
- * await fromAsync(
- *   async () => { throw new Error("fail"); },
- *   e => (e as Error).message
- * ); // Left("fail")
+ * pipe(findUser(1), catchTags({ NotFound: () => right(guest) })); // Either<Invalid, User>
  * ```
  */
-export const fromAsync = async <L, R>(
-	fn: () => Promise<R>,
-	onError?: (e: unknown) => L,
-): Promise<Either<L, R>> => {
-	try {
-		const data = await fn();
-		return new Right<L, R>(data);
-	} catch (e) {
-		return new Left<L, R>(onError ? onError(e) : (e as L));
-	}
-};
+export const catchTags =
+	<L extends Tagged, R, H extends EitherTagHandlers<L>, U = HandlerRights<H>>(
+		handlers: H,
+	) =>
+	(
+		either: Either<L, R>,
+	): Either<WithoutTag<L, keyof H> | HandlerLefts<H>, R | U> => {
+		return either.catchTags(handlers);
+	};
 
 /**
- * Curried version of map for use in pipelines.
+ * Curried version of matchTag for use in pipelines.
  *
- * @param fn - Function to apply to the Right value
- * @returns A function that takes an Either and returns a mapped Either
+ * @example
+ * ```ts
+ * pipe(
+ *   findUser(1),
+ *   matchTag({ right: () => 200, left: { NotFound: () => 404, Invalid: () => 400 } }),
+ * ); // 200 | 404 | 400
+ * ```
+ */
+export const matchTag =
+	<L extends Tagged, R, T>(cases: {
+		right: (right: R) => T;
+		left: TagCases<L, T>;
+	}) =>
+	(either: Either<L, R>): T => {
+		return either.matchTag(cases);
+	};
+
+/**
+ * Curried version of unwrapOr for use in pipelines.
+ *
+ * @param defaultValue - Value to return if Left
+ * @returns A function that extracts the Right value or returns default
  *
  * @example
  * ```ts
- * pipe(right(5), map(x => x * 2)); // Right(10)
+ * pipe(right(42), unwrapOr(0)); // 42
  * ```
  */
-export const map =
-	<L, R, U>(fn: (value: R) => U) =>
-	(either: Either<L, R>): Either<L, U> => {
-		return either.map(fn);
+export const unwrapOr =
+	<L, R>(defaultValue: R) =>
+	(either: Either<L, R>): R => {
+		return either.unwrapOr(defaultValue);
 	};
 
 /**
- * Curried version of mapLeft for use in pipelines.
+ * Curried version of unwrapOrElse for use in pipelines.
  *
- * @param fn - Function to transform the Left value
- * @returns A function that takes an Either and returns an Either with transformed Left
+ * @example
+ * ```ts
+ * pipe(left("fail"), unwrapOrElse((e) => e.length)); // 4
+ * ```
+ */
+export const unwrapOrElse =
+	<L, R>(fn: (left: L) => R) =>
+	(either: Either<L, R>): R => {
+		return either.unwrapOrElse(fn);
+	};
+
+/**
+ * Curried version of unwrap for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(left("fail"), mapLeft(e => `Error: ${e}`)); // Left("Error: fail")
+ * pipe(right(42), map(x => x + 1), unwrap()); // 43
  * ```
  */
-export const mapLeft =
-	<L, M, R>(fn: (err: L) => M) =>
-	(either: Either<L, R>): Either<M, R> => {
-		return either.mapLeft(fn);
+export const unwrap =
+	<L, R>() =>
+	(either: Either<L, R>): R => {
+		return either.unwrap();
 	};
 
 /**
- * Curried version of chain for use in pipelines.
+ * Curried version of expect for use in pipelines.
  *
- * @param fn - Function that returns an Either
- * @returns A function that takes an Either and returns the chained result
+ * @example
+ * ```ts
+ * pipe(loadConfig(), expect("config must be valid"));
+ * ```
+ */
+export const expect =
+	<L, R>(message: string) =>
+	(either: Either<L, R>): R => {
+		return either.expect(message);
+	};
+
+/**
+ * Curried version of unwrapLeft for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(right(5), chain(x => x > 0 ? right(x * 2) : left("negative"))); // Right(10)
+ * pipe(left("fail"), unwrapLeft()); // "fail"
  * ```
  */
-export const chain =
-	<L, R, U>(fn: (value: R) => Either<L, U>) =>
-	(either: Either<L, R>): Either<L, U> => {
-		return either.chain(fn);
+export const unwrapLeft =
+	<L, R>() =>
+	(either: Either<L, R>): L => {
+		return either.unwrapLeft();
 	};
 
 /**
- * Curried version of validate for use in pipelines.
+ * Curried version of toNullable for use in pipelines.
  *
- * @param predicate - Validation function
- * @param leftValue - Left value if validation fails
- * @returns A function that takes an Either and returns validated Either
+ * @example
+ * ```ts
+ * pipe(left("fail"), toNullable()); // null
+ * ```
+ */
+export const toNullable =
+	<L, R>() =>
+	(either: Either<L, R>): R | null => {
+		return either.toNullable();
+	};
+
+/**
+ * Curried version of toUndefined for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(right(25), validate(x => x >= 18, "Must be 18+")); // Right(25)
+ * pipe(left("fail"), toUndefined()); // undefined
  * ```
  */
-export const validate =
-	<L, R>(predicate: (value: R) => boolean, leftValue: L) =>
-	(either: Either<L, R>): Either<L, R> => {
-		return either.validate(predicate, leftValue);
+export const toUndefined =
+	<L, R>() =>
+	(either: Either<L, R>): R | undefined => {
+		return either.toUndefined();
 	};
 
 /**
- * Curried version of unwrapOr for use in pipelines.
+ * Curried version of toResult for use in pipelines.
  *
- * @param defaultValue - Value to return if Left
- * @returns A function that extracts the Right value or returns default
+ * @example
+ * ```ts
+ * pipe(right(42), toResult()); // Ok(42)
+ * ```
+ */
+export const toResult =
+	<L, R>() =>
+	(either: Either<L, R>): Result<R, L> => {
+		return either.toResult();
+	};
+
+/**
+ * Curried version of toMaybe for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(right(42), unwrapOr(0)); // 42
+ * pipe(left("fail"), toMaybe()); // Nothing
  * ```
  */
-export const unwrapOr =
-	<L, R>(defaultValue: R) =>
-	(either: Either<L, R>): R => {
-		return either.unwrapOr(defaultValue);
+export const toMaybe =
+	<L, R>() =>
+	(either: Either<L, R>): Maybe<R> => {
+		return either.toMaybe();
 	};
 
 /**
@@ -403,10 +1872,30 @@ export const match =
 		return either.match(cases);
 	};
 
+/**
+ * Curried version of fold for use in pipelines.
+ *
+ * @param onLeft - Function called with the Left value
+ * @param onRight - Function called with the Right value
+ * @returns A function that reduces an Either to a single value
+ *
+ * @example
+ * ```ts
+ * pipe(right(42), fold(() => 0, x => x * 2)); // 84
+ * ```
+ */
+export const fold =
+	<L, R, T>(onLeft: (left: L) => T, onRight: (right: R) => T) =>
+	(either: Either<L, R>): T => {
+		return either.fold(onLeft, onRight);
+	};
+
 /**
  * Curried version of equals for use in pipelines.
  *
  * @param other - Either to compare with
+ * @param eq - Optional Eq used to compare Right values
+ * @param leftEq - Optional Eq used to compare Left values
  * @returns A function that checks equality with another Either
  *
  * @example
@@ -415,9 +1904,27 @@ export const match =
  * ```
  */
 export const equals =
-	<L, R>(other: Either<L, R>) =>
+	<L, R>(other: Either<L, R>, eq?: Eq<R>, leftEq?: Eq<L>) =>
 	(either: Either<L, R>): boolean => {
-		return either.equals(other);
+		return either.equals(other, eq, leftEq);
+	};
+
+/**
+ * Curried version of hash for use in pipelines.
+ *
+ * @param eq - Optional Eq with a `hash`, used for Right values
+ * @param leftEq - Optional Eq with a `hash`, used for Left values
+ * @returns A function that computes the hash of an Either
+ *
+ * @example
+ * ```ts
+ * pipe(right({ id: 1 }), hash()); // same number as right({ id: 1 }).hash()
+ * ```
+ */
+export const hash =
+	<L, R>(eq?: HashEq<R>, leftEq?: HashEq<L>) =>
+	(either: Either<L, R>): number => {
+		return either.hash(eq, leftEq);
 	};
 
 type UnwrapEitherArray<T extends Either<unknown, unknown>[]> = {
@@ -543,6 +2050,189 @@ export function partition<T extends Either<unknown, unknown>[]>(
 	);
 }
 
+type UnwrapEitherStruct<S extends Record<string, Either<unknown, unknown>>> = {
+	[K in keyof S]: S[K] extends Either<unknown, infer R> ? R : never;
+};
+
+type EitherStructLefts<S extends Record<string, Either<unknown, unknown>>> = {
+	[K in keyof S]?: S[K] extends Either<infer L, unknown> ? L : never;
+};
+
+/**
+ * Combines a record of Either values into an Either of a record.
+ * By default stops at the first Left. With `{ collect: true }`, collects every Left value
+ * into a record keyed by field name.
+ *
+ * @example
+ * ```ts
+ * struct({ user: right(user), org: right(org) }); // Right<{ user: User; org: Org }>
+ * struct({ user: left("e1"), org: left("e2") }); // Left("e1")
+ * struct({ user: left("e1"), org: left("e2") }, { collect: true });
+ * // Left({ user: "e1", org: "e2" })
+ * ```
+ */
+export function struct<S extends Record<string, Either<unknown, unknown>>>(
+	eithers: S,
+	options: { collect: true },
+): Either<EitherStructLefts<S>, UnwrapEitherStruct<S>>;
+export function struct<S extends Record<string, Either<unknown, unknown>>>(
+	eithers: S,
+	options?: { collect?: false },
+): Either<UnwrapLeftArray<S[keyof S][]>, UnwrapEitherStruct<S>>;
+export function struct(
+	eithers: Record<string, Either<unknown, unknown>>,
+	options?: { collect?: boolean },
+): Either<unknown, unknown> {
+	const values: Record<string, unknown> = {};
+	const lefts: Record<string, unknown> = {};
+	let failed = false;
+
+	for (const [key, either] of Object.entries(eithers)) {
+		if (!either.isLeft()) {
+			values[key] = either.extract();
+		} else if (options?.collect) {
+			lefts[key] = either.value;
+			failed = true;
+		} else {
+			return new Left<unknown, unknown>(either.value);
+		}
+	}
+
+	if (failed) {
+		return new Left(lefts);
+	}
+
+	return new Right(values);
+}
+
+/**
+ * Returns the first Right of the given Eithers, or a Left with every Left value in order.
+ * Sources can be thunks: they are only called when every earlier source is Left,
+ * so expensive fallbacks are skipped as soon as one source succeeds.
+ *
+ * @param sources - Eithers, or functions returning Eithers, tried in order
+ * @returns The first Right, or a Left with all collected Left values
+ *
+ * @example
+ * ```ts
+ * firstRight([() => fromCache(id), () => fromDb(id), right(defaultUser)]);
+ * firstRight([left("e1"), left("e2")]); // Left(["e1", "e2"])
+ * ```
+ */
+export const firstRight = <L, R>(
+	sources: Iterable<Either<L, R> | (() => Either<L, R>)>,
+): Either<L[], R> => {
+	const lefts: L[] = [];
+
+	for (const source of sources) {
+		const either = typeof source === "function" ? source() : source;
+		if (!either.isLeft()) {
+			return new Right(either.unwrap());
+		}
+		lefts.push(either.value);
+	}
+
+	return new Left(lefts);
+};
+
+/**
+ * Lifts a function of two arguments to work on Eithers.
+ * Returns the first Left if any argument is Left.
+ *
+ * @param fn - Function of two plain values
+ * @returns A function of two Eithers
+ *
+ * @example
+ * ```ts
+ * const add = lift2((a: number, b: number) => a + b);
+ * add(right(1), right(2)); // Right(3)
+ * add(right(1), left("fail")); // Left("fail")
+ * ```
+ */
+export const lift2 =
+	<A, B, C>(fn: (a: A, b: B) => C) =>
+	<L1, L2>(ea: Either<L1, A>, eb: Either<L2, B>): Either<L1 | L2, C> => {
+		return ea.zipWith(eb, fn);
+	};
+
+/**
+ * Lifts a function of three arguments to work on Eithers.
+ * Returns the first Left if any argument is Left.
+ *
+ * @param fn - Function of three plain values
+ * @returns A function of three Eithers
+ *
+ * @example
+ * ```ts
+ * const createUser = lift3((name: string, age: number, email: string) => ({ name, age, email }));
+ * createUser(parseName(input), parseAge(input), parseEmail(input)); // Either<NameError | AgeError | EmailError, User>
+ * ```
+ */
+export const lift3 =
+	<A, B, C, D>(fn: (a: A, b: B, c: C) => D) =>
+	<L1, L2, L3>(
+		ea: Either<L1, A>,
+		eb: Either<L2, B>,
+		ec: Either<L3, C>,
+	): Either<L1 | L2 | L3, D> => {
+		return ea.zip(eb).zipWith(ec, ([a, b], c) => fn(a, b, c));
+	};
+
+type InferGenLeft<Y> = Y extends Left<infer L, never> ? L : never;
+
+/**
+ * The unwrap function passed to a `gen` block: `yield* $(either)` returns the Right
+ * value, or yields the Left to short-circuit the block.
+ */
+export type GenUnwrap = <L, R>(
+	either: Either<L, R>,
+) => Generator<Left<L, never>, R, unknown>;
+
+function* unwrapGen<L, R>(
+	either: Either<L, R>,
+): Generator<Left<L, never>, R, unknown> {
+	if (either.isLeft()) {
+		return (yield deriveTrace(
+			either,
+			new Left<L, never>(either.value),
+			"yield*",
+		)) as R;
+	}
+	return either.unwrap();
+}
+
+/**
+ * Runs a generator function in do-notation style.
+ * The generator gets an unwrap function `$`: `yield* $(either)` returns the Right
+ * value, and the first Left short-circuits the whole block and becomes the returned
+ * Either. The Left type is the union of the Left types of every unwrapped Either.
+ *
+ * @example
+ * ```ts
+ * const either = gen(function* ($) {
+ *   const a = yield* $(parseNumber("20")); // Either<"NaN", number>
+ *   const b = yield* $(nonZero(a)); // Either<"Zero", number>
+ *   return 100 / b;
+ * }); // Either<"NaN" | "Zero", number>
+ * ```
+ */
+export const gen = <Y extends Left<unknown, never>, R>(
+	fn: ($: GenUnwrap) => Generator<Y, R, unknown>,
+): Either<InferGenLeft<Y>, R> => {
+	const iterator = fn(unwrapGen);
+	const step = iterator.next();
+
+	if (step.done) {
+		return new Right(step.value);
+	}
+
+	iterator.return(undefined as R);
+	return deriveTrace(
+		step.value,
+		new Left<InferGenLeft<Y>, R>(step.value.value as InferGenLeft<Y>),
+	);
+};
+
 /**
  * Creates a Left Either representing a failure or alternative value.
  *
@@ -562,3 +2252,27 @@ export const left = <L, R = never>(value: L): Either<L, R> => new Left(value);
  * ```
  */
 export const right = <L, R>(value: R): Either<L, R> => new Right(value);
+
+/**
+ * Type guard that checks if an Either is Left.
+ * Useful as a callback, e.g. to filter an array of Eithers.
+ *
+ * @example
+ * ```ts
+ * eithers.filter(isLeft).map(e => e.value); // L[]
+ * ```
+ */
+export const isLeft = <L, R>(either: Either<L, R>): either is Left<L, R> =>
+	either.isLeft();
+
+/**
+ * Type guard that checks if an Either is Right.
+ * Useful as a callback, e.g. to filter an array of Eithers.
+ *
+ * @example
+ * ```ts
+ * eithers.filter(isRight).map(e => e.value); // R[]
+ * ```
+ */
+export const isRight = <L, R>(either: Either<L, R>): either is Right<L, R> =>
+	either.isRight();
@@ -1,8 +1,56 @@
+import * as D from "./decoder";
 import * as E from "./either";
 import * as M from "./maybe";
 import * as R from "./result";
+import * as V from "./validation";
 
-export { E, M, R };
+export { D, E, M, R, V };
 
+export type { NodeCallback } from "./utils/callback";
+export type { CancelError, CancelOptions } from "./utils/cancel";
+export {
+	ContextError,
+	errorChain,
+	formatErrorChain,
+} from "./utils/context";
+export {
+	configureDebug,
+	type DebugOptions,
+	type DebugTrace,
+} from "./utils/debug";
+export {
+	combineHashes,
+	deepEqual,
+	type Eq,
+	type HashEq,
+	hash,
+	structuralEq,
+} from "./utils/eq";
+export {
+	AbortedError,
+	HttpError,
+	NetworkError,
+	ReleaseError,
+	ResponseDecodeError,
+	TimeoutError,
+	UnwrapError,
+} from "./utils/errors";
+export type {
+	DecodedFetchError,
+	FetchError,
+	FetchInit,
+	FetchOptions,
+} from "./utils/fetch";
 export { inspect } from "./utils/inspect";
+export { type ErrorJSON, revive, reviver } from "./utils/json";
+export type { RetryOptions } from "./utils/retry";
+export type { ReadableStreamLike, StreamSource } from "./utils/stream";
+export type {
+	TagCases,
+	Tagged,
+	TagOf,
+	WithoutTag,
+	WithTag,
+} from "./utils/tag";
 export { tap } from "./utils/tap";
+export type { TraverseOptions, TraverseTask } from "./utils/traverse";
@@ -1,3 +1,15 @@
+import { type Either, Left, Right } from "../either";
+import { Err, Ok, type Result } from "../result";
+import {
+	combineHashes,
+	type Eq,
+	type HashEq,
+	hash as hashValue,
+	structuralEq,
+} from "../utils/eq";
+import { UnwrapError } from "../utils/errors";
+import { revive, toJSONValue } from "../utils/json";
+
 /**
  * Represents an optional value: every Maybe is either Just (contains a value) or Nothing (empty).
  *
@@ -11,14 +23,21 @@
  */
 export interface Maybe<T> {
 	/**
-	 * Returns true if the Maybe is a Just value.
+	 * Returns true if the Maybe is a Just value, narrowing it to Just.
+	 *
+	 * @example
+	 * ```ts
+	 * if (maybe.isJust()) {
+	 *   console.log(maybe.value); // T
+	 * }
+	 * ```
 	 */
-	isJust(): boolean;
+	isJust(): this is Just<T>;
 
 	/**
-	 * Returns true if the Maybe is Nothing.
+	 * Returns true if the Maybe is Nothing, narrowing it to Nothing.
 	 */
-	isNothing(): boolean;
+	isNothing(): this is Nothing<T>;
 
 	/**
 	 * Applies a function to the value inside Just. Does nothing for Nothing.
@@ -47,6 +66,63 @@ export interface Maybe<T> {
 	 */
 	chain<U>(fn: (value: T) => Maybe<U>): Maybe<U>;
 
+	/**
+	 * Collapses a Maybe of a Maybe into a single Maybe.
+	 *
+	 * @returns The inner Maybe, or Nothing
+	 *
+	 * @example
+	 * ```ts
+	 * just(just(1)).flatten(); // Just(1)
+	 * just(nothing()).flatten(); // Nothing
+	 * ```
+	 */
+	flatten<U>(this: Maybe<Maybe<U>>): Maybe<U>;
+
+	/**
+	 * Combines this Maybe with another one into a Maybe of a tuple.
+	 * Returns Nothing if either is Nothing.
+	 *
+	 * @param other - The other Maybe
+	 * @returns Just with both values, or Nothing
+	 *
+	 * @example
+	 * ```ts
+	 * just(1).zip(just("a")); // Just([1, "a"])
+	 * just(1).zip(nothing()); // Nothing
+	 * ```
+	 */
+	zip<U>(other: Maybe<U>): Maybe<[T, U]>;
+
+	/**
+	 * Combines this Maybe with another one using a function.
+	 * Returns Nothing if either is Nothing.
+	 *
+	 * @param other - The other Maybe
+	 * @param fn - Function combining both values
+	 * @returns Just with the combined value, or Nothing
+	 *
+	 * @example
+	 * ```ts
+	 * just(2).zipWith(just(3), (a, b) => a * b); // Just(6)
+	 * ```
+	 */
+	zipWith<U, V>(other: Maybe<U>, fn: (value: T, other: U) => V): Maybe<V>;
+
+	/**
+	 * Applies the function inside this Just to the value inside another Maybe.
+	 * Returns Nothing if either is Nothing.
+	 *
+	 * @param arg - Maybe holding the argument
+	 * @returns Just with the function's return value, or Nothing
+	 *
+	 * @example
+	 * ```ts
+	 * just((x: number) => x + 1).ap(just(41)); // Just(42)
+	 * ```
+	 */
+	ap<A, B>(this: Maybe<(value: A) => B>, arg: Maybe<A>): Maybe<B>;
+
 	/**
 	 * Validates the value with a predicate. Converts Just to Nothing if predicate fails.
 	 *
@@ -61,6 +137,34 @@ export interface Maybe<T> {
 	 */
 	filter(fn: (value: T) => boolean): Maybe<T>;
 
+	/**
+	 * Returns this Maybe if it is Just, or the other Maybe otherwise.
+	 * Use `orElse` to compute the fallback only when it is needed.
+	 *
+	 * @param other - The fallback Maybe
+	 * @returns The original Just, or the other Maybe
+	 *
+	 * @example
+	 * ```ts
+	 * nothing().or(just(42)); // Just(42)
+	 * just(1).or(just(42)); // Just(1)
+	 * ```
+	 */
+	or(other: Maybe<T>): Maybe<T>;
+
+	/**
+	 * Returns this Maybe if it is Just, or computes a fallback Maybe otherwise.
+	 *
+	 * @param fn - Function that returns the fallback Maybe
+	 * @returns The original Just, or the result of the function
+	 *
+	 * @example
+	 * ```ts
+	 * fromNullable(cache.get(id)).orElse(() => fromNullable(db.find(id)));
+	 * ```
+	 */
+	orElse(fn: () => Maybe<T>): Maybe<T>;
+
 	/**
 	 * Extracts the value from Just, or returns the default value for Nothing.
 	 *
@@ -75,6 +179,109 @@ export interface Maybe<T> {
 	 */
 	unwrapOr(defaultValue: T): T;
 
+	/**
+	 * Extracts the value from Just, or computes a fallback for Nothing.
+	 * Unlike unwrapOr, the fallback is only computed when needed.
+	 *
+	 * @param fn - Function that returns a fallback value
+	 * @returns The contained value or the computed fallback
+	 *
+	 * @example
+	 * ```ts
+	 * nothing<Date>().unwrapOrElse(() => new Date()); // now
+	 * ```
+	 */
+	unwrapOrElse(fn: () => T): T;
+
+	/**
+	 * Extracts the value from Just, or throws an UnwrapError for Nothing.
+	 *
+	 * @returns The contained value
+	 * @throws {UnwrapError} If the value is Nothing
+	 *
+	 * @example
+	 * ```ts
+	 * just(42).unwrap(); // 42
+	 * nothing().unwrap(); // throws UnwrapError
+	 * ```
+	 */
+	unwrap(): T;
+
+	/**
+	 * Like unwrap, but throws an UnwrapError with the given message.
+	 *
+	 * @param message - Message of the thrown error
+	 * @returns The contained value
+	 * @throws {UnwrapError} If the value is Nothing
+	 *
+	 * @example
+	 * ```ts
+	 * fromNullable(process.env.PORT).expect("PORT must be set");
+	 * ```
+	 */
+	expect(message: string): T;
+
+	/**
+	 * Returns the value of Just, or null for Nothing.
+	 *
+	 * @example
+	 * ```ts
+	 * nothing().toNullable(); // null
+	 * ```
+	 */
+	toNullable(): T | null;
+
+	/**
+	 * Returns the value of Just, or undefined for Nothing.
+	 *
+	 * @example
+	 * ```ts
+	 * nothing().toUndefined(); // undefined
+	 * ```
+	 */
+	toUndefined(): T | undefined;
+
+	/**
+	 * Converts the Maybe to a Result: Just becomes Ok, Nothing becomes Err with the error
+	 * returned by `onNothing`.
+	 *
+	 * @param onNothing - Function returning the error for Nothing
+	 * @returns A Result holding the value or the error
+	 *
+	 * @example
+	 * ```ts
+	 * just(42).toResult(() => "missing"); // Ok(42)
+	 * nothing().toResult(() => "missing"); // Err("missing")
+	 * ```
+	 */
+	toResult<E>(onNothing: () => E): Result<T, E>;
+
+	/**
+	 * Converts the Maybe to an Either: Just becomes Right, Nothing becomes Left with the value
+	 * returned by `onNothing`.
+	 *
+	 * @param onNothing - Function returning the Left value for Nothing
+	 * @returns An Either holding the value or the Left value
+	 *
+	 * @example
+	 * ```ts
+	 * just(42).toEither(() => "missing"); // Right(42)
+	 * nothing().toEither(() => "missing"); // Left("missing")
+	 * ```
+	 */
+	toEither<L>(onNothing: () => L): Either<L, T>;
+
+	/**
+	 * Returns an iterator over the value: one value for Just, none for Nothing.
+	 *
+	 * @example
+	 * ```ts
+	 * [...just(42).values()]; // [42]
+	 * [...nothing().values()]; // []
+	 * ```
+	 */
+	values(): IterableIterator<T>;
+
 	/**
 	 * Pattern matches on the Maybe, executing the appropriate branch.
 	 *
@@ -93,27 +300,74 @@ export interface Maybe<T> {
 
 	/**
 	 * Checks if two Maybe values are equal.
+	 * Values are compared structurally unless a custom Eq is given.
 	 *
 	 * @param other - Maybe to compare with
+	 * @param eq - Optional Eq used to compare Just values
 	 * @returns true if both are Nothing or both are Just with equal values
+	 *
+	 * @example
+	 * ```ts
+	 * just({ id: 1 }).equals(just({ id: 1 })); // true
+	 * ```
 	 */
-	equals(other: Maybe<T>): boolean;
+	equals(other: Maybe<T>, eq?: Eq<T>): boolean;
 
 	/**
-	 * Extracts the internal value. Use unwrapOr instead for safe extraction.
+	 * Computes a hash consistent with `equals`, so Maybes can be used as cache keys.
+	 *
+	 * @param eq - Optional Eq with a `hash`, used for Just values
+	 * @returns A 32-bit integer hash
+	 *
+	 * @example
+	 * ```ts
+	 * just({ id: 1 }).hash() === just({ id: 1 }).hash(); // true
+	 * ```
+	 */
+	hash(eq?: HashEq<T>): number;
+
+	/**
+	 * Extracts the internal value. Use unwrapOr instead for safe extraction,
+	 * or narrow with isJust and read `value`.
 	 * @internal
 	 */
 	extract(): T;
+
+	/**
+	 * Converts the Maybe to its wire format: a plain tagged object that survives
+	 * `JSON.stringify`, `structuredClone` and `postMessage`. Nested Maybe, Either and
+	 * Result values and Errors are converted too. Rebuild it with `fromJSON`.
+	 *
+	 * @example
+	 * ```ts
+	 * JSON.stringify(just(1)); // '{"_tag":"Just","value":1}'
+	 * ```
+	 */
+	toJSON(): MaybeJSON;
+
+	/**
+	 * Makes the Maybe iterable like `values()`: one value for Just, none for Nothing.
+	 *
+	 * @example
+	 * ```ts
+	 * [...just(42)]; // [42]
+	 * [...nothing()]; // []
+	 * ```
+	 */
+	[Symbol.iterator](): IterableIterator<T>;
 }
 
 export class Just<T> implements Maybe<T> {
-	constructor(private readonly value: T) {}
+	/**
+	 * @param value - The contained value, readable after narrowing with isJust
+	 */
+	constructor(readonly value: T) {}
 
-	isJust(): boolean {
+	isJust(): this is Just<T> {
 		return true;
 	}
 
-	isNothing(): boolean {
+	isNothing(): this is Nothing<T> {
 		return false;
 	}
 
@@ -125,37 +379,111 @@ export class Just<T> implements Maybe<T> {
 		return fn(this.value);
 	}
 
+	flatten<U>(this: Just<Maybe<U>>): Maybe<U> {
+		return this.value;
+	}
+
+	zip<U>(other: Maybe<U>): Maybe<[T, U]> {
+		return this.zipWith(other, (value, otherValue): [T, U] => [
+			value,
+			otherValue,
+		]);
+	}
+
+	zipWith<U, V>(other: Maybe<U>, fn: (value: T, other: U) => V): Maybe<V> {
+		return other.map((otherValue) => fn(this.value, otherValue));
+	}
+
+	ap<A, B>(this: Maybe<(value: A) => B>, arg: Maybe<A>): Maybe<B> {
+		return this.zipWith(arg, (fn, value) => fn(value));
+	}
+
 	filter(fn: (value: T) => boolean): Maybe<T> {
 		return fn(this.value) ? this : new Nothing<T>();
 	}
 
+	or(_: Maybe<T>): Maybe<T> {
+		return this;
+	}
+
+	orElse(_: () => Maybe<T>): Maybe<T> {
+		return this;
+	}
+
 	unwrapOr(_: T): T {
 		return this.value;
 	}
 
+	unwrapOrElse(_: () => T): T {
+		return this.value;
+	}
+
+	unwrap(): T {
+		return this.value;
+	}
+
+	expect(_: string): T {
+		return this.value;
+	}
+
+	toNullable(): T | null {
+		return this.value;
+	}
+
+	toUndefined(): T | undefined {
+		return this.value;
+	}
+
+	toResult<E>(_: () => E): Result<T, E> {
+		return new Ok(this.value);
+	}
+
+	toEither<L>(_: () => L): Either<L, T> {
+		return new Right(this.value);
+	}
+
+	values(): IterableIterator<T> {
+		return [this.value].values();
+	}
+
 	match<U>(cases: { just: (value: T) => U; nothing: () => U }): U {
 		return cases.just(this.value);
 	}
 
-	equals(other: Maybe<T>): boolean {
-		return other.isJust() ? this.value === other.extract() : false;
+	equals(other: Maybe<T>, eq: Eq<T> = structuralEq): boolean {
+		return other.isJust() ? eq.equals(this.value, other.value) : false;
+	}
+
+	hash(eq: HashEq<T> = structuralEq): number {
+		return combineHashes(hashValue("Just"), eq.hash(this.value));
 	}
 
 	extract(): T {
 		return this.value;
 	}
+
+	toJSON(): MaybeJSON {
+		return { _tag: "Just", value: toJSONValue(this.value) };
+	}
+
+	[Symbol.iterator](): IterableIterator<T> {
+		return this.values();
+	}
 }
 
 export class Nothing<T = never> implements Maybe<T> {
+	// Type-only brand: keeps Nothing distinct from Maybe so that narrowing works
+	private declare readonly _nothing: T;
+
 	constructor() {
 		// Empty constructor for test coverage
 	}
 
-	isJust(): boolean {
+	isJust(): this is Just<T> {
 		return false;
 	}
 
-	isNothing(): boolean {
+	isNothing(): this is Nothing<T> {
 		return true;
 	}
 
@@ -167,25 +495,93 @@ export class Nothing<T = never> implements Maybe<T> {
 		return new Nothing<U>();
 	}
 
+	flatten<U>(this: Nothing<Maybe<U>>): Maybe<U> {
+		return new Nothing<U>();
+	}
+
+	zip<U>(_: Maybe<U>): Maybe<[T, U]> {
+		return new Nothing<[T, U]>();
+	}
+
+	zipWith<U, V>(_: Maybe<U>, __: (value: T, other: U) => V): Maybe<V> {
+		return new Nothing<V>();
+	}
+
+	ap<A, B>(this: Nothing<(value: A) => B>, _: Maybe<A>): Maybe<B> {
+		return new Nothing<B>();
+	}
+
 	filter(_: (value: T) => boolean): Maybe<T> {
 		return this;
 	}
 
+	or(other: Maybe<T>): Maybe<T> {
+		return other;
+	}
+
+	orElse(fn: () => Maybe<T>): Maybe<T> {
+		return fn();
+	}
+
 	unwrapOr(defaultValue: T): T {
 		return defaultValue;
 	}
 
+	unwrapOrElse(fn: () => T): T {
+		return fn();
+	}
+
+	unwrap(): T {
+		throw new UnwrapError("Called unwrap on a Nothing value");
+	}
+
+	expect(message: string): T {
+		throw new UnwrapError(message);
+	}
+
+	toNullable(): T | null {
+		return null;
+	}
+
+	toUndefined(): T | undefined {
+		return undefined;
+	}
+
+	toResult<E>(onNothing: () => E): Result<T, E> {
+		return new Err(onNothing());
+	}
+
+	toEither<L>(onNothing: () => L): Either<L, T> {
+		return new Left(onNothing());
+	}
+
+	values(): IterableIterator<T> {
+		return ([] as T[]).values();
+	}
+
 	match<U>(cases: { just: (value: T) => U; nothing: () => U }): U {
 		return cases.nothing();
 	}
 
-	equals(other: Maybe<T>): boolean {
+	equals(other: Maybe<T>, _eq?: Eq<T>): boolean {
 		return other.isNothing();
 	}
 
+	hash(_eq?: HashEq<T>): number {
+		return hashValue("Nothing");
+	}
+
 	extract(): T {
 		return undefined as T;
 	}
+
+	toJSON(): MaybeJSON {
+		return { _tag: "Nothing" };
+	}
+
+	[Symbol.iterator](): IterableIterator<T> {
+		return this.values();
+	}
 }
 
 /**
@@ -205,6 +601,90 @@ export const fromNullable = <T>(value: T | null | undefined): Maybe<T> => {
 	return value == null ? new Nothing<T>() : new Just<T>(value);
 };
 
+type Falsy = false | 0 | 0n | "" | null | undefined;
+
+/**
+ * Converts a value into a Maybe: Just if it satisfies the predicate, Nothing otherwise.
+ * Called with the predicate only, returns a function for use in pipelines.
+ *
+ * @param value - Value to check
+ * @param predicate - Condition the value must satisfy
+ * @returns Just with the value, or Nothing
+ *
+ * @example
+ * ```ts
+ * fromPredicate(age, (n) => n >= 18); // Just(age) or Nothing
+ * pipe(age, fromPredicate((n: number) => n >= 18));
+ * ```
+ */
+export function fromPredicate<T>(
+	value: T,
+	predicate: (value: T) => boolean,
+): Maybe<T>;
+export function fromPredicate<T>(
+	predicate: (value: T) => boolean,
+): (value: T) => Maybe<T>;
+export function fromPredicate<T>(
+	...args:
+		| [value: T, predicate: (value: T) => boolean]
+		| [predicate: (value: T) => boolean]
+): Maybe<T> | ((value: T) => Maybe<T>) {
+	if (args.length === 1) {
+		const [predicate] = args;
+		return (value) => fromPredicate(value, predicate);
+	}
+	const [value, predicate] = args;
+	return predicate(value) ? new Just<T>(value) : new Nothing<T>();
+}
+
+/**
+ * Converts a value into a Maybe: falsy values (`false`, `0`, `0n`, `""`, `null`, `undefined`
+ * and `NaN`) become Nothing. Takes a single argument, so it can be used in pipelines as is.
+ *
+ * @param value - Value that might be falsy
+ * @returns Just if value is truthy, Nothing otherwise
+ *
+ * @example
+ * ```ts
+ * fromFalsy("Alice"); // Just("Alice")
+ * fromFalsy(""); // Nothing
+ * pipe(process.env.NAME, fromFalsy); // Nothing for an unset or empty variable
+ * ```
+ */
+export const fromFalsy = <T>(value: T): Maybe<Exclude<T, Falsy>> => {
+	return value
+		? new Just(value as Exclude<T, Falsy>)
+		: new Nothing<Exclude<T, Falsy>>();
+};
+
+/**
+ * The wire format of a Maybe, as produced by `toJSON`.
+ */
+export type MaybeJSON =
+	| { readonly _tag: "Just"; readonly value: unknown }
+	| { readonly _tag: "Nothing" };
+
+/**
+ * Rebuilds a Maybe from its wire format, including nested Maybe, Either
+ * and Result values and Errors.
+ *
+ * @param json - The wire format, e.g. from `JSON.parse`, `structuredClone` or `postMessage`
+ * @returns The revived Maybe
+ * @throws {TypeError} If the value is not the wire format of a Maybe
+ *
+ * @example
+ * ```ts
+ * fromJSON<number>(JSON.parse('{"_tag":"Just","value":42}')); // Just(42)
+ * ```
+ */
+export const fromJSON = <T>(json: unknown): Maybe<T> => {
+	const value = revive(json);
+	if (value instanceof Just || value instanceof Nothing) {
+		return value;
+	}
+	throw new TypeError("Expected the JSON of a Maybe");
+};
+
 /**
  * Curried version of map for use in pipelines.
  *
@@ -239,6 +719,62 @@ export const chain =
 		return maybe.chain(fn);
 	};
 
+/**
+ * Curried version of flatten for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(just(just(1)), flatten()); // Just(1)
+ * ```
+ */
+export const flatten =
+	<T>() =>
+	(maybe: Maybe<Maybe<T>>): Maybe<T> => {
+		return maybe.flatten();
+	};
+
+/**
+ * Curried version of zip for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(just(1), zip(just("a"))); // Just([1, "a"])
+ * ```
+ */
+export const zip =
+	<T, U>(other: Maybe<U>) =>
+	(maybe: Maybe<T>): Maybe<[T, U]> => {
+		return maybe.zip(other);
+	};
+
+/**
+ * Curried version of zipWith for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(just(2), zipWith(just(3), (a: number, b: number) => a * b)); // Just(6)
+ * ```
+ */
+export const zipWith =
+	<T, U, V>(other: Maybe<U>, fn: (value: T, other: U) => V) =>
+	(maybe: Maybe<T>): Maybe<V> => {
+		return maybe.zipWith(other, fn);
+	};
+
+/**
+ * Curried version of ap for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(just((x: number) => x + 1), ap(just(41))); // Just(42)
+ * ```
+ */
+export const ap =
+	<A, B>(arg: Maybe<A>) =>
+	(maybe: Maybe<(value: A) => B>): Maybe<B> => {
+		return maybe.ap(arg);
+	};
+
 /**
  * Curried version of filter for use in pipelines.
  *
@@ -256,6 +792,40 @@ export const filter =
 		return maybe.filter(fn);
 	};
 
+/**
+ * Curried version of or for use in pipelines.
+ *
+ * @param other - The fallback Maybe
+ * @returns A function that takes a Maybe and returns the original Just or the fallback
+ *
+ * @example
+ * ```ts
+ * pipe(nothing(), or(just(42))); // Just(42)
+ * ```
+ */
+export const or =
+	<T>(other: Maybe<T>) =>
+	(maybe: Maybe<T>): Maybe<T> => {
+		return maybe.or(other);
+	};
+
+/**
+ * Curried version of orElse for use in pipelines.
+ *
+ * @param fn - Function that returns the fallback Maybe
+ * @returns A function that takes a Maybe and returns the original Just or the fallback
+ *
+ * @example
+ * ```ts
+ * pipe(fromNullable(cache.get(id)), orElse(() => fromNullable(db.find(id))));
+ * ```
+ */
+export const orElse =
+	<T>(fn: () => Maybe<T>) =>
+	(maybe: Maybe<T>): Maybe<T> => {
+		return maybe.orElse(fn);
+	};
+
 /**
  * Curried version of unwrapOr for use in pipelines.
  *
@@ -273,6 +843,104 @@ export const unwrapOr =
 		return maybe.unwrapOr(defaultValue);
 	};
 
+/**
+ * Curried version of unwrapOrElse for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(nothing<number>(), unwrapOrElse(() => 0)); // 0
+ * ```
+ */
+export const unwrapOrElse =
+	<T>(fn: () => T) =>
+	(maybe: Maybe<T>): T => {
+		return maybe.unwrapOrElse(fn);
+	};
+
+/**
+ * Curried version of unwrap for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(just(42), map(x => x + 1), unwrap()); // 43
+ * ```
+ */
+export const unwrap =
+	<T>() =>
+	(maybe: Maybe<T>): T => {
+		return maybe.unwrap();
+	};
+
+/**
+ * Curried version of expect for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(fromNullable(process.env.PORT), expect("PORT must be set"));
+ * ```
+ */
+export const expect =
+	<T>(message: string) =>
+	(maybe: Maybe<T>): T => {
+		return maybe.expect(message);
+	};
+
+/**
+ * Curried version of toNullable for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(nothing(), toNullable()); // null
+ * ```
+ */
+export const toNullable =
+	<T>() =>
+	(maybe: Maybe<T>): T | null => {
+		return maybe.toNullable();
+	};
+
+/**
+ * Curried version of toUndefined for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(nothing(), toUndefined()); // undefined
+ * ```
+ */
+export const toUndefined =
+	<T>() =>
+	(maybe: Maybe<T>): T | undefined => {
+		return maybe.toUndefined();
+	};
+
+/**
+ * Curried version of toResult for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(fromNullable(user), toResult(() => "user not found")); // Ok(user) or Err("user not found")
+ * ```
+ */
+export const toResult =
+	<T, E>(onNothing: () => E) =>
+	(maybe: Maybe<T>): Result<T, E> => {
+		return maybe.toResult(onNothing);
+	};
+
+/**
+ * Curried version of toEither for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(fromNullable(user), toEither(() => "user not found")); // Right(user) or Left("user not found")
+ * ```
+ */
+export const toEither =
+	<T, L>(onNothing: () => L) =>
+	(maybe: Maybe<T>): Either<L, T> => {
+		return maybe.toEither(onNothing);
+	};
+
 /**
  * Curried version of match for use in pipelines.
  *
@@ -294,6 +962,7 @@ export const match =
  * Curried version of equals for use in pipelines.
  *
  * @param other - Maybe to compare with
+ * @param eq - Optional Eq used to compare Just values
  * @returns A function that checks equality with another Maybe
  *
  * @example
@@ -302,9 +971,26 @@ export const match =
  * ```
  */
 export const equals =
-	<T>(other: Maybe<T>) =>
+	<T>(other: Maybe<T>, eq?: Eq<T>) =>
 	(maybe: Maybe<T>): boolean => {
-		return maybe.equals(other);
+		return maybe.equals(other, eq);
+	};
+
+/**
+ * Curried version of hash for use in pipelines.
+ *
+ * @param eq - Optional Eq with a `hash`, used for Just values
+ * @returns A function that computes the hash of a Maybe
+ *
+ * @example
+ * ```ts
+ * pipe(just({ id: 1 }), hash()); // same number as just({ id: 1 }).hash()
+ * ```
+ */
+export const hash =
+	<T>(eq?: HashEq<T>) =>
+	(maybe: Maybe<T>): number => {
+		return maybe.hash(eq);
 	};
 
 type UnwrapMaybeArray<T extends Maybe<unknown>[]> = {
@@ -348,6 +1034,151 @@ export function all<T extends Maybe<unknown>[]>(maybes: T): Maybe<unknown> {
 	return new Just(values);
 }
 
+type UnwrapMaybeStruct<S extends Record<string, Maybe<unknown>>> = {
+	[K in keyof S]: S[K] extends Maybe<infer V> ? V : never;
+};
+
+/**
+ * Combines a record of Maybe values into a Maybe of a record.
+ * Returns Nothing if any Maybe is Nothing, otherwise returns Just with all values.
+ *
+ * @param maybes - Record of Maybe values
+ * @returns Just with a record of all values, or Nothing if any is Nothing
+ *
+ * @example
+ * ```ts
+ * struct({ name: just("Alice"), age: just(30) }); // Just<{ name: string; age: number }>
+ * struct({ name: just("Alice"), age: nothing() }); // Nothing
+ * ```
+ */
+export const struct = <S extends Record<string, Maybe<unknown>>>(
+	maybes: S,
+): Maybe<UnwrapMaybeStruct<S>> => {
+	const values: Record<string, unknown> = {};
+
+	for (const [key, maybe] of Object.entries(maybes)) {
+		if (!maybe.isJust()) {
+			return new Nothing();
+		}
+
+		values[key] = maybe.value;
+	}
+
+	return new Just(values as UnwrapMaybeStruct<S>);
+};
+
+/**
+ * Returns the first Just of the given Maybes, or Nothing if every one is Nothing.
+ * Sources can be thunks: they are only called when every earlier source is Nothing,
+ * so expensive fallbacks are skipped as soon as one source has a value.
+ *
+ * @param sources - Maybes, or functions returning Maybes, tried in order
+ * @returns The first Just, or Nothing
+ *
+ * @example
+ * ```ts
+ * firstJust([() => fromCache(id), () => fromDb(id), just(defaultUser)]);
+ * firstJust([nothing(), just(2), just(3)]); // Just(2)
+ * ```
+ */
+export const firstJust = <T>(
+	sources: Iterable<Maybe<T> | (() => Maybe<T>)>,
+): Maybe<T> => {
+	for (const source of sources) {
+		const maybe = typeof source === "function" ? source() : source;
+		if (maybe.isJust()) {
+			return maybe;
+		}
+	}
+
+	return new Nothing<T>();
+};
+
+/**
+ * Lifts a function of two arguments to work on Maybes.
+ * Returns Nothing if any argument is Nothing.
+ *
+ * @param fn - Function of two plain values
+ * @returns A function of two Maybes
+ *
+ * @example
+ * ```ts
+ * const add = lift2((a: number, b: number) => a + b);
+ * add(just(1), just(2)); // Just(3)
+ * add(just(1), nothing()); // Nothing
+ * ```
+ */
+export const lift2 =
+	<A, B, C>(fn: (a: A, b: B) => C) =>
+	(ma: Maybe<A>, mb: Maybe<B>): Maybe<C> => {
+		return ma.zipWith(mb, fn);
+	};
+
+/**
+ * Lifts a function of three arguments to work on Maybes.
+ * Returns Nothing if any argument is Nothing.
+ *
+ * @param fn - Function of three plain values
+ * @returns A function of three Maybes
+ *
+ * @example
+ * ```ts
+ * const fullName = lift3((first: string, middle: string, last: string) => `${first} ${middle} ${last}`);
+ * fullName(fromNullable(user.first), fromNullable(user.middle), fromNullable(user.last));
+ * ```
+ */
+export const lift3 =
+	<A, B, C, D>(fn: (a: A, b: B, c: C) => D) =>
+	(ma: Maybe<A>, mb: Maybe<B>, mc: Maybe<C>): Maybe<D> => {
+		return ma.zip(mb).zipWith(mc, ([a, b], c) => fn(a, b, c));
+	};
+
+/**
+ * The unwrap function passed to a `gen` block: `yield* $(maybe)` returns the Just
+ * value, or yields Nothing to short-circuit the block.
+ */
+export type GenUnwrap = <T>(
+	maybe: Maybe<T>,
+) => Generator<Nothing<never>, T, unknown>;
+
+function* unwrapGen<T>(maybe: Maybe<T>): Generator<Nothing<never>, T, unknown> {
+	if (maybe.isJust()) {
+		return maybe.value;
+	}
+	return (yield new Nothing()) as T;
+}
+
+/**
+ * Runs a generator function in do-notation style.
+ * The generator gets an unwrap function `$`: `yield* $(maybe)` returns the Just value,
+ * and the first Nothing short-circuits the whole block so the result is Nothing.
+ *
+ * @param fn - Generator function that unwraps Maybes and returns the final value
+ * @returns Just with the returned value, or Nothing
+ *
+ * @example
+ * ```ts
+ * const city = gen(function* ($) {
+ *   const user = yield* $(fromNullable(users.get(1)));
+ *   const address = yield* $(fromNullable(user.address));
+ *   return address.city;
+ * }); // Maybe<string>
+ * ```
+ */
+export const gen = <T>(
+	fn: ($: GenUnwrap) => Generator<Nothing<never>, T, unknown>,
+): Maybe<T> => {
+	const iterator = fn(unwrapGen);
+	const step = iterator.next();
+
+	if (step.done) {
+		return new Just(step.value);
+	}
+
+	iterator.return(undefined as T);
+	return new Nothing<T>();
+};
+
 /**
  * Creates a Just value containing the given value.
  *
@@ -372,3 +1203,25 @@ export const just = <T>(value: T): Maybe<T> => new Just(value);
  * ```
  */
 export const nothing = <T = never>() => new Nothing<T>();
+
+/**
+ * Type guard that checks if a Maybe is Just.
+ * Useful as a callback, e.g. to filter an array of Maybes.
+ *
+ * @example
+ * ```ts
+ * maybes.filter(isJust).map(m => m.value); // T[]
+ * ```
+ */
+export const isJust = <T>(maybe: Maybe<T>): maybe is Just<T> => maybe.isJust();
+
+/**
+ * Type guard that checks if a Maybe is Nothing.
+ *
+ * @example
+ * ```ts
+ * maybes.filter(isNothing).length; // number of empty values
+ * ```
+ */
+export const isNothing = <T>(maybe: Maybe<T>): maybe is Nothing<T> =>
+	maybe.isNothing();
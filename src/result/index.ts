@@ -1,3 +1,72 @@
+import { type Either, Left, Right } from "../either";
+import { Just, type Maybe, Nothing } from "../maybe";
+import { callbackPromise, type NodeCallback } from "../utils/callback";
+import {
+	awaitCancellable,
+	type CancelError,
+	type CancelOptions,
+	type CancelOutcome,
+	runCancellable,
+} from "../utils/cancel";
+import { ContextError } from "../utils/context";
+import {
+	captureTrace,
+	type DebugTrace,
+	debugSettings,
+	deriveTrace,
+	traceOf,
+} from "../utils/debug";
+import {
+	combineHashes,
+	type Eq,
+	type HashEq,
+	hash as hashValue,
+	structuralEq,
+} from "../utils/eq";
+import {
+	HttpError,
+	NetworkError,
+	ReleaseError,
+	ResponseDecodeError,
+	UnwrapError,
+} from "../utils/errors";
+import type {
+	DecodedFetchError,
+	FetchError,
+	FetchInit,
+	FetchOptions,
+} from "../utils/fetch";
+import { revive, toJSONValue } from "../utils/json";
+import {
+	assertAttempts,
+	sleep as defaultSleep,
+	type RetryOptions,
+	retryDelay,
+} from "../utils/retry";
+import {
+	isPromiseLike,
+	type MethodKeys,
+	methodKeys,
+	type ReturnsPromise,
+} from "../utils/safe";
+import { readStream, type StreamSource } from "../utils/stream";
+import {
+	type HandledError,
+	type HandledValue,
+	handlerForTag,
+	readTag,
+	type TagCases,
+	type Tagged,
+	type TagOf,
+	type WithoutTag,
+	type WithTag,
+} from "../utils/tag";
+import {
+	runTraversal,
+	type TraverseOptions,
+	type TraverseTask,
+} from "../utils/traverse";
+
 /**
  * Represents the result of a computation that may fail: either Ok (success) or Err (failure).
  *
@@ -12,14 +81,28 @@
  */
 export interface Result<T, E> {
 	/**
-	 * Returns true if the Result is Ok.
+	 * Returns true if the Result is Ok, narrowing it to Ok.
+	 *
+	 * @example
+	 * ```ts
+	 * if (result.isOk()) {
+	 *   console.log(result.value); // T
+	 * }
+	 * ```
 	 */
-	isOk(): boolean;
+	isOk(): this is Ok<T, E>;
 
 	/**
-	 * Returns true if the Result is Err.
+	 * Returns true if the Result is Err, narrowing it to Err.
+	 *
+	 * @example
+	 * ```ts
+	 * if (result.isErr()) {
+	 *   console.log(result.error); // E
+	 * }
+	 * ```
 	 */
-	isErr(): boolean;
+	isErr(): this is Err<T, E>;
 
 	/**
 	 * Applies a function to the value inside Ok. Does nothing for Err.
@@ -48,6 +131,48 @@ export interface Result<T, E> {
 	 */
 	mapErr<F>(fn: (err: E) => F): Result<T, F>;
 
+	/**
+	 * Transforms both sides at once: the error with `onErr`, the value with `onOk`.
+	 *
+	 * @param onErr - Function to transform the error
+	 * @param onOk - Function to transform the value
+	 * @returns A new Result with the transformed value or error
+	 *
+	 * @example
+	 * ```ts
+	 * ok(2).bimap(e => `Error: ${e}`, x => x * 2); // Ok(4)
+	 * err("fail").bimap(e => `Error: ${e}`, x => x * 2); // Err("Error: fail")
+	 * ```
+	 */
+	bimap<F, U>(onErr: (err: E) => F, onOk: (value: T) => U): Result<U, F>;
+
+	/**
+	 * Wraps the error inside Err in a context frame describing what was being done.
+	 * The original error is kept as `cause`. Does nothing for Ok.
+	 *
+	 * @param message - Describes what was being done
+	 * @returns A new Result with the error wrapped in a ContextError
+	 *
+	 * @example
+	 * ```ts
+	 * err("timeout").context("loading user 42"); // Err(ContextError("loading user 42", cause: "timeout"))
+	 * ```
+	 */
+	context(message: string): Result<T, ContextError<E>>;
+
+	/**
+	 * Like `context`, but builds the message from the error, only when there is one.
+	 *
+	 * @param fn - Function building the context message from the error
+	 * @returns A new Result with the error wrapped in a ContextError
+	 *
+	 * @example
+	 * ```ts
+	 * err(404).withContext(status => `loading user 42 (status ${status})`);
+	 * ```
+	 */
+	withContext(fn: (err: E) => string): Result<T, ContextError<E>>;
+
 	/**
 	 * Chains a Result-returning function. Useful for sequential operations that may fail.
 	 *
@@ -61,6 +186,83 @@ export interface Result<T, E> {
 	 */
 	chain<U>(fn: (value: T) => Result<U, E>): Result<U, E>;
 
+	/**
+	 * Collapses a Result of a Result into a single Result.
+	 *
+	 * @returns The inner Result, or the outer Err
+	 *
+	 * @example
+	 * ```ts
+	 * ok(ok(1)).flatten(); // Ok(1)
+	 * ok(err("inner")).flatten(); // Err("inner")
+	 * err("outer").flatten(); // Err("outer")
+	 * ```
+	 */
+	flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F>;
+
+	/**
+	 * Exchanges the two sides: an Ok becomes an Err and an Err becomes an Ok.
+	 *
+	 * @returns Err with the value, or Ok with the error
+	 *
+	 * @example
+	 * ```ts
+	 * ok(1).swap(); // Err(1)
+	 * err("fail").swap(); // Ok("fail")
+	 * ```
+	 */
+	swap(): Result<E, T>;
+
+	/**
+	 * Combines this Result with another one into a Result of a tuple.
+	 * Returns the first Err if either is Err.
+	 *
+	 * @param other - The other Result
+	 * @returns Ok with both values, or the first Err
+	 *
+	 * @example
+	 * ```ts
+	 * ok(1).zip(ok("a")); // Ok([1, "a"])
+	 * ok(1).zip(err("fail")); // Err("fail")
+	 * ```
+	 */
+	zip<U, F = E>(other: Result<U, F>): Result<[T, U], E | F>;
+
+	/**
+	 * Combines this Result with another one using a function.
+	 * Returns the first Err if either is Err.
+	 *
+	 * @param other - The other Result
+	 * @param fn - Function combining both values
+	 * @returns Ok with the combined value, or the first Err
+	 *
+	 * @example
+	 * ```ts
+	 * ok(2).zipWith(ok(3), (a, b) => a * b); // Ok(6)
+	 * ```
+	 */
+	zipWith<U, V, F = E>(
+		other: Result<U, F>,
+		fn: (value: T, other: U) => V,
+	): Result<V, E | F>;
+
+	/**
+	 * Applies the function inside this Ok to the value inside another Result.
+	 * Returns the first Err if either is Err.
+	 *
+	 * @param arg - Result holding the argument
+	 * @returns Ok with the function's return value, or the first Err
+	 *
+	 * @example
+	 * ```ts
+	 * ok((x: number) => x + 1).ap(ok(41)); // Ok(42)
+	 * ```
+	 */
+	ap<A, B, F = E>(
+		this: Result<(value: A) => B, E>,
+		arg: Result<A, F>,
+	): Result<B, E | F>;
+
 	/**
 	 * Validates the value with a predicate. Converts Ok to Err if predicate fails.
 	 *
@@ -76,6 +278,126 @@ export interface Result<T, E> {
 	 */
 	validate(predicate: (value: T) => boolean, error: E): Result<T, E>;
 
+	/**
+	 * Chains a Result-returning function on the error (also known as chainErr).
+	 * Useful to switch to a fallback computation. Does nothing for Ok.
+	 *
+	 * @param fn - Function that receives the error and returns a new Result
+	 * @returns The original Ok, or the result of the function
+	 *
+	 * @example
+	 * ```ts
+	 * err("cache miss").orElse(() => ok(42)); // Ok(42)
+	 * err("fail").orElse(e => err(`Error: ${e}`)); // Err("Error: fail")
+	 * ```
+	 */
+	orElse<F>(fn: (err: E) => Result<T, F>): Result<T, F>;
+
+	/**
+	 * Returns this Result if it is Ok, or the other Result otherwise.
+	 * Use `orElse` to compute the fallback only when it is needed.
+	 *
+	 * @param other - The fallback Result
+	 * @returns The original Ok, or the other Result
+	 *
+	 * @example
+	 * ```ts
+	 * err("cache miss").or(ok(42)); // Ok(42)
+	 * ok(1).or(ok(42)); // Ok(1)
+	 * ```
+	 */
+	or<F>(other: Result<T, F>): Result<T, F>;
+
+	/**
+	 * Turns an Err into an Ok by computing a value from the error. Does nothing for Ok.
+	 *
+	 * @param fn - Function that receives the error and returns a success value
+	 * @returns Always an Ok
+	 *
+	 * @example
+	 * ```ts
+	 * err("fail").recover(e => e.length); // Ok(4)
+	 * ```
+	 */
+	recover(fn: (err: E) => T): Result<T, E>;
+
+	/**
+	 * Like recover, but only for errors matching the predicate. Other errors are kept.
+	 * With a type guard, the handled errors are removed from the error type.
+	 *
+	 * @param predicate - Selects the errors to recover from
+	 * @param fn - Function that receives the error and returns a success value
+	 * @returns Ok if recovered, the original Result otherwise
+	 *
+	 * @example
+	 * ```ts
+	 * err(404).recoverWhen(code => code === 404, () => null); // Ok(null)
+	 * err(500).recoverWhen(code => code === 404, () => null); // Err(500)
+	 * ```
+	 */
+	recoverWhen<F extends E>(
+		predicate: (err: E) => err is F,
+		fn: (err: F) => T,
+	): Result<T, Exclude<E, F>>;
+	recoverWhen(predicate: (err: E) => boolean, fn: (err: E) => T): Result<T, E>;
+
+	/**
+	 * Handles a single variant of a tagged error union and removes it from the error type.
+	 * Errors with other tags are kept. Does nothing for Ok. The value and error types of
+	 * the handler's Result are added to those of the Result.
+	 *
+	 * @param tag - The `_tag` of the error variant to handle
+	 * @param handler - Function that receives the matching error and returns a new Result
+	 * @returns The original Result, or the result of the handler
+	 *
+	 * @example
+	 * ```ts
+	 * // Result<User, NotFound | Invalid> -> Result<User | null, Invalid>
+	 * findUser(1).catchTag("NotFound", () => ok(null));
+	 * ```
+	 */
+	catchTag<K extends TagOf<E>, U = never, F = never>(
+		tag: K,
+		handler: (err: WithTag<E, K>) => Result<U, F>,
+	): Result<T | HandledValue<U>, WithoutTag<E, K> | HandledError<F>>;
+
+	/**
+	 * Handles several variants of a tagged error union at once, keyed by `_tag`.
+	 * Handled variants are removed from the error type, and the value and error types of
+	 * the handlers are added.
+	 *
+	 * @param handlers - Object with one handler per `_tag` to handle
+	 * @returns The original Result, or the result of the matching handler
+	 *
+	 * @example
+	 * ```ts
+	 * findUser(1).catchTags({
+	 *   NotFound: () => ok(guest),
+	 *   Invalid: (e) => err(`invalid: ${e.reason}`),
+	 * }); // Result<User, string>
+	 * ```
+	 */
+	catchTags<H extends ResultTagHandlers<E>, U = HandlerValues<H>>(
+		handlers: H,
+	): Result<T | U, WithoutTag<E, keyof H> | HandlerErrors<H>>;
+
+	/**
+	 * Pattern matches on the Result with one handler per error `_tag`.
+	 * Every tag must be handled, which is checked at compile time.
+	 *
+	 * @param cases - Object with an ok handler and an err object keyed by `_tag`
+	 * @returns The result of the matched handler
+	 *
+	 * @example
+	 * ```ts
+	 * findUser(1).matchTag({
+	 *   ok: (user) => 200,
+	 *   err: { NotFound: () => 404, Invalid: () => 400 },
+	 * });
+	 * ```
+	 */
+	matchTag<U>(cases: { ok: (value: T) => U; err: TagCases<E, U> }): U;
+
 	/**
 	 * Extracts the value from Ok, or returns the default value for Err.
 	 *
@@ -90,6 +412,117 @@ export interface Result<T, E> {
 	 */
 	unwrapOr(defaultValue: T): T;
 
+	/**
+	 * Extracts the value from Ok, or computes a fallback from the error for Err.
+	 * Unlike unwrapOr, the fallback is only computed when needed.
+	 *
+	 * @param fn - Function that receives the error and returns a fallback value
+	 * @returns The contained value or the computed fallback
+	 *
+	 * @example
+	 * ```ts
+	 * err("fail").unwrapOrElse(e => e.length); // 4
+	 * ```
+	 */
+	unwrapOrElse(fn: (err: E) => T): T;
+
+	/**
+	 * Extracts the value from Ok, or throws an UnwrapError for Err.
+	 * The error is available as the `cause` of the thrown error.
+	 *
+	 * @returns The contained value
+	 * @throws {UnwrapError} If the value is Err
+	 *
+	 * @example
+	 * ```ts
+	 * ok(42).unwrap(); // 42
+	 * err("fail").unwrap(); // throws UnwrapError with cause "fail"
+	 * ```
+	 */
+	unwrap(): T;
+
+	/**
+	 * Like unwrap, but throws an UnwrapError with the given message.
+	 *
+	 * @param message - Message of the thrown error
+	 * @returns The contained value
+	 * @throws {UnwrapError} If the value is Err
+	 *
+	 * @example
+	 * ```ts
+	 * loadConfig().expect("config must be valid");
+	 * ```
+	 */
+	expect(message: string): T;
+
+	/**
+	 * Extracts the error from Err, or throws an UnwrapError for Ok.
+	 * The value is available as the `cause` of the thrown error.
+	 *
+	 * @returns The contained error
+	 * @throws {UnwrapError} If the value is Ok
+	 *
+	 * @example
+	 * ```ts
+	 * err("fail").unwrapErr(); // "fail"
+	 * ```
+	 */
+	unwrapErr(): E;
+
+	/**
+	 * Returns the value of Ok, or null for Err.
+	 *
+	 * @example
+	 * ```ts
+	 * err("fail").toNullable(); // null
+	 * ```
+	 */
+	toNullable(): T | null;
+
+	/**
+	 * Returns the value of Ok, or undefined for Err.
+	 *
+	 * @example
+	 * ```ts
+	 * err("fail").toUndefined(); // undefined
+	 * ```
+	 */
+	toUndefined(): T | undefined;
+
+	/**
+	 * Converts the Result to a Maybe: Ok becomes Just, Err becomes Nothing.
+	 *
+	 * @example
+	 * ```ts
+	 * ok(42).toMaybe(); // Just(42)
+	 * err("fail").toMaybe(); // Nothing
+	 * ```
+	 */
+	toMaybe(): Maybe<T>;
+
+	/**
+	 * Converts the Result to an Either: Ok becomes Right, Err becomes Left.
+	 *
+	 * @example
+	 * ```ts
+	 * ok(42).toEither(); // Right(42)
+	 * err("fail").toEither(); // Left("fail")
+	 * ```
+	 */
+	toEither(): Either<E, T>;
+
+	/**
+	 * Returns an iterator over the value: one value for Ok, none for Err.
+	 *
+	 * @example
+	 * ```ts
+	 * [...ok(42).values()]; // [42]
+	 * [...err("fail").values()]; // []
+	 * results.flatMap((result) => [...result.values()]); // every Ok value
+	 * ```
+	 */
+	values(): IterableIterator<T>;
+
 	/**
 	 * Pattern matches on the Result, executing the appropriate branch.
 	 *
@@ -106,29 +539,123 @@ export interface Result<T, E> {
 	 */
 	match<U>(cases: { ok: (value: T) => U; err: (err: E) => U }): U;
 
+	/**
+	 * Reduces the Result to a single value, like `match` without the object literal.
+	 *
+	 * @param onErr - Function called with the error
+	 * @param onOk - Function called with the value
+	 * @returns The result of the called function
+	 *
+	 * @example
+	 * ```ts
+	 * ok(42).fold(e => `Error: ${e}`, x => `Success: ${x}`); // "Success: 42"
+	 * ```
+	 */
+	fold<U>(onErr: (err: E) => U, onOk: (value: T) => U): U;
+
 	/**
 	 * Checks if two Result values are equal.
+	 * Values and errors are compared structurally unless a custom Eq is given.
 	 *
 	 * @param other - Result to compare with
+	 * @param eq - Optional Eq used to compare Ok values
+	 * @param errEq - Optional Eq used to compare Err values
 	 * @returns true if both are Err or both are Ok with equal values
+	 *
+	 * @example
+	 * ```ts
+	 * ok({ id: 1 }).equals(ok({ id: 1 })); // true
+	 * err(["a"]).equals(err(["a"])); // true
+	 * ```
+	 */
+	equals(other: Result<T, E>, eq?: Eq<T>, errEq?: Eq<E>): boolean;
+
+	/**
+	 * Computes a hash consistent with `equals`, so Results can be used as cache keys.
+	 *
+	 * @param eq - Optional Eq with a `hash`, used for Ok values
+	 * @param errEq - Optional Eq with a `hash`, used for Err values
+	 * @returns A 32-bit integer hash
+	 *
+	 * @example
+	 * ```ts
+	 * ok({ id: 1 }).hash() === ok({ id: 1 }).hash(); // true
+	 * ```
 	 */
-	equals(other: Result<T, E>): boolean;
+	hash(eq?: HashEq<T>, errEq?: HashEq<E>): number;
 
 	/**
-	 * Extracts the internal value. Use unwrapOr instead for safe extraction.
+	 * Extracts the internal value. Use unwrapOr instead for safe extraction,
+	 * or narrow with isOk/isErr and read `value`/`error`.
 	 * @internal
 	 */
 	extract(): T | E;
+
+	/**
+	 * Returns where this Err was created, and the steps (`map`, `mapErr`, `chain`...) it
+	 * went through, when capture is turned on with `configureDebug`. An Err derived from
+	 * another one keeps its trace. Undefined for Ok and when capture is off.
+	 *
+	 * @example
+	 * ```ts
+	 * configureDebug({ captureStacks: true });
+	 * err("boom").trace()?.stack; // "at loadUser (users.ts:12:10)\n..."
+	 * ```
+	 */
+	trace(): DebugTrace | undefined;
+
+	/**
+	 * Converts the Result to its wire format: a plain tagged object that survives
+	 * `JSON.stringify`, `structuredClone` and `postMessage`. Nested Maybe, Either and
+	 * Result values and Errors are converted too. Rebuild it with `fromJSON`.
+	 *
+	 * @example
+	 * ```ts
+	 * JSON.stringify(err("boom")); // '{"_tag":"Err","error":"boom"}'
+	 * ```
+	 */
+	toJSON(): ResultJSON;
+
+	/**
+	 * Makes the Result iterable like `values()`: one value for Ok, none for Err.
+	 *
+	 * @example
+	 * ```ts
+	 * [...ok(42)]; // [42]
+	 * [...err("fail")]; // []
+	 * for (const value of result) console.log(value);
+	 * ```
+	 */
+	[Symbol.iterator](): IterableIterator<T>;
 }
 
+type ResultTagHandlers<E> = {
+	[K in TagOf<E>]?: (err: WithTag<E, K>) => Result<unknown, unknown>;
+};
+
+type HandlerValues<H> = {
+	[K in keyof H]: H[K] extends (err: never) => Result<infer U, unknown>
+		? HandledValue<U>
+		: never;
+}[keyof H];
+
+type HandlerErrors<H> = {
+	[K in keyof H]: H[K] extends (err: never) => Result<unknown, infer F>
+		? HandledError<F>
+		: never;
+}[keyof H];
+
 export class Ok<T, E> implements Result<T, E> {
-	constructor(private readonly value: T) {}
+	/**
+	 * @param value - The success value, readable after narrowing with isOk
+	 */
+	constructor(readonly value: T) {}
 
-	isOk(): boolean {
+	isOk(): this is Ok<T, E> {
 		return true;
 	}
 
-	isErr(): boolean {
+	isErr(): this is Err<T, E> {
 		return false;
 	}
 
@@ -140,73 +667,602 @@ export class Ok<T, E> implements Result<T, E> {
 		return new Ok(this.value);
 	}
 
-	chain<U>(fn: (value: T) => Result<U, E>): Result<U, E> {
-		return fn(this.value);
+	bimap<F, U>(_: (err: E) => F, onOk: (value: T) => U): Result<U, F> {
+		return new Ok(onOk(this.value));
 	}
 
-	validate(predicate: (value: T) => boolean, error: E): Result<T, E> {
-		return predicate(this.value) ? this : new Err<T, E>(error);
+	context(_: string): Result<T, ContextError<E>> {
+		return new Ok(this.value);
 	}
 
-	unwrapOr(_: T): T {
-		return this.value;
+	withContext(_: (err: E) => string): Result<T, ContextError<E>> {
+		return new Ok(this.value);
 	}
 
-	match<U>(cases: { ok: (value: T) => U; err: (err: E) => U }): U {
-		return cases.ok(this.value);
+	chain<U>(fn: (value: T) => Result<U, E>): Result<U, E> {
+		return fn(this.value);
 	}
 
-	equals(other: Result<T, E>): boolean {
-		return other.isOk() ? this.value === other.extract() : false;
+	flatten<U, F>(this: Ok<Result<U, F>, E>): Result<U, E | F> {
+		return this.value;
+	}
+
+	swap(): Result<E, T> {
+		return new Err(this.value);
+	}
+
+	zip<U, F = E>(other: Result<U, F>): Result<[T, U], E | F> {
+		return this.zipWith(other, (value, otherValue): [T, U] => [
+			value,
+			otherValue,
+		]);
+	}
+
+	zipWith<U, V, F = E>(
+		other: Result<U, F>,
+		fn: (value: T, other: U) => V,
+	): Result<V, E | F> {
+		return other.match<Result<V, E | F>>({
+			ok: (otherValue) => new Ok<V, E | F>(fn(this.value, otherValue)),
+			err: (error) => new Err<V, E | F>(error),
+		});
+	}
+
+	ap<A, B, F = E>(
+		this: Result<(value: A) => B, E>,
+		arg: Result<A, F>,
+	): Result<B, E | F> {
+		return this.zipWith(arg, (fn, value) => fn(value));
+	}
+
+	validate(predicate: (value: T) => boolean, error: E): Result<T, E> {
+		return predicate(this.value) ? this : new Err<T, E>(error);
+	}
+
+	orElse<F>(_: (err: E) => Result<T, F>): Result<T, F> {
+		return new Ok(this.value);
+	}
+
+	or<F>(_: Result<T, F>): Result<T, F> {
+		return new Ok(this.value);
+	}
+
+	recover(_: (err: E) => T): Result<T, E> {
+		return this;
+	}
+
+	recoverWhen<F extends E>(
+		predicate: (err: E) => err is F,
+		fn: (err: F) => T,
+	): Result<T, Exclude<E, F>>;
+	recoverWhen(predicate: (err: E) => boolean, fn: (err: E) => T): Result<T, E>;
+	recoverWhen(
+		_predicate: (err: E) => boolean,
+		_fn: (err: E) => T,
+	): Result<T, E> {
+		return this;
+	}
+
+	catchTag<K extends TagOf<E>, U = never, F = never>(
+		_tag: K,
+		_handler: (err: WithTag<E, K>) => Result<U, F>,
+	): Result<T | HandledValue<U>, WithoutTag<E, K> | HandledError<F>> {
+		return new Ok(this.value);
+	}
+
+	catchTags<H extends ResultTagHandlers<E>, U = HandlerValues<H>>(
+		_handlers: H,
+	): Result<T | U, WithoutTag<E, keyof H> | HandlerErrors<H>> {
+		return new Ok(this.value);
+	}
+
+	matchTag<U>(cases: { ok: (value: T) => U; err: TagCases<E, U> }): U {
+		return cases.ok(this.value);
+	}
+
+	fold<U>(_: (err: E) => U, onOk: (value: T) => U): U {
+		return onOk(this.value);
+	}
+
+	unwrapOr(_: T): T {
+		return this.value;
+	}
+
+	unwrapOrElse(_: (err: E) => T): T {
+		return this.value;
+	}
+
+	unwrap(): T {
+		return this.value;
+	}
+
+	expect(_: string): T {
+		return this.value;
+	}
+
+	unwrapErr(): E {
+		throw new UnwrapError("Called unwrapErr on an Ok value", {
+			cause: this.value,
+		});
+	}
+
+	toNullable(): T | null {
+		return this.value;
+	}
+
+	toUndefined(): T | undefined {
+		return this.value;
+	}
+
+	toMaybe(): Maybe<T> {
+		return new Just(this.value);
+	}
+
+	toEither(): Either<E, T> {
+		return new Right(this.value);
+	}
+
+	values(): IterableIterator<T> {
+		return [this.value].values();
+	}
+
+	match<U>(cases: { ok: (value: T) => U; err: (err: E) => U }): U {
+		return cases.ok(this.value);
+	}
+
+	equals(
+		other: Result<T, E>,
+		eq: Eq<T> = structuralEq,
+		_errEq?: Eq<E>,
+	): boolean {
+		return other.isOk() ? eq.equals(this.value, other.value) : false;
+	}
+
+	hash(eq: HashEq<T> = structuralEq, _errEq?: HashEq<E>): number {
+		return combineHashes(hashValue("Ok"), eq.hash(this.value));
 	}
 
 	extract(): T {
 		return this.value;
 	}
+
+	trace(): DebugTrace | undefined {
+		return undefined;
+	}
+
+	toJSON(): ResultJSON {
+		return { _tag: "Ok", value: toJSONValue(this.value) };
+	}
+
+	[Symbol.iterator](): IterableIterator<T> {
+		return this.values();
+	}
 }
 
 export class Err<T, E> implements Result<T, E> {
-	constructor(private readonly error: E) {}
+	/**
+	 * @param error - The error value, readable after narrowing with isErr
+	 */
+	constructor(readonly error: E) {
+		if (debugSettings.captureStacks) {
+			captureTrace(this);
+		}
+	}
 
-	isOk(): boolean {
+	isOk(): this is Ok<T, E> {
 		return false;
 	}
 
-	isErr(): boolean {
+	isErr(): this is Err<T, E> {
 		return true;
 	}
 
 	map<U>(_: (value: T) => U): Result<U, E> {
-		return new Err<U, E>(this.error);
+		return deriveTrace(this, new Err<U, E>(this.error), "map");
 	}
 
 	mapErr<F>(fn: (err: E) => F): Result<T, F> {
-		return new Err<T, F>(fn(this.error));
+		return deriveTrace(this, new Err<T, F>(fn(this.error)), "mapErr");
+	}
+
+	bimap<F, U>(onErr: (err: E) => F, _: (value: T) => U): Result<U, F> {
+		return deriveTrace(this, new Err<U, F>(onErr(this.error)), "bimap");
+	}
+
+	context(message: string): Result<T, ContextError<E>> {
+		return deriveTrace(
+			this,
+			new Err<T, ContextError<E>>(new ContextError(message, this.error)),
+			"context",
+		);
+	}
+
+	withContext(fn: (err: E) => string): Result<T, ContextError<E>> {
+		return deriveTrace(
+			this,
+			new Err<T, ContextError<E>>(new ContextError(fn(this.error), this.error)),
+			"withContext",
+		);
 	}
 
 	chain<U>(_: (value: T) => Result<U, E>): Result<U, E> {
-		return new Err<U, E>(this.error);
+		return deriveTrace(this, new Err<U, E>(this.error), "chain");
+	}
+
+	flatten<U, F>(this: Err<Result<U, F>, E>): Result<U, E | F> {
+		return deriveTrace(this, new Err<U, E | F>(this.error), "flatten");
+	}
+
+	swap(): Result<E, T> {
+		return new Ok(this.error);
+	}
+
+	zip<U, F = E>(_: Result<U, F>): Result<[T, U], E | F> {
+		return deriveTrace(this, new Err<[T, U], E | F>(this.error), "zip");
+	}
+
+	zipWith<U, V, F = E>(
+		_: Result<U, F>,
+		__: (value: T, other: U) => V,
+	): Result<V, E | F> {
+		return deriveTrace(this, new Err<V, E | F>(this.error), "zipWith");
+	}
+
+	ap<A, B, F = E>(
+		this: Err<(value: A) => B, E>,
+		_: Result<A, F>,
+	): Result<B, E | F> {
+		return deriveTrace(this, new Err<B, E | F>(this.error), "ap");
 	}
 
 	validate(_predicate: (value: T) => boolean, _error: E): Result<T, E> {
 		return this;
 	}
 
+	orElse<F>(fn: (err: E) => Result<T, F>): Result<T, F> {
+		return fn(this.error);
+	}
+
+	or<F>(other: Result<T, F>): Result<T, F> {
+		return other;
+	}
+
+	recover(fn: (err: E) => T): Result<T, E> {
+		return new Ok(fn(this.error));
+	}
+
+	recoverWhen<F extends E>(
+		predicate: (err: E) => err is F,
+		fn: (err: F) => T,
+	): Result<T, Exclude<E, F>>;
+	recoverWhen(predicate: (err: E) => boolean, fn: (err: E) => T): Result<T, E>;
+	recoverWhen(predicate: (err: E) => boolean, fn: (err: E) => T): Result<T, E> {
+		return predicate(this.error) ? new Ok(fn(this.error)) : this;
+	}
+
+	catchTag<K extends TagOf<E>, U = never, F = never>(
+		tag: K,
+		handler: (err: WithTag<E, K>) => Result<U, F>,
+	): Result<T | HandledValue<U>, WithoutTag<E, K> | HandledError<F>> {
+		return readTag(this.error) === tag
+			? (handler(this.error as WithTag<E, K>) as Result<
+					HandledValue<U>,
+					HandledError<F>
+				>)
+			: deriveTrace(
+					this,
+					new Err<T | HandledValue<U>, WithoutTag<E, K> | HandledError<F>>(
+						this.error as WithoutTag<E, K>,
+					),
+					"catchTag",
+				);
+	}
+
+	catchTags<H extends ResultTagHandlers<E>, U = HandlerValues<H>>(
+		handlers: H,
+	): Result<T | U, WithoutTag<E, keyof H> | HandlerErrors<H>> {
+		const handler = handlerForTag<(err: E) => Result<U, HandlerErrors<H>>>(
+			handlers,
+			this.error,
+		);
+		return handler
+			? handler(this.error)
+			: deriveTrace(
+					this,
+					new Err<T | U, WithoutTag<E, keyof H> | HandlerErrors<H>>(
+						this.error as WithoutTag<E, keyof H>,
+					),
+					"catchTags",
+				);
+	}
+
+	matchTag<U>(cases: { ok: (value: T) => U; err: TagCases<E, U> }): U {
+		const handler = handlerForTag<(err: E) => U>(cases.err, this.error);
+		return (handler as (err: E) => U)(this.error);
+	}
+
 	unwrapOr(defaultValue: T): T {
 		return defaultValue;
 	}
 
+	unwrapOrElse(fn: (err: E) => T): T {
+		return fn(this.error);
+	}
+
+	unwrap(): T {
+		throw new UnwrapError("Called unwrap on an Err value", {
+			cause: this.error,
+		});
+	}
+
+	expect(message: string): T {
+		throw new UnwrapError(message, { cause: this.error });
+	}
+
+	unwrapErr(): E {
+		return this.error;
+	}
+
+	toNullable(): T | null {
+		return null;
+	}
+
+	toUndefined(): T | undefined {
+		return undefined;
+	}
+
+	toMaybe(): Maybe<T> {
+		return new Nothing();
+	}
+
+	toEither(): Either<E, T> {
+		return deriveTrace(this, new Left<E, T>(this.error), "toEither");
+	}
+
+	values(): IterableIterator<T> {
+		return ([] as T[]).values();
+	}
+
 	match<U>(cases: { ok: (value: T) => U; err: (err: E) => U }): U {
 		return cases.err(this.error);
 	}
 
-	equals(other: Result<T, E>): boolean {
-		return other.isErr() ? this.error === other.extract() : false;
+	fold<U>(onErr: (err: E) => U, _: (value: T) => U): U {
+		return onErr(this.error);
+	}
+
+	equals(
+		other: Result<T, E>,
+		_eq?: Eq<T>,
+		errEq: Eq<E> = structuralEq,
+	): boolean {
+		return other.isErr() ? errEq.equals(this.error, other.error) : false;
+	}
+
+	hash(_eq?: HashEq<T>, errEq: HashEq<E> = structuralEq): number {
+		return combineHashes(hashValue("Err"), errEq.hash(this.error));
 	}
 
 	extract(): E {
 		return this.error;
 	}
+
+	trace(): DebugTrace | undefined {
+		return traceOf(this);
+	}
+
+	toJSON(): ResultJSON {
+		return { _tag: "Err", error: toJSONValue(this.error) };
+	}
+
+	[Symbol.iterator](): IterableIterator<T> {
+		return this.values();
+	}
+}
+
+/**
+ * An awaitable wrapper around `Promise<Result<T, E>>` with the same chainable API as Result.
+ * Every method returns a new AsyncResult (or a Promise for eliminators), so several
+ * async steps can be composed before a single `await`.
+ *
+ * @template T - The type of the success value
+ * @template E - The type of the error value
+ *
+ * @example
+ * ```ts
+ * const name = await fromAsync(() => fetchUser(1))
+ *   .map(user => user.name)
+ *   .chain(name => name ? ok(name) : err("empty name"))
+ *   .unwrapOr("anonymous");
+ * ```
+ */
+export class AsyncResult<T, E> implements Promise<Result<T, E>> {
+	readonly [Symbol.toStringTag] = "AsyncResult";
+	private readonly promise: Promise<Result<T, E>>;
+
+	constructor(result: Result<T, E> | PromiseLike<Result<T, E>>) {
+		this.promise = Promise.resolve(result);
+	}
+
+	/**
+	 * Makes AsyncResult awaitable, resolving to the underlying Result.
+	 */
+	then<A = Result<T, E>, B = never>(
+		onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+		onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+	): Promise<A | B> {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	/**
+	 * Handles a rejection of the underlying Promise, as `Promise.prototype.catch` does.
+	 * Failures are already Err values; a rejection means a callback threw.
+	 */
+	catch<B = never>(
+		onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+	): Promise<Result<T, E> | B> {
+		return this.promise.catch(onrejected);
+	}
+
+	/**
+	 * Runs a callback once the underlying Promise settles, as `Promise.prototype.finally` does.
+	 */
+	finally(onfinally?: (() => void) | null): Promise<Result<T, E>> {
+		return this.promise.finally(onfinally);
+	}
+
+	/**
+	 * Applies a function to the value inside Ok once it resolves. Does nothing for Err.
+	 *
+	 * @example
+	 * ```ts
+	 * await okAsync(5).map(x => x * 2); // Ok(10)
+	 * ```
+	 */
+	map<U>(fn: (value: T) => U): AsyncResult<U, E> {
+		return new AsyncResult(this.promise.then((result) => result.map(fn)));
+	}
+
+	/**
+	 * Applies a function to the error inside Err once it resolves. Does nothing for Ok.
+	 *
+	 * @example
+	 * ```ts
+	 * await errAsync("fail").mapErr(e => `Error: ${e}`); // Err("Error: fail")
+	 * ```
+	 */
+	mapErr<F>(fn: (err: E) => F): AsyncResult<T, F> {
+		return new AsyncResult(this.promise.then((result) => result.mapErr(fn)));
+	}
+
+	/**
+	 * Chains a function returning a Result, a Promise of a Result or an AsyncResult.
+	 *
+	 * @example
+	 * ```ts
+	 * await okAsync(5).chain(x => ok(x * 2)); // Ok(10)
+	 * await okAsync(5).chain(async x => ok(x * 2)); // Ok(10)
+	 * ```
+	 */
+	chain<U>(
+		fn: (value: T) => Result<U, E> | PromiseLike<Result<U, E>>,
+	): AsyncResult<U, E> {
+		return new AsyncResult(
+			this.promise.then((result) =>
+				result.match<Result<U, E> | PromiseLike<Result<U, E>>>({
+					ok: fn,
+					err: (e) => new Err<U, E>(e),
+				}),
+			),
+		);
+	}
+
+	/**
+	 * Validates the resolved value with a predicate. Converts Ok to Err if predicate fails.
+	 *
+	 * @example
+	 * ```ts
+	 * await okAsync(15).validate(x => x >= 18, "Must be 18+"); // Err("Must be 18+")
+	 * ```
+	 */
+	validate(predicate: (value: T) => boolean, error: E): AsyncResult<T, E> {
+		return new AsyncResult(
+			this.promise.then((result) => result.validate(predicate, error)),
+		);
+	}
+
+	/**
+	 * Resolves to the value from Ok, or to the default value for Err.
+	 *
+	 * @example
+	 * ```ts
+	 * await errAsync("fail").unwrapOr(0); // 0
+	 * ```
+	 */
+	unwrapOr(defaultValue: T): Promise<T> {
+		return this.promise.then((result) => result.unwrapOr(defaultValue));
+	}
+
+	/**
+	 * Pattern matches on the resolved Result, executing the appropriate branch.
+	 *
+	 * @example
+	 * ```ts
+	 * await okAsync(42).match({ ok: x => `Success: ${x}`, err: e => `Error: ${e}` }); // "Success: 42"
+	 * ```
+	 */
+	match<U>(cases: { ok: (value: T) => U; err: (err: E) => U }): Promise<U> {
+		return this.promise.then((result) => result.match(cases));
+	}
+}
+
+/**
+ * Converts a nullable value into a Result: null and undefined become Err with the given error.
+ * Called with the error only, returns a function for use in pipelines.
+ *
+ * @param value - Value that might be null or undefined
+ * @param error - Error used when the value is null or undefined
+ * @returns Ok with the value, or Err with the error
+ *
+ * @example
+ * ```ts
+ * fromNullable(users.get(42), "user not found"); // Ok(user) or Err("user not found")
+ * pipe(process.env.PORT, fromNullable("PORT must be set")); // Ok(port) or Err("PORT must be set")
+ * ```
+ */
+export function fromNullable<T, E>(
+	value: T | null | undefined,
+	error: E,
+): Result<T, E>;
+export function fromNullable<E>(
+	error: E,
+): <T>(value: T | null | undefined) => Result<T, E>;
+export function fromNullable<T, E>(
+	...args: [value: T | null | undefined, error: E] | [error: E]
+): Result<T, E> | ((value: T | null | undefined) => Result<T, E>) {
+	if (args.length === 1) {
+		const [error] = args;
+		return (value) => fromNullable(value, error);
+	}
+	const [value, error] = args;
+	return value == null ? new Err<T, E>(error) : new Ok<T, E>(value);
+}
+
+/**
+ * Converts a value into a Result: Ok if it satisfies the predicate, Err with the given error otherwise.
+ * Called without the value, returns a function for use in pipelines.
+ *
+ * @param value - Value to check
+ * @param predicate - Condition the value must satisfy
+ * @param error - Error used when the predicate fails
+ * @returns Ok with the value, or Err with the error
+ *
+ * @example
+ * ```ts
+ * fromPredicate(age, (n) => n >= 18, "too young"); // Ok(age) or Err("too young")
+ * pipe(age, fromPredicate((n: number) => n >= 18, "too young"));
+ * ```
+ */
+export function fromPredicate<T, E>(
+	value: T,
+	predicate: (value: T) => boolean,
+	error: E,
+): Result<T, E>;
+export function fromPredicate<T, E>(
+	predicate: (value: T) => boolean,
+	error: E,
+): (value: T) => Result<T, E>;
+export function fromPredicate<T, E>(
+	...args:
+		| [value: T, predicate: (value: T) => boolean, error: E]
+		| [predicate: (value: T) => boolean, error: E]
+): Result<T, E> | ((value: T) => Result<T, E>) {
+	if (args.length === 2) {
+		const [predicate, error] = args;
+		return (value) => fromPredicate(value, predicate, error);
+	}
+	const [value, predicate, error] = args;
+	return predicate(value) ? new Ok<T, E>(value) : new Err<T, E>(error);
 }
 
 /**
@@ -238,127 +1294,1221 @@ export const fromThrowable = <T, E = unknown>(
 };
 
 /**
- * Wraps a Promise into a Result, handling rejections.
- *
- * @param promise - Promise to wrap
- * @param onError - Optional function to transform the error
- * @returns Promise resolving to Ok on success, Err on rejection
+ * Turns a function that may throw into a function that returns a Result.
+ * The parameter types of the original function are preserved.
+ *
+ * @param fn - Function that might throw an error
+ * @param onError - Optional function to transform the error
+ * @returns A function with the same parameters, returning Ok or Err
+ *
+ * @example
+ * ```ts
+ * const parseJson = safeFn(JSON.parse, e => (e as Error).message);
+ * parseJson('{"a": 1}'); // Ok({ a: 1 })
+ * parseJson("invalid"); // Err("Unexpected token...")
+ * ```
+ */
+export const safeFn =
+	<A extends unknown[], T, E = unknown>(
+		fn: (...args: A) => T,
+		onError?: (e: unknown) => E,
+	) =>
+	(...args: A): Result<T, E> =>
+		fromThrowable(() => fn(...args), onError);
+
+const fromOutcome = <T, E>(
+	outcome: CancelOutcome<T>,
+	onError?: (e: unknown) => E,
+): Result<T, E | CancelError> => {
+	switch (outcome.status) {
+		case "fulfilled":
+			return new Ok<T, E | CancelError>(outcome.value);
+		case "rejected":
+			return new Err<T, E | CancelError>(
+				onError ? onError(outcome.reason) : (outcome.reason as E),
+			);
+		case "cancelled":
+			return new Err<T, E | CancelError>(outcome.error);
+	}
+};
+
+/**
+ * Wraps a Promise into a Result, handling rejections.
+ * The returned AsyncResult can be awaited directly or chained before awaiting.
+ * With `timeoutMs` or `signal`, the Result is an Err holding a `TimeoutError` or an
+ * `AbortedError` when the promise does not settle in time or the signal is aborted.
+ *
+ * @param promise - Promise to wrap
+ * @param onError - Optional function to transform the error
+ * @param options - Optional `timeoutMs` and `signal`
+ * @returns AsyncResult resolving to Ok on success, Err on rejection or cancellation
+ *
+ * @example
+ * ```ts
+ * await fromPromise(Promise.resolve(42)); // Ok(42)
+ * await fromPromise(Promise.reject(new Error("fail"))); // Err(Error)
+ * await fromPromise(
+ *   Promise.reject(new Error("fail")),
+ *   e => (e as Error).message
+ * ); // Err("fail")
+ * await fromPromise(Promise.resolve(21)).map(x => x * 2); // Ok(42)
+ * await fromPromise(new Promise(() => {}), undefined, { timeoutMs: 100 }); // Err(TimeoutError)
+ * ```
+ */
+export function fromPromise<T, E = unknown>(
+	promise: Promise<T>,
+	onError?: (e: unknown) => E,
+): AsyncResult<T, E>;
+export function fromPromise<T, E = unknown>(
+	promise: Promise<T>,
+	onError: ((e: unknown) => E) | undefined,
+	options: CancelOptions,
+): AsyncResult<T, E | CancelError>;
+export function fromPromise<T, E>(
+	promise: Promise<T>,
+	onError?: (e: unknown) => E,
+	options?: CancelOptions,
+): AsyncResult<T, E | CancelError> {
+	return new AsyncResult(
+		awaitCancellable(promise, options).then((outcome) =>
+			fromOutcome(outcome, onError),
+		),
+	);
+}
+
+/**
+ * Wraps an async function into a Result, handling rejections and exceptions.
+ * The returned AsyncResult can be awaited directly or chained before awaiting.
+ * The function receives an `AbortSignal` that is aborted when `timeoutMs` elapses or
+ * `signal` is aborted, so the underlying work can be cancelled; the Result is then an Err
+ * holding a `TimeoutError` or an `AbortedError`.
+ *
+ * @param fn - Async function to wrap, called with an AbortSignal
+ * @param onError - Optional function to transform the error
+ * @param options - Optional `timeoutMs` and `signal`
+ * @returns AsyncResult resolving to Ok on success, Err on failure or cancellation
+ *
+ * @example
+ * ```ts
+ * await fromAsync(async () => 42); // Ok(42)
+ * await fromAsync(async () => { throw new Error("fail"); }); // Err(Error)
+ * await fromAsync(async () => 5).chain(async x => ok(x * 2)); // Ok(10)
+ * await fromAsync((signal) => fetch(url, { signal }), undefined, { timeoutMs: 1_000 });
+ * // Ok(Response), or Err(TimeoutError) and the request is aborted
+ * ```
+ */
+export function fromAsync<T, E = unknown>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	onError?: (e: unknown) => E,
+): AsyncResult<T, E>;
+export function fromAsync<T, E = unknown>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	onError: ((e: unknown) => E) | undefined,
+	options: CancelOptions,
+): AsyncResult<T, E | CancelError>;
+export function fromAsync<T, E>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	onError?: (e: unknown) => E,
+	options?: CancelOptions,
+): AsyncResult<T, E | CancelError> {
+	return new AsyncResult(
+		runCancellable(fn, options).then((outcome) =>
+			fromOutcome(outcome, onError),
+		),
+	);
+}
+
+const readText = async (
+	response: Response,
+): Promise<Result<string, NetworkError>> => {
+	try {
+		return new Ok(await response.text());
+	} catch (error) {
+		return new Err(new NetworkError(error));
+	}
+};
+
+const sendRequest = async <T, F>(
+	input: string | URL | Request,
+	init: FetchInit | undefined,
+	signal: AbortSignal,
+	decode: ((body: unknown) => Result<T, F>) | undefined,
+): Promise<Result<Response | T, DecodedFetchError<F>>> => {
+	let response: Response;
+	try {
+		response = await fetch(input, { ...init, signal });
+	} catch (error) {
+		return new Err<Response | T, DecodedFetchError<F>>(new NetworkError(error));
+	}
+
+	if (!response.ok) {
+		const text = await readText(response);
+		if (text.isErr()) {
+			return new Err<Response | T, DecodedFetchError<F>>(text.error);
+		}
+		const { status, statusText, url } = response;
+		return new Err<Response | T, DecodedFetchError<F>>(
+			new HttpError(status, statusText, text.unwrap(), url),
+		);
+	}
+	if (!decode) {
+		return new Ok<Response | T, DecodedFetchError<F>>(response);
+	}
+
+	const text = await readText(response);
+	if (text.isErr()) {
+		return new Err<Response | T, DecodedFetchError<F>>(text.error);
+	}
+	let decoded: Result<T, F>;
+	try {
+		decoded = decode(JSON.parse(text.unwrap()));
+	} catch (error) {
+		return new Err<Response | T, DecodedFetchError<F>>(
+			new ResponseDecodeError<F | SyntaxError>(error as F | SyntaxError),
+		);
+	}
+	if (decoded.isErr()) {
+		return new Err<Response | T, DecodedFetchError<F>>(
+			new ResponseDecodeError<F | SyntaxError>(decoded.error),
+		);
+	}
+	return new Ok<Response | T, DecodedFetchError<F>>(decoded.unwrap());
+};
+
+/**
+ * Sends a request with `fetch` and returns an AsyncResult whose error tells what went
+ * wrong: a `NetworkError` when the request could not be sent or the response could not
+ * be read, an `HttpError` with the status and the body when the status is not 2xx, and
+ * a `TimeoutError` or an `AbortedError` when `timeoutMs` elapses or `signal` is aborted.
+ * With `decode`, the body is parsed as JSON and checked, failing with a
+ * `ResponseDecodeError` (tagged `"DecodeError"`); without it, the Result holds the
+ * `Response` and `timeoutMs` stops applying once the headers arrive. A `decode` that
+ * throws also fails with a `ResponseDecodeError`, holding what it threw as `cause`.
+ *
+ * @param input - The URL or Request to fetch
+ * @param init - Optional `fetch` options, except `signal`
+ * @param options - Optional `timeoutMs`, `signal` and `decode`
+ * @returns AsyncResult resolving to Ok with the Response or decoded body, Err otherwise
+ *
+ * @example
+ * ```ts
+ * const user = await fromFetch("/api/users/42", undefined, {
+ *   decode: object({ name: string }),
+ *   timeoutMs: 5_000,
+ * });
+ * user.match({
+ *   ok: ({ name }) => name,
+ *   err: (error) => error._tag, // "NetworkError" | "HttpError" | "DecodeError" | "TimeoutError" | "AbortedError"
+ * });
+ * ```
+ */
+export function fromFetch(
+	input: string | URL | Request,
+	init?: FetchInit,
+	options?: CancelOptions,
+): AsyncResult<Response, FetchError>;
+export function fromFetch<T, F>(
+	input: string | URL | Request,
+	init: FetchInit | undefined,
+	options: FetchOptions<T, F> & {
+		readonly decode: (body: unknown) => Result<T, F>;
+	},
+): AsyncResult<T, DecodedFetchError<F>>;
+export function fromFetch<T, F>(
+	input: string | URL | Request,
+	init?: FetchInit,
+	options: FetchOptions<T, F> = {},
+): AsyncResult<Response | T, DecodedFetchError<F>> {
+	const { decode, ...cancelOptions } = options;
+	return new AsyncResult(
+		runCancellable(
+			(signal) => sendRequest(input, init, signal, decode),
+			cancelOptions,
+		).then((outcome) => {
+			switch (outcome.status) {
+				case "fulfilled":
+					return outcome.value;
+				case "rejected":
+					throw outcome.reason;
+				case "cancelled":
+					return new Err<Response | T, DecodedFetchError<F>>(outcome.error);
+			}
+		}),
+	);
+}
+
+/**
+ * Turns an async function into a function that returns an AsyncResult.
+ * Rejections and synchronous exceptions become Err. The parameter types are preserved.
+ *
+ * @param fn - Async function that might fail
+ * @param onError - Optional function to transform the error
+ * @returns A function with the same parameters, returning an AsyncResult
+ *
+ * @example
+ * ```ts
+ * const fetchUser = safeFnAsync((id: number) => api.getUser(id));
+ * await fetchUser(1).map(user => user.name); // Ok("Alice")
+ * ```
+ */
+export const safeFnAsync =
+	<A extends unknown[], T, E = unknown>(
+		fn: (...args: A) => Promise<T>,
+		onError?: (e: unknown) => E,
+	) =>
+	(...args: A): AsyncResult<T, E> =>
+		fromAsync(() => fn(...args), onError);
+
+/**
+ * Calls a function that takes a Node-style `(error, value)` callback and returns an
+ * AsyncResult: Ok with the value, or Err when the callback gets a non-null error or the
+ * function throws. The value type can't be inferred from the callback, so give it
+ * explicitly.
+ *
+ * @param register - Function that passes the callback to the callback API
+ * @param onError - Optional function to transform the error
+ * @returns AsyncResult resolving when the callback is called
+ *
+ * @example
+ * ```ts
+ * await fromCallback<Buffer>((callback) => fs.readFile("config.json", callback)); // Ok(Buffer)
+ * await fromCallback<Buffer>((callback) => fs.readFile("missing", callback)); // Err(ENOENT error)
+ * ```
+ */
+export const fromCallback = <T, E = unknown>(
+	register: (callback: NodeCallback<T>) => void,
+	onError?: (e: unknown) => E,
+): AsyncResult<T, E> => fromAsync(() => callbackPromise(register), onError);
+
+/**
+ * Turns a function whose last parameter is a Node-style `(error, value)` callback into a
+ * function that returns an AsyncResult. The other parameter types are preserved.
+ *
+ * @param fn - Callback API to adapt
+ * @param onError - Optional function to transform the error
+ * @returns A function taking the other parameters, returning an AsyncResult
+ *
+ * @example
+ * ```ts
+ * const readFile = promisifyResult(legacyReadFile); // (path: string) => AsyncResult<string, unknown>
+ * await readFile("config.json").map(JSON.parse); // Ok(config)
+ * ```
+ */
+export const promisifyResult =
+	<A extends unknown[], T, E = unknown>(
+		fn: (...args: [...A, NodeCallback<T>]) => void,
+		onError?: (e: unknown) => E,
+	) =>
+	(...args: A): AsyncResult<T, E> =>
+		fromCallback<T, E>((callback) => fn(...args, callback), onError);
+
+/**
+ * Passes a Result to a Node-style callback: `callback(null, value)` for Ok and
+ * `callback(error)` for Err. An AsyncResult or Promise of a Result is awaited first,
+ * so a callback API can be implemented on top of Result code. A rejection is passed on
+ * as `callback(error)`.
+ *
+ * @param result - The Result to deliver
+ * @param callback - The Node-style callback
+ *
+ * @example
+ * ```ts
+ * export function loadConfig(path: string, callback: NodeCallback<Config, Error>): void {
+ *   toCallback(fromAsync(() => readConfig(path), (e) => e as Error), callback);
+ * }
+ * ```
+ */
+export const toCallback = <T, E>(
+	result: Result<T, E> | PromiseLike<Result<T, E>>,
+	callback: NodeCallback<T, E>,
+): void => {
+	if (isPromiseLike(result)) {
+		result.then(
+			(settled) => toCallback(settled, callback),
+			(error) => callback(error as E),
+		);
+		return;
+	}
+	result.match({
+		ok: (value) => callback(null, value),
+		err: (error) => callback(error),
+	});
+};
+
+type SafeResultMethods<O, E> = {
+	[K in MethodKeys<O>]: O[K] extends (...args: infer A) => infer T
+		? ReturnsPromise<T> extends true
+			? (...args: A) => AsyncResult<Awaited<T>, E>
+			: (...args: A) => Result<T, E>
+		: never;
+};
+
+/**
+ * Wraps every method of an object, class instance or module namespace so that it
+ * returns a Result instead of throwing. Methods returning a Promise return an
+ * AsyncResult instead. Methods are called with the original object as `this`.
+ *
+ * @param obj - Object whose methods should be wrapped
+ * @param onError - Optional function to transform the errors
+ * @returns An object with the same methods, returning Results
+ *
+ * @example
+ * ```ts
+ * const fs = safeAll(await import("node:fs/promises"));
+ * await fs.readFile("config.json", "utf8"); // Ok(string) or Err(error)
+ *
+ * const json = safeAll(JSON);
+ * json.parse("invalid"); // Err(SyntaxError)
+ * ```
+ */
+export const safeAll = <O extends object, E = unknown>(
+	obj: O,
+	onError?: (e: unknown) => E,
+): SafeResultMethods<O, E> => {
+	const safe: Record<string, unknown> = {};
+	for (const key of methodKeys(obj)) {
+		const method = (obj as Record<string, unknown>)[key] as (
+			...args: unknown[]
+		) => unknown;
+		safe[key] = (...args: unknown[]) => {
+			const result = fromThrowable(() => method.apply(obj, args), onError);
+			return result.isOk() && isPromiseLike(result.value)
+				? fromPromise(Promise.resolve(result.value), onError)
+				: result;
+		};
+	}
+	return safe as SafeResultMethods<O, E>;
+};
+
+/**
+ * Runs an async function returning a Result for every item, with at most `concurrency`
+ * calls at once. Values are kept in input order.
+ * In `"failFast"` mode (default), the first Err stops the traversal: no new call is started
+ * and the `AbortSignal` passed to running calls is aborted. In `"collect"` mode, every item
+ * is processed and the Err holds every error, in input order.
+ * If `fn` throws or rejects, pending calls are aborted and the AsyncResult rejects.
+ *
+ * @param items - Items to process
+ * @param fn - Function called with each item, its index and an AbortSignal
+ * @param options - `concurrency` limit and `mode`
+ * @returns AsyncResult with every value, or the first error (or every error in `"collect"` mode)
+ *
+ * @example
+ * ```ts
+ * await traverseAsync(ids, (id, _, signal) => fetchUser(id, signal), { concurrency: 5 });
+ * // Ok(users) or the first Err
+ *
+ * await traverseAsync(ids, fetchUser, { concurrency: 5, mode: "collect" });
+ * // Ok(users) or Err(errors)
+ * ```
+ */
+export function traverseAsync<A, T, E>(
+	items: Iterable<A>,
+	fn: TraverseTask<A, Result<T, E>>,
+	options: TraverseOptions & { readonly mode: "collect" },
+): AsyncResult<T[], E[]>;
+export function traverseAsync<A, T, E>(
+	items: Iterable<A>,
+	fn: TraverseTask<A, Result<T, E>>,
+	options?: TraverseOptions & { readonly mode?: "failFast" },
+): AsyncResult<T[], E>;
+export function traverseAsync<A, T, E>(
+	items: Iterable<A>,
+	fn: TraverseTask<A, Result<T, E>>,
+	options?: TraverseOptions,
+): AsyncResult<T[], E | E[]> {
+	const traversal = runTraversal(
+		items,
+		fn,
+		(result) => result.isErr(),
+		options,
+	);
+	return new AsyncResult(
+		traversal.then(({ outputs, failure }) =>
+			failure
+				? new Err<T[], E>(failure.unwrapErr())
+				: all<Result<T, E>, T, E>(outputs),
+		),
+	);
+}
+
+/**
+ * Calls an async function returning a Result until it returns Ok, waiting between attempts.
+ * Stops after `attempts` attempts, or as soon as `shouldRetry` returns false, and returns
+ * an Err holding the error of every attempt, in order.
+ * If `fn` throws or rejects, the returned AsyncResult rejects. An `attempts` that is not
+ * a positive integer rejects it with a RangeError.
+ *
+ * @param fn - Function called with the attempt number (starting at 1)
+ * @param options - Attempts, backoff, hooks and an injectable `sleep`
+ * @returns AsyncResult with the first Ok value, or every attempt's error
+ *
+ * @example
+ * ```ts
+ * await retry(() => fromAsync(() => fetchUser(1)), {
+ *   attempts: 5,
+ *   backoff: "exponential",
+ *   baseMs: 200,
+ *   maxMs: 5_000,
+ *   jitter: true,
+ *   shouldRetry: (err) => err instanceof NetworkError,
+ * }); // Ok(user) or Err([error1, error2, ...])
+ * ```
+ */
+export const retry = <T, E>(
+	fn: (attempt: number) => Result<T, E> | PromiseLike<Result<T, E>>,
+	options: RetryOptions<E> = {},
+): AsyncResult<T, E[]> => {
+	const {
+		attempts = 3,
+		shouldRetry = () => true,
+		onRetry,
+		sleep = defaultSleep,
+	} = options;
+
+	return new AsyncResult(
+		(async () => {
+			assertAttempts(attempts);
+			const errors: E[] = [];
+			for (let attempt = 1; ; attempt++) {
+				const result = await fn(attempt);
+				if (!result.isErr()) {
+					return new Ok<T, E[]>(result.unwrap());
+				}
+				errors.push(result.error);
+				if (attempt === attempts || !shouldRetry(result.error, attempt)) {
+					return new Err<T, E[]>(errors);
+				}
+				const delay = retryDelay(options, attempt);
+				onRetry?.(result.error, attempt, delay);
+				await sleep(delay);
+			}
+		})(),
+	);
+};
+
+const dispose = (resource: Disposable | AsyncDisposable): unknown =>
+	Symbol.asyncDispose in resource
+		? resource[Symbol.asyncDispose]()
+		: resource[Symbol.dispose]();
+
+/**
+ * Runs `release` and returns its failure, if any: a throw, a rejection or a returned Err.
+ */
+const releaseFailure = async (
+	release: () => unknown,
+): Promise<{ cause: unknown } | undefined> => {
+	try {
+		const released = await release();
+		return released instanceof Err ? { cause: released.error } : undefined;
+	} catch (cause) {
+		return { cause };
+	}
+};
+
+/**
+ * Creates a `SuppressedError`. Where the runtime has no `SuppressedError` (Node 20
+ * and 22), it creates an Error with the same name, `error` and `suppressed` instead,
+ * with `error` also set as its `cause`.
+ */
+const suppressedError = (
+	error: unknown,
+	suppressed: unknown,
+	message: string,
+): SuppressedError =>
+	typeof SuppressedError === "function"
+		? new SuppressedError(error, suppressed, message)
+		: Object.assign(new Error(message, { cause: error }), {
+				name: "SuppressedError",
+				error,
+				suppressed,
+			});
+
+/**
+ * Acquires a resource, uses it and always releases it, whether `use` returned Ok or Err.
+ * `release` may return nothing, a promise or a Result; a throw, a rejection or an Err
+ * counts as a release failure and turns the outcome into a `ReleaseError`, which keeps
+ * the error of `use` as `suppressed`. When `release` is omitted, the resource is released
+ * with its `Symbol.asyncDispose` or `Symbol.dispose` method.
+ * If `acquire` returns Err, nothing is used or released. If `use` throws or rejects,
+ * the resource is released and the AsyncResult rejects, with a `SuppressedError` if
+ * releasing failed too.
+ *
+ * @param acquire - Opens the resource
+ * @param use - Works with the resource
+ * @param release - Closes the resource
+ * @returns AsyncResult with the outcome of `use`, or a ReleaseError
+ *
+ * @example
+ * ```ts
+ * await bracket(
+ *   () => fromPromise(pool.connect()),
+ *   (conn) => fromPromise(conn.query("SELECT 1")),
+ *   (conn) => conn.release(),
+ * ); // Ok(rows), Err(queryError) or Err(ReleaseError)
+ * ```
+ */
+export function bracket<A extends Disposable | AsyncDisposable, T, E, F>(
+	acquire: () => Result<A, E> | PromiseLike<Result<A, E>>,
+	use: (resource: A) => Result<T, F> | PromiseLike<Result<T, F>>,
+): AsyncResult<T, E | F | ReleaseError<F>>;
+export function bracket<A, T, E, F>(
+	acquire: () => Result<A, E> | PromiseLike<Result<A, E>>,
+	use: (resource: A) => Result<T, F> | PromiseLike<Result<T, F>>,
+	release: (resource: A) => unknown,
+): AsyncResult<T, E | F | ReleaseError<F>>;
+export function bracket<A, T, E, F>(
+	acquire: () => Result<A, E> | PromiseLike<Result<A, E>>,
+	use: (resource: A) => Result<T, F> | PromiseLike<Result<T, F>>,
+	release?: (resource: A) => unknown,
+): AsyncResult<T, E | F | ReleaseError<F>> {
+	return new AsyncResult(
+		(async () => {
+			const acquired = await acquire();
+			if (acquired.isErr()) {
+				return new Err<T, E | F | ReleaseError<F>>(acquired.error);
+			}
+
+			const resource = acquired.unwrap();
+			const releaseResource = () =>
+				releaseFailure(() =>
+					release
+						? release(resource)
+						: dispose(resource as Disposable | AsyncDisposable),
+				);
+
+			let result: Result<T, F>;
+			try {
+				result = await use(resource);
+			} catch (error) {
+				const failure = await releaseResource();
+				throw failure
+					? suppressedError(
+							failure.cause,
+							error,
+							"Failed to release the resource",
+						)
+					: error;
+			}
+
+			const failure = await releaseResource();
+			if (failure) {
+				return new Err<T, E | F | ReleaseError<F>>(
+					new ReleaseError(
+						failure.cause,
+						result.isErr() ? result.error : undefined,
+					),
+				);
+			}
+			if (result.isErr()) {
+				return new Err<T, E | F | ReleaseError<F>>(result.error);
+			}
+			return new Ok<T, E | F | ReleaseError<F>>(result.unwrap());
+		})(),
+	);
+}
+
+/**
+ * Collects an iterable of Results into a Result of an array, without materializing
+ * the input first. In `"failFast"` mode (default), iteration stops at the first Err.
+ * In `"collect"` mode, every Result is read and the Err holds every error, in order.
+ *
+ * @param results - Results to collect, e.g. from a generator
+ * @param options - `mode`
+ * @returns Ok with every value, or the first error (or every error in `"collect"` mode)
+ *
+ * @example
+ * ```ts
+ * collect(lines.map(parseLine)); // Ok(records) or the first Err
+ * collect(lines.map(parseLine), { mode: "collect" }); // Ok(records) or Err(errors)
+ * ```
+ */
+export function collect<T, E>(
+	results: Iterable<Result<T, E>>,
+	options: { readonly mode: "collect" },
+): Result<T[], E[]>;
+export function collect<T, E>(
+	results: Iterable<Result<T, E>>,
+	options?: { readonly mode?: "failFast" },
+): Result<T[], E>;
+export function collect<T, E>(
+	results: Iterable<Result<T, E>>,
+	options?: Pick<TraverseOptions, "mode">,
+): Result<T[], E | E[]> {
+	const values: T[] = [];
+	const errors: E[] = [];
+
+	for (const result of results) {
+		if (!result.isErr()) {
+			values.push(result.unwrap());
+		} else if (options?.mode === "collect") {
+			errors.push(result.error);
+		} else {
+			return new Err<T[], E | E[]>(result.error);
+		}
+	}
+
+	if (errors.length > 0) {
+		return new Err<T[], E | E[]>(errors);
+	}
+
+	return new Ok<T[], E | E[]>(values);
+}
+
+/**
+ * Async version of `collect`, reading Results one at a time from an async iterable
+ * or a Web `ReadableStream`. In `"failFast"` mode (default), reading stops at the first
+ * Err and a `ReadableStream` is cancelled.
+ *
+ * @param results - Results to collect, e.g. from `mapStream`
+ * @param options - `mode`
+ * @returns AsyncResult with every value, or the first error (or every error in `"collect"` mode)
+ *
+ * @example
+ * ```ts
+ * await collectAsync(mapStream(lines, parseLine)); // Ok(records) or the first Err
+ * ```
+ */
+export function collectAsync<T, E>(
+	results: StreamSource<Result<T, E>>,
+	options: { readonly mode: "collect" },
+): AsyncResult<T[], E[]>;
+export function collectAsync<T, E>(
+	results: StreamSource<Result<T, E>>,
+	options?: { readonly mode?: "failFast" },
+): AsyncResult<T[], E>;
+export function collectAsync<T, E>(
+	results: StreamSource<Result<T, E>>,
+	options?: Pick<TraverseOptions, "mode">,
+): AsyncResult<T[], E | E[]> {
+	return new AsyncResult(
+		(async () => {
+			const values: T[] = [];
+			const errors: E[] = [];
+
+			for await (const result of readStream(results)) {
+				if (!result.isErr()) {
+					values.push(result.unwrap());
+				} else if (options?.mode === "collect") {
+					errors.push(result.error);
+				} else {
+					return new Err<T[], E | E[]>(result.error);
+				}
+			}
+
+			if (errors.length > 0) {
+				return new Err<T[], E | E[]>(errors);
+			}
+
+			return new Ok<T[], E | E[]>(values);
+		})(),
+	);
+}
+
+/**
+ * Lazily maps every item of a stream to a Result, one item at a time.
+ * `fn` may return a Result, an AsyncResult or a `Promise<Result>`.
+ * Nothing is read from the source until the returned stream is consumed.
+ *
+ * @param source - Items to map: an iterable, an async iterable or a Web `ReadableStream`
+ * @param fn - Function called with each item and its index
+ * @returns An async iterable of Results, in input order
+ *
+ * @example
+ * ```ts
+ * for await (const record of mapStream(file.lines(), parseLine)) {
+ *   // Result<Record, ParseError>
+ * }
+ * ```
+ */
+export async function* mapStream<A, T, E>(
+	source: StreamSource<A>,
+	fn: (item: A, index: number) => Result<T, E> | PromiseLike<Result<T, E>>,
+): AsyncGenerator<Result<T, E>, void, undefined> {
+	let index = 0;
+	for await (const item of readStream(source)) {
+		yield await fn(item, index++);
+	}
+}
+
+/**
+ * Splits a stream of Results into its Ok values, yielded in order, and its errors,
+ * routed to `onErr` as they are met. When `onErr` returns a promise, reading waits for it,
+ * so a slow error channel applies backpressure to the stream.
+ *
+ * @param source - Results to split: an iterable, an async iterable or a Web `ReadableStream`
+ * @param onErr - Called with every error and its index in the source
+ * @returns An async iterable of the Ok values
+ *
+ * @example
+ * ```ts
+ * const records = partitionStream(mapStream(file.lines(), parseLine), (error, line) =>
+ *   deadLetters.push({ line, error }),
+ * );
+ * for await (const record of records) {
+ *   await db.insert(record);
+ * }
+ * ```
+ */
+export async function* partitionStream<T, E>(
+	source: StreamSource<Result<T, E>>,
+	onErr: (error: E, index: number) => void | PromiseLike<void>,
+): AsyncGenerator<T, void, undefined> {
+	let index = 0;
+	for await (const result of readStream(source)) {
+		if (!result.isErr()) {
+			yield result.unwrap();
+		} else {
+			await onErr(result.error, index);
+		}
+		index++;
+	}
+}
+
+/**
+ * The wire format of a Result, as produced by `toJSON`.
+ */
+export type ResultJSON =
+	| { readonly _tag: "Ok"; readonly value: unknown }
+	| { readonly _tag: "Err"; readonly error: unknown };
+
+/**
+ * Rebuilds a Result from its wire format, including nested Maybe, Either
+ * and Result values and Errors.
+ *
+ * @param json - The wire format, e.g. from `JSON.parse`, `structuredClone` or `postMessage`
+ * @returns The revived Result
+ * @throws {TypeError} If the value is not the wire format of a Result
+ *
+ * @example
+ * ```ts
+ * fromJSON<T, E>(JSON.parse('{"_tag":"Ok","value":42}')); // Ok(42)
+ * ```
+ */
+export const fromJSON = <T, E>(json: unknown): Result<T, E> => {
+	const value = revive(json);
+	if (value instanceof Ok || value instanceof Err) {
+		return value;
+	}
+	throw new TypeError("Expected the JSON of a Result");
+};
+
+/**
+ * Curried version of map for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(5), map(x => x * 2)); // Ok(10)
+ * ```
+ */
+export const map =
+	<T, E, U>(fn: (value: T) => U) =>
+	(result: Result<T, E>): Result<U, E> => {
+		return result.map(fn);
+	};
+
+/**
+ * Curried version of mapErr for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(err("fail"), mapErr(e => `Error: ${e}`)); // Err("Error: fail")
+ * ```
+ */
+export const mapErr =
+	<T, E, F>(fn: (err: E) => F) =>
+	(result: Result<T, E>): Result<T, F> => {
+		return result.mapErr(fn);
+	};
+
+/**
+ * Curried version of bimap for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(2), bimap(e => `Error: ${e}`, x => x * 2)); // Ok(4)
+ * ```
+ */
+export const bimap =
+	<T, E, F, U>(onErr: (err: E) => F, onOk: (value: T) => U) =>
+	(result: Result<T, E>): Result<U, F> => {
+		return result.bimap(onErr, onOk);
+	};
+
+/**
+ * Curried version of context for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(fetchUser(42), context("loading user 42")); // Err(ContextError("loading user 42")) on failure
+ * ```
+ */
+export const context =
+	<T, E>(message: string) =>
+	(result: Result<T, E>): Result<T, ContextError<E>> => {
+		return result.context(message);
+	};
+
+export { errorChain, formatErrorChain } from "../utils/context";
+
+/**
+ * Curried version of withContext for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(fetchUser(id), withContext(() => `loading user ${id}`));
+ * ```
+ */
+export const withContext =
+	<T, E>(fn: (err: E) => string) =>
+	(result: Result<T, E>): Result<T, ContextError<E>> => {
+		return result.withContext(fn);
+	};
+
+/**
+ * Curried version of chain for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(5), chain(x => x > 0 ? ok(x * 2) : err("negative"))); // Ok(10)
+ * ```
+ */
+export const chain =
+	<T, E, U>(fn: (value: T) => Result<U, E>) =>
+	(result: Result<T, E>): Result<U, E> => {
+		return result.chain(fn);
+	};
+
+/**
+ * Curried version of flatten for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(ok(1)), flatten()); // Ok(1)
+ * ```
+ */
+export const flatten =
+	<U, F, E>() =>
+	(result: Result<Result<U, F>, E>): Result<U, E | F> => {
+		return result.flatten();
+	};
+
+/**
+ * Curried version of swap for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(err("fail"), swap()); // Ok("fail")
+ * ```
+ */
+export const swap =
+	<T, E>() =>
+	(result: Result<T, E>): Result<E, T> => {
+		return result.swap();
+	};
+
+/**
+ * Curried version of zip for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(1), zip(ok("a"))); // Ok([1, "a"])
+ * ```
+ */
+export const zip =
+	<T, E, U, F = E>(other: Result<U, F>) =>
+	(result: Result<T, E>): Result<[T, U], E | F> => {
+		return result.zip(other);
+	};
+
+/**
+ * Curried version of zipWith for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(2), zipWith(ok(3), (a: number, b: number) => a * b)); // Ok(6)
+ * ```
+ */
+export const zipWith =
+	<T, E, U, V, F = E>(other: Result<U, F>, fn: (value: T, other: U) => V) =>
+	(result: Result<T, E>): Result<V, E | F> => {
+		return result.zipWith(other, fn);
+	};
+
+/**
+ * Curried version of ap for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok((x: number) => x + 1), ap(ok(41))); // Ok(42)
+ * ```
+ */
+export const ap =
+	<A, B, E, F = E>(arg: Result<A, F>) =>
+	(result: Result<(value: A) => B, E>): Result<B, E | F> => {
+		return result.ap(arg);
+	};
+
+/**
+ * Curried version of validate for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(25), validate(x => x >= 18, "Must be 18+")); // Ok(25)
+ * ```
+ */
+export const validate =
+	<T, E>(predicate: (value: T) => boolean, error: E) =>
+	(result: Result<T, E>): Result<T, E> => {
+		return result.validate(predicate, error);
+	};
+
+/**
+ * Curried version of orElse for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(err("cache miss"), orElse(() => ok(42))); // Ok(42)
+ * ```
+ */
+export const orElse =
+	<T, E, F>(fn: (err: E) => Result<T, F>) =>
+	(result: Result<T, E>): Result<T, F> => {
+		return result.orElse(fn);
+	};
+
+/**
+ * Curried version of or for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(err("cache miss"), or(ok(42))); // Ok(42)
+ * ```
+ */
+export const or =
+	<T, F>(other: Result<T, F>) =>
+	<E>(result: Result<T, E>): Result<T, F> => {
+		return result.or(other);
+	};
+
+/**
+ * Curried version of recover for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(err("fail"), recover(() => 0)); // Ok(0)
+ * ```
+ */
+export const recover =
+	<T, E>(fn: (err: E) => T) =>
+	(result: Result<T, E>): Result<T, E> => {
+		return result.recover(fn);
+	};
+
+/**
+ * Curried version of recoverWhen for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(err(404), recoverWhen(code => code === 404, () => null)); // Ok(null)
+ * ```
+ */
+export function recoverWhen<T, E, F extends E>(
+	predicate: (err: E) => err is F,
+	fn: (err: F) => T,
+): (result: Result<T, E>) => Result<T, Exclude<E, F>>;
+export function recoverWhen<T, E>(
+	predicate: (err: E) => boolean,
+	fn: (err: E) => T,
+): (result: Result<T, E>) => Result<T, E>;
+export function recoverWhen<T, E>(
+	predicate: (err: E) => boolean,
+	fn: (err: E) => T,
+): (result: Result<T, E>) => Result<T, E> {
+	return (result) => result.recoverWhen(predicate, fn);
+}
+
+/**
+ * Curried version of catchTag for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(findUser(1), catchTag("NotFound", () => ok(null))); // Result<User | null, Invalid>
+ * ```
+ */
+export const catchTag =
+	<T, E extends Tagged, K extends TagOf<E>, U = never, F = never>(
+		tag: K,
+		handler: (err: WithTag<E, K>) => Result<U, F>,
+	) =>
+	(
+		result: Result<T, E>,
+	): Result<T | HandledValue<U>, WithoutTag<E, K> | HandledError<F>> => {
+		return result.catchTag(tag, handler);
+	};
+
+/**
+ * Curried version of catchTags for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(findUser(1), catchTags({ NotFound: () => ok(guest) })); // Result<User, Invalid>
+ * ```
+ */
+export const catchTags =
+	<T, E extends Tagged, H extends ResultTagHandlers<E>, U = HandlerValues<H>>(
+		handlers: H,
+	) =>
+	(
+		result: Result<T, E>,
+	): Result<T | U, WithoutTag<E, keyof H> | HandlerErrors<H>> => {
+		return result.catchTags(handlers);
+	};
+
+/**
+ * Curried version of matchTag for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(
+ *   findUser(1),
+ *   matchTag({ ok: () => 200, err: { NotFound: () => 404, Invalid: () => 400 } }),
+ * ); // 200 | 404 | 400
+ * ```
+ */
+export const matchTag =
+	<T, E extends Tagged, U>(cases: {
+		ok: (value: T) => U;
+		err: TagCases<E, U>;
+	}) =>
+	(result: Result<T, E>): U => {
+		return result.matchTag(cases);
+	};
+
+/**
+ * Curried version of unwrapOr for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(42), unwrapOr(0)); // 42
+ * ```
+ */
+export const unwrapOr =
+	<T, E>(defaultValue: T) =>
+	(result: Result<T, E>): T => {
+		return result.unwrapOr(defaultValue);
+	};
+
+/**
+ * Curried version of unwrapOrElse for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(err("fail"), unwrapOrElse((e) => e.length)); // 4
+ * ```
+ */
+export const unwrapOrElse =
+	<T, E>(fn: (err: E) => T) =>
+	(result: Result<T, E>): T => {
+		return result.unwrapOrElse(fn);
+	};
+
+/**
+ * Curried version of unwrap for use in pipelines.
  *
  * @example
  * ```ts
- * await fromPromise(Promise.resolve(42)); // Ok(42)
- * await fromPromise(Promise.reject(new Error("fail"))); // Err(Error)
- * await fromPromise(
- *   Promise.reject(new Error("fail")),
- *   e => (e as Error).message
- * ); // Err("fail")
+ * pipe(ok(42), map(x => x + 1), unwrap()); // 43
  * ```
  */
-export const fromPromise = async <T, E = unknown>(
-	promise: Promise<T>,
-	onError?: (e: unknown) => E,
-): Promise<Result<T, E>> => {
-	try {
-		const data = await promise;
-		return new Ok<T, E>(data);
-	} catch (e) {
-		return new Err<T, E>(onError ? onError(e) : (e as E));
-	}
-};
+export const unwrap =
+	<T, E>() =>
+	(result: Result<T, E>): T => {
+		return result.unwrap();
+	};
 
 /**
- * Wraps an async function into a Result, handling rejections and exceptions.
- *
- * @param fn - Async function to wrap
- * @param onError - Optional function to transform the error
- * @returns Promise resolving to Ok on success, Err on failure
+ * Curried version of expect for use in pipelines.
  *
  * @example
  * ```ts
- * await fromAsync(async () => 42); // Ok(42)
- * await fromAsync(async () => { throw new Error("fail"); }); // Err(Error)
+ * pipe(loadConfig(), expect("config must be valid"));
  * ```
  */
-export const fromAsync = async <T, E = unknown>(
-	fn: () => Promise<T>,
-	onError?: (e: unknown) => E,
-): Promise<Result<T, E>> => {
-	try {
-		const data = await fn();
-		return new Ok<T, E>(data);
-	} catch (e) {
-		return new Err<T, E>(onError ? onError(e) : (e as E));
-	}
-};
+export const expect =
+	<T, E>(message: string) =>
+	(result: Result<T, E>): T => {
+		return result.expect(message);
+	};
 
 /**
- * Curried version of map for use in pipelines.
+ * Curried version of unwrapErr for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(ok(5), map(x => x * 2)); // Ok(10)
+ * pipe(err("fail"), unwrapErr()); // "fail"
  * ```
  */
-export const map =
-	<T, E, U>(fn: (value: T) => U) =>
-	(result: Result<T, E>): Result<U, E> => {
-		return result.map(fn);
+export const unwrapErr =
+	<T, E>() =>
+	(result: Result<T, E>): E => {
+		return result.unwrapErr();
 	};
 
 /**
- * Curried version of mapErr for use in pipelines.
+ * Curried version of toNullable for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(err("fail"), mapErr(e => `Error: ${e}`)); // Err("Error: fail")
+ * pipe(err("fail"), toNullable()); // null
  * ```
  */
-export const mapErr =
-	<T, E, F>(fn: (err: E) => F) =>
-	(result: Result<T, E>): Result<T, F> => {
-		return result.mapErr(fn);
+export const toNullable =
+	<T, E>() =>
+	(result: Result<T, E>): T | null => {
+		return result.toNullable();
 	};
 
 /**
- * Curried version of chain for use in pipelines.
+ * Curried version of toUndefined for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(ok(5), chain(x => x > 0 ? ok(x * 2) : err("negative"))); // Ok(10)
+ * pipe(err("fail"), toUndefined()); // undefined
  * ```
  */
-export const chain =
-	<T, E, U>(fn: (value: T) => Result<U, E>) =>
-	(result: Result<T, E>): Result<U, E> => {
-		return result.chain(fn);
+export const toUndefined =
+	<T, E>() =>
+	(result: Result<T, E>): T | undefined => {
+		return result.toUndefined();
 	};
 
 /**
- * Curried version of validate for use in pipelines.
+ * Curried version of toMaybe for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(ok(25), validate(x => x >= 18, "Must be 18+")); // Ok(25)
+ * pipe(ok(42), toMaybe()); // Just(42)
  * ```
  */
-export const validate =
-	<T, E>(predicate: (value: T) => boolean, error: E) =>
-	(result: Result<T, E>): Result<T, E> => {
-		return result.validate(predicate, error);
+export const toMaybe =
+	<T, E>() =>
+	(result: Result<T, E>): Maybe<T> => {
+		return result.toMaybe();
 	};
 
 /**
- * Curried version of unwrapOr for use in pipelines.
+ * Curried version of toEither for use in pipelines.
  *
  * @example
  * ```ts
- * pipe(ok(42), unwrapOr(0)); // 42
+ * pipe(err("fail"), toEither()); // Left("fail")
  * ```
  */
-export const unwrapOr =
-	<T, E>(defaultValue: T) =>
-	(result: Result<T, E>): T => {
-		return result.unwrapOr(defaultValue);
+export const toEither =
+	<T, E>() =>
+	(result: Result<T, E>): Either<E, T> => {
+		return result.toEither();
 	};
 
 /**
@@ -375,18 +2525,131 @@ export const match =
 		return result.match(cases);
 	};
 
+/**
+ * Curried version of fold for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok(42), fold(() => 0, x => x * 2)); // 84
+ * ```
+ */
+export const fold =
+	<T, E, U>(onErr: (err: E) => U, onOk: (value: T) => U) =>
+	(result: Result<T, E>): U => {
+		return result.fold(onErr, onOk);
+	};
+
 /**
  * Curried version of equals for use in pipelines.
  *
  * @example
  * ```ts
  * pipe(ok(5), equals(ok(5))); // true
+ * pipe(ok({ id: 1 }), equals(ok({ id: 1 }))); // true
  * ```
  */
 export const equals =
-	<T, E>(other: Result<T, E>) =>
+	<T, E>(other: Result<T, E>, eq?: Eq<T>, errEq?: Eq<E>) =>
 	(result: Result<T, E>): boolean => {
-		return result.equals(other);
+		return result.equals(other, eq, errEq);
+	};
+
+/**
+ * Curried version of hash for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(ok({ id: 1 }), hash()); // same number as ok({ id: 1 }).hash()
+ * ```
+ */
+export const hash =
+	<T, E>(eq?: HashEq<T>, errEq?: HashEq<E>) =>
+	(result: Result<T, E>): number => {
+		return result.hash(eq, errEq);
+	};
+
+/**
+ * Curried version of AsyncResult.map for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * await pipe(fromAsync(async () => 5), mapAsync(x => x * 2)); // Ok(10)
+ * ```
+ */
+export const mapAsync =
+	<T, E, U>(fn: (value: T) => U) =>
+	(result: PromiseLike<Result<T, E>>): AsyncResult<U, E> => {
+		return new AsyncResult(result).map(fn);
+	};
+
+/**
+ * Curried version of AsyncResult.mapErr for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * await pipe(errAsync("fail"), mapErrAsync(e => `Error: ${e}`)); // Err("Error: fail")
+ * ```
+ */
+export const mapErrAsync =
+	<T, E, F>(fn: (err: E) => F) =>
+	(result: PromiseLike<Result<T, E>>): AsyncResult<T, F> => {
+		return new AsyncResult(result).mapErr(fn);
+	};
+
+/**
+ * Curried version of AsyncResult.chain for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * await pipe(okAsync(5), chainAsync(async x => ok(x * 2))); // Ok(10)
+ * ```
+ */
+export const chainAsync =
+	<T, E, U>(fn: (value: T) => Result<U, E> | PromiseLike<Result<U, E>>) =>
+	(result: PromiseLike<Result<T, E>>): AsyncResult<U, E> => {
+		return new AsyncResult(result).chain(fn);
+	};
+
+/**
+ * Curried version of AsyncResult.validate for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * await pipe(okAsync(25), validateAsync(x => x >= 18, "Must be 18+")); // Ok(25)
+ * ```
+ */
+export const validateAsync =
+	<T, E>(predicate: (value: T) => boolean, error: E) =>
+	(result: PromiseLike<Result<T, E>>): AsyncResult<T, E> => {
+		return new AsyncResult(result).validate(predicate, error);
+	};
+
+/**
+ * Curried version of AsyncResult.unwrapOr for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * await pipe(errAsync("fail"), unwrapOrAsync(0)); // 0
+ * ```
+ */
+export const unwrapOrAsync =
+	<T, E>(defaultValue: T) =>
+	(result: PromiseLike<Result<T, E>>): Promise<T> => {
+		return new AsyncResult(result).unwrapOr(defaultValue);
+	};
+
+/**
+ * Curried version of AsyncResult.match for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * await pipe(okAsync(42), matchAsync({ ok: x => x * 2, err: () => 0 })); // 84
+ * ```
+ */
+export const matchAsync =
+	<T, E, U>(cases: { ok: (value: T) => U; err: (err: E) => U }) =>
+	(result: PromiseLike<Result<T, E>>): Promise<U> => {
+		return new AsyncResult(result).match(cases);
 	};
 
 type UnwrapResultArray<T extends Result<unknown, unknown>[]> = {
@@ -523,6 +2786,249 @@ export function partition<T extends Result<unknown, unknown>[]>(
 	);
 }
 
+type UnwrapResultStruct<S extends Record<string, Result<unknown, unknown>>> = {
+	[K in keyof S]: S[K] extends Result<infer V, unknown> ? V : never;
+};
+
+type ResultStructErrors<S extends Record<string, Result<unknown, unknown>>> = {
+	[K in keyof S]?: S[K] extends Result<unknown, infer E> ? E : never;
+};
+
+/**
+ * Combines a record of Result values into a Result of a record.
+ * By default stops at the first Err. With `{ collect: true }`, collects every error
+ * into a record keyed by field name.
+ *
+ * @param results - Record of Result values
+ * @param options - `collect: true` to collect every error instead of failing fast
+ * @returns Ok with a record of all values, or the first Err (or every error, by field)
+ *
+ * @example
+ * ```ts
+ * struct({ user: ok(user), org: ok(org) }); // Ok<{ user: User; org: Org }>
+ * struct({ user: err("e1"), org: err("e2") }); // Err("e1")
+ * struct({ user: err("e1"), org: err("e2") }, { collect: true });
+ * // Err({ user: "e1", org: "e2" })
+ * ```
+ */
+export function struct<S extends Record<string, Result<unknown, unknown>>>(
+	results: S,
+	options: { collect: true },
+): Result<UnwrapResultStruct<S>, ResultStructErrors<S>>;
+export function struct<S extends Record<string, Result<unknown, unknown>>>(
+	results: S,
+	options?: { collect?: false },
+): Result<UnwrapResultStruct<S>, UnwrapErrorArray<S[keyof S][]>>;
+export function struct(
+	results: Record<string, Result<unknown, unknown>>,
+	options?: { collect?: boolean },
+): Result<unknown, unknown> {
+	const values: Record<string, unknown> = {};
+	const errors: Record<string, unknown> = {};
+	let failed = false;
+
+	for (const [key, result] of Object.entries(results)) {
+		if (!result.isErr()) {
+			values[key] = result.extract();
+		} else if (options?.collect) {
+			errors[key] = result.error;
+			failed = true;
+		} else {
+			return new Err(result.error);
+		}
+	}
+
+	if (failed) {
+		return new Err(errors);
+	}
+
+	return new Ok(values);
+}
+
+/**
+ * Returns the first Ok of the given Results, or an Err with every error in order.
+ * Sources can be thunks: they are only called when every earlier source is Err,
+ * so expensive fallbacks are skipped as soon as one source succeeds.
+ *
+ * @param sources - Results, or functions returning Results, tried in order
+ * @returns The first Ok, or an Err with all collected errors
+ *
+ * @example
+ * ```ts
+ * firstOk([() => fromCache(id), () => fromDb(id), ok(defaultUser)]);
+ * firstOk([err("e1"), err("e2")]); // Err(["e1", "e2"])
+ * ```
+ */
+export const firstOk = <T, E>(
+	sources: Iterable<Result<T, E> | (() => Result<T, E>)>,
+): Result<T, E[]> => {
+	const errors: E[] = [];
+
+	for (const source of sources) {
+		const result = typeof source === "function" ? source() : source;
+		if (!result.isErr()) {
+			return new Ok(result.unwrap());
+		}
+		errors.push(result.error);
+	}
+
+	return new Err(errors);
+};
+
+/**
+ * Lifts a function of two arguments to work on Results.
+ * Returns the first Err if any argument is Err.
+ *
+ * @param fn - Function of two plain values
+ * @returns A function of two Results
+ *
+ * @example
+ * ```ts
+ * const add = lift2((a: number, b: number) => a + b);
+ * add(ok(1), ok(2)); // Ok(3)
+ * add(ok(1), err("fail")); // Err("fail")
+ * ```
+ */
+export const lift2 =
+	<A, B, C>(fn: (a: A, b: B) => C) =>
+	<E1, E2>(ra: Result<A, E1>, rb: Result<B, E2>): Result<C, E1 | E2> => {
+		return ra.zipWith(rb, fn);
+	};
+
+/**
+ * Lifts a function of three arguments to work on Results.
+ * Returns the first Err if any argument is Err.
+ *
+ * @param fn - Function of three plain values
+ * @returns A function of three Results
+ *
+ * @example
+ * ```ts
+ * const createUser = lift3((name: string, age: number, email: string) => ({ name, age, email }));
+ * createUser(parseName(input), parseAge(input), parseEmail(input)); // Result<User, NameError | AgeError | EmailError>
+ * ```
+ */
+export const lift3 =
+	<A, B, C, D>(fn: (a: A, b: B, c: C) => D) =>
+	<E1, E2, E3>(
+		ra: Result<A, E1>,
+		rb: Result<B, E2>,
+		rc: Result<C, E3>,
+	): Result<D, E1 | E2 | E3> => {
+		return ra.zip(rb).zipWith(rc, ([a, b], c) => fn(a, b, c));
+	};
+
+type InferGenError<Y> = Y extends Err<never, infer E> ? E : never;
+
+/**
+ * The unwrap function passed to a `gen` block: `yield* $(result)` returns the Ok
+ * value, or yields the Err to short-circuit the block.
+ */
+export type GenUnwrap = <T, E>(
+	result: Result<T, E>,
+) => Generator<Err<never, E>, T, unknown>;
+
+/**
+ * The unwrap function passed to a `genAsync` block: like `GenUnwrap`, but also takes
+ * an AsyncResult or a Promise of a Result.
+ */
+export type GenAsyncUnwrap = <T, E>(
+	result: Result<T, E> | PromiseLike<Result<T, E>>,
+) => AsyncGenerator<Err<never, E>, T, unknown>;
+
+function* unwrapGen<T, E>(
+	result: Result<T, E>,
+): Generator<Err<never, E>, T, unknown> {
+	if (result.isErr()) {
+		return (yield deriveTrace(
+			result,
+			new Err<never, E>(result.error),
+			"yield*",
+		)) as T;
+	}
+	return result.unwrap();
+}
+
+async function* unwrapGenAsync<T, E>(
+	result: Result<T, E> | PromiseLike<Result<T, E>>,
+): AsyncGenerator<Err<never, E>, T, unknown> {
+	return yield* unwrapGen(await result);
+}
+
+/**
+ * Runs a generator function in do-notation style.
+ * The generator gets an unwrap function `$`: `yield* $(result)` returns the Ok value,
+ * and the first Err short-circuits the whole block and becomes the returned Result.
+ * The error type is the union of the errors of every unwrapped Result.
+ *
+ * @param fn - Generator function that unwraps Results and returns the final value
+ * @returns Ok with the returned value, or the first Err unwrapped
+ *
+ * @example
+ * ```ts
+ * const result = gen(function* ($) {
+ *   const user = yield* $(findUser(1)); // Result<User, "NotFound">
+ *   const org = yield* $(findOrg(user.orgId)); // Result<Org, "NoOrg">
+ *   return { user, org };
+ * }); // Result<{ user: User; org: Org }, "NotFound" | "NoOrg">
+ * ```
+ */
+export const gen = <Y extends Err<never, unknown>, T>(
+	fn: ($: GenUnwrap) => Generator<Y, T, unknown>,
+): Result<T, InferGenError<Y>> => {
+	const iterator = fn(unwrapGen);
+	const step = iterator.next();
+
+	if (step.done) {
+		return new Ok(step.value);
+	}
+
+	iterator.return(undefined as T);
+	return deriveTrace(
+		step.value,
+		new Err<T, InferGenError<Y>>(step.value.error as InferGenError<Y>),
+	);
+};
+
+/**
+ * Async version of `gen`, running an async generator function in do-notation style.
+ * Inside the generator, `yield* $(value)` unwraps a Result, an AsyncResult or a
+ * `Promise<Result>`.
+ *
+ * @param fn - Async generator function that unwraps Results and returns the final value
+ * @returns AsyncResult resolving to Ok with the returned value, or the first Err unwrapped
+ *
+ * @example
+ * ```ts
+ * const handler = (id: number) =>
+ *   genAsync(async function* ($) {
+ *     const user = yield* $(fromAsync(() => db.findUser(id), () => "DbError" as const));
+ *     const body = yield* $(parseBody(user)); // Result<Body, "Invalid">
+ *     return { status: 200, body };
+ *   }); // AsyncResult<{ status: number; body: Body }, "DbError" | "Invalid">
+ * ```
+ */
+export const genAsync = <Y extends Err<never, unknown>, T>(
+	fn: ($: GenAsyncUnwrap) => AsyncGenerator<Y, T, unknown>,
+): AsyncResult<T, InferGenError<Y>> => {
+	return new AsyncResult(
+		(async () => {
+			const iterator = fn(unwrapGenAsync);
+			const step = await iterator.next();
+
+			if (step.done) {
+				return new Ok<T, InferGenError<Y>>(step.value);
+			}
+
+			await iterator.return(undefined as T);
+			return deriveTrace(
+				step.value,
+				new Err<T, InferGenError<Y>>(step.value.error as InferGenError<Y>),
+			);
+		})(),
+	);
+};
+
 /**
  * Creates an Ok Result containing a success value.
  *
@@ -548,3 +3054,55 @@ export const ok = <T, E>(value: T): Result<T, E> => new Ok(value);
  * ```
  */
 export const err = <T, E>(error: E): Result<T, E> => new Err(error);
+
+/**
+ * Creates an AsyncResult that resolves to Ok with the given value.
+ *
+ * @param value - The success value
+ * @returns AsyncResult resolving to Ok
+ *
+ * @example
+ * ```ts
+ * await okAsync(42); // Ok(42)
+ * ```
+ */
+export const okAsync = <T, E>(value: T): AsyncResult<T, E> =>
+	new AsyncResult(new Ok<T, E>(value));
+
+/**
+ * Creates an AsyncResult that resolves to Err with the given error.
+ *
+ * @param error - The error value
+ * @returns AsyncResult resolving to Err
+ *
+ * @example
+ * ```ts
+ * await errAsync("Something went wrong"); // Err("Something went wrong")
+ * ```
+ */
+export const errAsync = <T, E>(error: E): AsyncResult<T, E> =>
+	new AsyncResult(new Err<T, E>(error));
+
+/**
+ * Type guard that checks if a Result is Ok.
+ * Useful as a callback, e.g. to filter an array of Results.
+ *
+ * @example
+ * ```ts
+ * results.filter(isOk).map(r => r.value); // T[]
+ * ```
+ */
+export const isOk = <T, E>(result: Result<T, E>): result is Ok<T, E> =>
+	result.isOk();
+
+/**
+ * Type guard that checks if a Result is Err.
+ * Useful as a callback, e.g. to filter an array of Results.
+ *
+ * @example
+ * ```ts
+ * results.filter(isErr).map(r => r.error); // E[]
+ * ```
+ */
+export const isErr = <T, E>(result: Result<T, E>): result is Err<T, E> =>
+	result.isErr();
@@ -0,0 +1,27 @@
+/**
+ * A Node-style callback: called with a non-null error on failure, or with `null` (or
+ * `undefined`) and the value on success.
+ */
+export type NodeCallback<T, E = unknown> = (
+	error: E | null | undefined,
+	value?: T,
+) => void;
+
+/**
+ * Calls a function with a Node-style callback and returns a Promise of the value.
+ * The Promise rejects with the error when the callback gets a non-null error, or when
+ * the function throws. Later calls of the callback are ignored.
+ * @internal
+ */
+export const callbackPromise = <T>(
+	register: (callback: NodeCallback<T>) => void,
+): Promise<T> =>
+	new Promise((resolve, reject) => {
+		register((error, value) => {
+			if (error !== null && error !== undefined) {
+				reject(error);
+			} else {
+				resolve(value as T);
+			}
+		});
+	});
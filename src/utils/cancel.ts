@@ -0,0 +1,91 @@
+import { AbortedError, TimeoutError } from "./errors";
+
+/**
+ * Options for `fromPromise` and `fromAsync`.
+ *
+ * - `timeoutMs`: fails with a `TimeoutError` if the promise does not settle in time
+ * - `signal`: fails with an `AbortedError` when the signal is aborted
+ */
+export type CancelOptions = {
+	readonly timeoutMs?: number;
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * The error of a cancelled `fromPromise` or `fromAsync` call.
+ */
+export type CancelError = TimeoutError | AbortedError;
+
+/**
+ * How a cancellable call ended.
+ * @internal
+ */
+export type CancelOutcome<T> =
+	| { readonly status: "fulfilled"; readonly value: T }
+	| { readonly status: "rejected"; readonly reason: unknown }
+	| { readonly status: "cancelled"; readonly error: CancelError };
+
+/**
+ * Runs an async function with a timeout and an optional external signal.
+ * The function receives a signal that is aborted (with the TimeoutError or AbortedError
+ * as reason) when the timeout elapses or the external signal is aborted, so the
+ * underlying work can be cancelled. The function is not called if the signal is
+ * already aborted. Synchronous exceptions count as rejections.
+ * @internal
+ */
+export const runCancellable = <T>(
+	run: (signal: AbortSignal) => PromiseLike<T>,
+	options: CancelOptions = {},
+): Promise<CancelOutcome<T>> => {
+	const { timeoutMs, signal } = options;
+	const controller = new AbortController();
+
+	return new Promise((resolve) => {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const cleanup = (): void => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		};
+		const cancel = (error: CancelError): void => {
+			cleanup();
+			controller.abort(error);
+			resolve({ status: "cancelled", error });
+		};
+		const onAbort = (): void => cancel(new AbortedError(signal?.reason));
+
+		if (signal?.aborted) {
+			onAbort();
+			return;
+		}
+		signal?.addEventListener("abort", onAbort, { once: true });
+		if (timeoutMs !== undefined) {
+			timer = setTimeout(() => cancel(new TimeoutError(timeoutMs)), timeoutMs);
+		}
+
+		new Promise<T>((fulfill) => fulfill(run(controller.signal))).then(
+			(value) => {
+				cleanup();
+				resolve({ status: "fulfilled", value });
+			},
+			(reason: unknown) => {
+				cleanup();
+				resolve({ status: "rejected", reason });
+			},
+		);
+	});
+};
+
+/**
+ * Like `runCancellable`, for a promise that is already running. A rejection handler is
+ * attached to the promise even when the signal is already aborted, so that a later
+ * rejection is not reported as unhandled.
+ * @internal
+ */
+export const awaitCancellable = <T>(
+	promise: PromiseLike<T>,
+	options?: CancelOptions,
+): Promise<CancelOutcome<T>> => {
+	promise.then(undefined, () => undefined);
+	return runCancellable(() => promise, options);
+};
@@ -0,0 +1,105 @@
+/**
+ * An error wrapped in a context frame by `context` or `withContext`.
+ * The message is the context; the wrapped error is available as `cause`.
+ * Logging it with `console.log` or `inspect` prints the whole "Caused by" report.
+ *
+ * @example
+ * ```ts
+ * const error = new ContextError("loading user 42", new Error("connection refused"));
+ * error.message; // "loading user 42"
+ * error.cause; // Error("connection refused")
+ * ```
+ */
+export class ContextError<E = unknown> extends Error {
+	readonly _tag = "ContextError";
+	override readonly name = "ContextError";
+	override readonly cause: E;
+
+	/**
+	 * @param context - Describes what was being done when the error happened
+	 * @param cause - The wrapped error
+	 */
+	constructor(
+		readonly context: string,
+		cause: E,
+	) {
+		super(context, { cause });
+		this.cause = cause;
+	}
+
+	/**
+	 * Prints the "Caused by" report in `console.log`, `inspect` and Node/Bun inspection.
+	 */
+	[Symbol.for("nodejs.util.inspect.custom")](): string {
+		return formatErrorChain(this);
+	}
+}
+
+/**
+ * Returns an error followed by its causes, from the outermost context frame to the
+ * root cause. Follows the `cause` of every Error, not only of context frames.
+ *
+ * @param error - The error to walk
+ * @returns The error and each of its causes, in order
+ *
+ * @example
+ * ```ts
+ * const error = new ContextError("loading user 42", new ContextError("GET /users/42", "timeout"));
+ * errorChain(error); // [ContextError("loading user 42"), ContextError("GET /users/42"), "timeout"]
+ * ```
+ */
+export const errorChain = (error: unknown): unknown[] => {
+	const chain: unknown[] = [error];
+	let current = error;
+	while (
+		current instanceof Error &&
+		current.cause !== undefined &&
+		!chain.includes(current.cause)
+	) {
+		current = current.cause;
+		chain.push(current);
+	}
+	return chain;
+};
+
+const describeError = (error: unknown): string => {
+	if (error instanceof ContextError) {
+		return error.context;
+	}
+	if (error instanceof Error) {
+		return `${error.name}: ${error.message}`;
+	}
+	if (typeof error === "object" && error !== null) {
+		try {
+			return JSON.stringify(error);
+		} catch {
+			return String(error);
+		}
+	}
+	return String(error);
+};
+
+/**
+ * Formats an error and its causes as an indented "Caused by" report.
+ *
+ * @param error - The error to format
+ * @returns The report, one line per frame
+ *
+ * @example
+ * ```ts
+ * formatErrorChain(error);
+ * // loading user 42
+ * //
+ * // Caused by:
+ * //     0: GET /users/42
+ * //     1: timeout
+ * ```
+ */
+export const formatErrorChain = (error: unknown): string => {
+	const [head, ...causes] = errorChain(error).map(describeError);
+	if (causes.length === 0) {
+		return head as string;
+	}
+	const lines = causes.map((cause, index) => `    ${index}: ${cause}`);
+	return [head, "", "Caused by:", ...lines].join("\n");
+};
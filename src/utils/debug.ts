@@ -0,0 +1,147 @@
+/**
+ * Options for `configureDebug`.
+ *
+ * - `captureStacks`: when true, `err()`, `left()`, `new Err` and `new Left` capture the
+ *   stack trace of their creation
+ * - `traceCalls`: when true, an Err or Left passing through `map`, `mapErr`/`mapLeft`,
+ *   `chain` and the other methods that pass it on also records the call site of each step
+ *   (requires `captureStacks`)
+ */
+export type DebugOptions = {
+	readonly captureStacks?: boolean;
+	readonly traceCalls?: boolean;
+};
+
+/**
+ * Where an Err or Left was created, and the call sites it went through since.
+ *
+ * - `stack`: the stack trace of the creation, one frame per line
+ * - `calls`: the steps the value went through (`map`, `mapErr`/`mapLeft`, `chain`, `zip`,
+ *   `context`...), as `method at location`, oldest first
+ */
+export type DebugTrace = {
+	readonly stack: string;
+	readonly calls: readonly string[];
+};
+
+/**
+ * The current debug switches, read by the Err and Left constructors.
+ * @internal
+ */
+export const debugSettings = { captureStacks: false, traceCalls: false };
+
+const traces = new WeakMap<object, DebugTrace>();
+
+/**
+ * Turns the capture of creation stack traces on or off for every Err and Left created
+ * afterwards. Capture is off by default and costs nothing while it is off.
+ *
+ * @param options - Which traces to capture
+ *
+ * @example
+ * ```ts
+ * configureDebug({ captureStacks: true, traceCalls: true });
+ * const result = pipe(findUser(42), map(toDto));
+ * result.trace()?.stack; // "at findUser (users.ts:12:10)\n..."
+ * ```
+ */
+export const configureDebug = (options: DebugOptions): void => {
+	debugSettings.captureStacks = options.captureStacks ?? false;
+	debugSettings.traceCalls =
+		debugSettings.captureStacks && (options.traceCalls ?? false);
+};
+
+const fileOf = (frame: string): string | undefined =>
+	/\(?([^\s()]+):\d+:\d+\)?$/.exec(frame)?.[1];
+
+/**
+ * The files of the Err and Left constructors, learned from their stack frames so that
+ * it works both from the sources and from the bundled build.
+ */
+const libraryFiles = new Set<string | undefined>();
+
+const isLibraryFrame = (frame: string): boolean => {
+	const file = fileOf(frame);
+	return (
+		file === undefined ||
+		libraryFiles.has(file) ||
+		/[\\/]node_modules[\\/]/.test(file)
+	);
+};
+
+const stackFrames = (above: Function): string[] => {
+	const holder: { stack?: string } = {};
+	Error.captureStackTrace(holder, above);
+	return (holder.stack ?? "")
+		.split("\n")
+		.slice(1)
+		.map((line) => line.trim());
+};
+
+/**
+ * Drops the leading frames that belong to this library, its dependencies or the
+ * runtime, so that the first frame is in the code that called the library.
+ */
+const fromCaller = (frames: string[]): string[] => {
+	const first = frames.findIndex((frame) => !isLibraryFrame(frame));
+	return first === -1 ? frames : frames.slice(first);
+};
+
+/**
+ * Records the creation stack of an Err or Left. Must be called from its constructor.
+ * @internal
+ */
+export const captureTrace = (instance: object): void => {
+	const [constructorFrame = "", ...frames] = stackFrames(captureTrace);
+	libraryFiles.add(fileOf(constructorFrame));
+	traces.set(instance, { stack: fromCaller(frames).join("\n"), calls: [] });
+};
+
+/**
+ * Gives `next`, an Err or Left derived from `previous`, the trace of `previous`, so that
+ * it keeps pointing at where the failure was created. With `traceCalls` and a `method`,
+ * the call site of that method is appended; it must then be called from that method.
+ * Returns `next`.
+ * @internal
+ */
+export const deriveTrace = <T extends object>(
+	previous: object,
+	next: T,
+	method?: string,
+): T => {
+	const trace = debugSettings.captureStacks ? traces.get(previous) : undefined;
+	if (trace) {
+		traces.set(
+			next,
+			debugSettings.traceCalls && method !== undefined
+				? {
+						stack: trace.stack,
+						calls: [
+							...trace.calls,
+							`${method} ${fromCaller(stackFrames(deriveTrace))[0] ?? "at unknown location"}`,
+						],
+					}
+				: trace,
+		);
+	}
+	return next;
+};
+
+/**
+ * Returns the trace captured for a value, if any.
+ * @internal
+ */
+export const traceOf = (value: unknown): DebugTrace | undefined =>
+	typeof value === "object" && value !== null ? traces.get(value) : undefined;
+
+/**
+ * Formats a trace as an indented report.
+ * @internal
+ */
+export const formatTrace = ({ stack, calls }: DebugTrace): string => {
+	const lines = ["Created:", ...stack.split("\n").map((line) => `    ${line}`)];
+	if (calls.length > 0) {
+		lines.push("Passed through:", ...calls.map((call) => `    ${call}`));
+	}
+	return lines.join("\n");
+};
@@ -0,0 +1,280 @@
+/**
+ * Describes how to compare (and optionally hash) two values of the same type.
+ * When `hash` is provided it must agree with `equals`: equal values must have the same hash.
+ *
+ * @template T - The type of the compared values
+ *
+ * @example
+ * ```ts
+ * const byId: Eq<{ id: number }> = {
+ *   equals: (a, b) => a.id === b.id,
+ *   hash: (a) => a.id,
+ * };
+ *
+ * ok({ id: 1, name: "a" }).equals(ok({ id: 1, name: "b" }), byId); // true
+ * ```
+ */
+export interface Eq<T> {
+	equals(a: T, b: T): boolean;
+	hash?(value: T): number;
+}
+
+/**
+ * An Eq with a `hash`, as required by the `hash` methods so that equal values always
+ * get the same hash.
+ *
+ * @template T - The type of the compared values
+ */
+export interface HashEq<T> extends Eq<T> {
+	hash(value: T): number;
+}
+
+const isSameNumber = (a: unknown, b: unknown): boolean =>
+	a === b || (a !== a && b !== b);
+
+const deepEqualWith = (
+	a: unknown,
+	b: unknown,
+	seen: Map<object, object>,
+): boolean => {
+	if (isSameNumber(a, b)) {
+		return true;
+	}
+
+	if (
+		typeof a !== "object" ||
+		typeof b !== "object" ||
+		a === null ||
+		b === null ||
+		Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+	) {
+		return false;
+	}
+
+	if (seen.get(a) === b) {
+		return true;
+	}
+
+	seen.set(a, b);
+	const result = compareObjects(a, b, seen);
+	seen.delete(a);
+	return result;
+};
+
+const compareObjects = (
+	a: object,
+	b: object,
+	seen: Map<object, object>,
+): boolean => {
+	if (a instanceof Date) {
+		return isSameNumber(a.getTime(), (b as Date).getTime());
+	}
+
+	if (a instanceof RegExp) {
+		return String(a) === String(b);
+	}
+
+	if (Array.isArray(a)) {
+		const other = b as unknown[];
+		return (
+			a.length === other.length &&
+			a.every((item, i) => deepEqualWith(item, other[i], seen))
+		);
+	}
+
+	if (a instanceof Map) {
+		const other = b as Map<unknown, unknown>;
+		if (a.size !== other.size) {
+			return false;
+		}
+		for (const [key, value] of a) {
+			if (!other.has(key) || !deepEqualWith(value, other.get(key), seen)) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	if (a instanceof Set) {
+		const other = b as Set<unknown>;
+		if (a.size !== other.size) {
+			return false;
+		}
+		for (const value of a) {
+			if (other.has(value)) {
+				continue;
+			}
+			let found = false;
+			for (const candidate of other) {
+				if (deepEqualWith(value, candidate, seen)) {
+					found = true;
+					break;
+				}
+			}
+			if (!found) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	if (a instanceof Error) {
+		const other = b as Error;
+		if (
+			a.name !== other.name ||
+			a.message !== other.message ||
+			!deepEqualWith(a.cause, other.cause, seen)
+		) {
+			return false;
+		}
+	}
+
+	const keysA = Object.keys(a);
+	const keysB = Object.keys(b);
+	return (
+		keysA.length === keysB.length &&
+		keysA.every(
+			(key) =>
+				Object.hasOwn(b, key) &&
+				deepEqualWith(
+					(a as Record<string, unknown>)[key],
+					(b as Record<string, unknown>)[key],
+					seen,
+				),
+		)
+	);
+};
+
+/**
+ * Compares two values structurally.
+ * Supports primitives (with `NaN` equal to itself), arrays, plain objects, class instances
+ * (including nested Maybe, Either and Result), Dates, RegExps, Maps and Sets.
+ * Errors are compared by name, message and cause, then by their own enumerable fields.
+ * Map keys are compared by identity; values of the same prototype are compared key by key.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns true if both values are structurally equal
+ *
+ * @example
+ * ```ts
+ * deepEqual({ id: 1, tags: ["a"] }, { id: 1, tags: ["a"] }); // true
+ * deepEqual(new Date(0), new Date(0)); // true
+ * deepEqual(just([1]), just([1])); // true
+ * deepEqual(NaN, NaN); // true
+ * ```
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean =>
+	deepEqualWith(a, b, new Map());
+
+/**
+ * Combines several hashes into one, order-sensitive.
+ * Useful when writing the `hash` of a custom Eq.
+ *
+ * @example
+ * ```ts
+ * combineHashes(hash("Point"), hash(p.x), hash(p.y));
+ * ```
+ */
+export const combineHashes = (...hashes: number[]): number =>
+	hashes.reduce((acc, h) => (Math.imul(acc, 31) + h) | 0, 17);
+
+const hashString = (value: string): number => {
+	let h = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+	}
+	return h | 0;
+};
+
+const sumHashes = (hashes: number[]): number =>
+	hashes.reduce((acc, h) => (acc + h) | 0, 0);
+
+const hashWith = (value: unknown, seen: Set<object>): number => {
+	if (typeof value !== "object" || value === null) {
+		return hashString(`${typeof value}:${String(value)}`);
+	}
+
+	if (seen.has(value)) {
+		return 0;
+	}
+
+	seen.add(value);
+	const result = hashObject(value, seen);
+	seen.delete(value);
+	return result;
+};
+
+const hashObject = (value: object, seen: Set<object>): number => {
+	if (value instanceof Date) {
+		return combineHashes(hashString("Date"), hashWith(value.getTime(), seen));
+	}
+
+	if (value instanceof RegExp) {
+		return combineHashes(hashString("RegExp"), hashString(String(value)));
+	}
+
+	if (Array.isArray(value)) {
+		return combineHashes(
+			hashString("Array"),
+			...Array.from(value, (item) => hashWith(item, seen)),
+		);
+	}
+
+	if (value instanceof Map) {
+		return combineHashes(
+			hashString("Map"),
+			sumHashes(
+				[...value].map(([k, v]) =>
+					combineHashes(hashWith(k, seen), hashWith(v, seen)),
+				),
+			),
+		);
+	}
+
+	if (value instanceof Set) {
+		return combineHashes(
+			hashString("Set"),
+			sumHashes([...value].map((item) => hashWith(item, seen))),
+		);
+	}
+
+	const record = value as Record<string, unknown>;
+	return combineHashes(
+		hashString(value.constructor?.name ?? "Object"),
+		...(value instanceof Error
+			? [
+					hashString(value.name),
+					hashString(value.message),
+					hashWith(value.cause, seen),
+				]
+			: []),
+		...Object.keys(record)
+			.sort()
+			.map((key) =>
+				combineHashes(hashString(key), hashWith(record[key], seen)),
+			),
+	);
+};
+
+/**
+ * Computes a structural hash of a value, consistent with `deepEqual`:
+ * structurally equal values always have the same hash.
+ *
+ * @param value - Value to hash
+ * @returns A 32-bit integer hash
+ *
+ * @example
+ * ```ts
+ * hash({ a: 1, b: [2] }) === hash({ b: [2], a: 1 }); // true
+ * ```
+ */
+export const hash = (value: unknown): number => hashWith(value, new Set());
+
+/**
+ * The default Eq used by `equals` and `hash` on Maybe, Either and Result.
+ */
+export const structuralEq: HashEq<unknown> = {
+	equals: deepEqual,
+	hash,
+};
@@ -0,0 +1,171 @@
+/**
+ * Thrown by `unwrap`, `expect`, `unwrapErr` and `unwrapLeft` when the value is not
+ * of the expected variant. The original error (or value) is available as `cause`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   err("boom").unwrap();
+ * } catch (e) {
+ *   (e as UnwrapError).cause; // "boom"
+ * }
+ * ```
+ */
+export class UnwrapError extends Error {
+	override readonly name = "UnwrapError";
+
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options);
+	}
+}
+
+/**
+ * The error of a `fromPromise` or `fromAsync` call that did not settle within `timeoutMs`.
+ *
+ * @example
+ * ```ts
+ * await fromAsync((signal) => fetch(url, { signal }), undefined, { timeoutMs: 1_000 });
+ * // Err(TimeoutError) after one second
+ * ```
+ */
+export class TimeoutError extends Error {
+	readonly _tag = "TimeoutError";
+	override readonly name = "TimeoutError";
+
+	/**
+	 * @param timeoutMs - The timeout that elapsed, in milliseconds
+	 */
+	constructor(readonly timeoutMs: number) {
+		super(`Timed out after ${timeoutMs}ms`);
+	}
+}
+
+/**
+ * The error of a `fromPromise` or `fromAsync` call whose `AbortSignal` was aborted.
+ * The abort reason is available as `cause`.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const user = fromAsync((signal) => fetchUser(1, signal), undefined, {
+ *   signal: controller.signal,
+ * });
+ * controller.abort();
+ * await user; // Err(AbortedError)
+ * ```
+ */
+export class AbortedError extends Error {
+	readonly _tag = "AbortedError";
+	override readonly name = "AbortedError";
+
+	/**
+	 * @param reason - The abort reason of the signal
+	 */
+	constructor(reason?: unknown) {
+		super("The operation was aborted", { cause: reason });
+	}
+}
+
+/**
+ * The error of a `bracket` call whose `release` step failed. The release failure is
+ * available as `cause`. When `use` had already failed, its error is kept as `suppressed`.
+ *
+ * @example
+ * ```ts
+ * await bracket(openFile, readLines, (file) => file.close());
+ * // Err(ReleaseError) if closing the file failed
+ * ```
+ */
+export class ReleaseError<E = never> extends Error {
+	readonly _tag = "ReleaseError";
+	override readonly name = "ReleaseError";
+
+	/**
+	 * @param cause - What `release` threw, rejected with or returned as an Err
+	 * @param suppressed - The error of `use`, if it failed
+	 */
+	constructor(
+		cause: unknown,
+		readonly suppressed?: E,
+	) {
+		super("Failed to release the resource", { cause });
+	}
+}
+
+/**
+ * The error of a `fromFetch` call whose request could not be sent or whose response
+ * could not be read. What `fetch` rejected with is available as `cause`.
+ *
+ * @example
+ * ```ts
+ * await fromFetch("http://localhost:1"); // Err(NetworkError)
+ * ```
+ */
+export class NetworkError extends Error {
+	readonly _tag = "NetworkError";
+	override readonly name = "NetworkError";
+
+	/**
+	 * @param cause - What `fetch` or reading the body rejected with
+	 */
+	constructor(cause: unknown) {
+		super("The network request failed", { cause });
+	}
+}
+
+/**
+ * The error of a `fromFetch` call whose response has a status outside 200-299.
+ * The response body is read as text so that error payloads can be inspected.
+ *
+ * @example
+ * ```ts
+ * const result = await fromFetch("/api/users/42");
+ * // Err(HttpError { status: 404, statusText: "Not Found", body: '{"error":"no such user"}' })
+ * ```
+ */
+export class HttpError extends Error {
+	readonly _tag = "HttpError";
+	override readonly name = "HttpError";
+
+	/**
+	 * @param status - The status code of the response
+	 * @param statusText - The status message of the response
+	 * @param body - The response body, as text
+	 * @param url - The URL of the response, after redirects
+	 */
+	constructor(
+		readonly status: number,
+		readonly statusText: string,
+		readonly body: string,
+		readonly url: string,
+	) {
+		super(`HTTP ${status} ${statusText}`.trim());
+	}
+}
+
+/**
+ * The error of a `fromFetch` call whose response body is not valid JSON or is rejected
+ * by the `decode` option. The SyntaxError, the error of `decode` or what `decode` threw
+ * is available as `cause`.
+ * Its `_tag` is `"DecodeError"`; the class is named apart from the `DecodeError` of
+ * `holo-fn/decoder`, which ends up in its `cause`.
+ *
+ * @example
+ * ```ts
+ * const result = await fromFetch("/api/users/42", undefined, { decode: user });
+ * // Err(DecodeError { cause: [{ path: "name", message: "expected string, got number" }] })
+ * ```
+ */
+export class ResponseDecodeError<E = unknown> extends Error {
+	readonly _tag = "DecodeError";
+	override readonly name = "DecodeError";
+	override readonly cause: E;
+
+	/**
+	 * @param cause - The SyntaxError or the error returned by `decode`
+	 */
+	constructor(cause: E) {
+		super("Failed to decode the response body", { cause });
+		this.cause = cause;
+	}
+}
@@ -0,0 +1,35 @@
+import type { Result } from "../result";
+import type { CancelError, CancelOptions } from "./cancel";
+import type { HttpError, NetworkError, ResponseDecodeError } from "./errors";
+
+/**
+ * The request options of `fromFetch`: those of `fetch`, except `signal`, which is given
+ * in the `fromFetch` options so that it is reported as an `AbortedError`.
+ */
+export type FetchInit = Omit<RequestInit, "signal">;
+
+/**
+ * Options for `fromFetch`.
+ *
+ * - `timeoutMs`: fails with a `TimeoutError` and aborts the request if the response is
+ *   not received in time; with `decode` this includes the body, without it the timer
+ *   stops once the headers arrive
+ * - `signal`: fails with an `AbortedError` and aborts the request when the signal is aborted
+ * - `decode`: parses the body as JSON and checks it, for example with a decoder from
+ *   `holo-fn/decoder`; without it, the Result holds the `Response`
+ */
+export type FetchOptions<T, F> = CancelOptions & {
+	readonly decode?: (body: unknown) => Result<T, F>;
+};
+
+/**
+ * The errors of a `fromFetch` call without `decode`.
+ */
+export type FetchError = NetworkError | HttpError | CancelError;
+
+/**
+ * The errors of a `fromFetch` call with `decode`, where `F` is the error of `decode`.
+ */
+export type DecodedFetchError<F> =
+	| FetchError
+	| ResponseDecodeError<F | SyntaxError>;
@@ -1,6 +1,10 @@
+import { formatTrace, traceOf } from "./debug";
+
 /**
  * Logs a value with an optional label and returns the value unchanged.
  * A specialized version of `tap` for debugging that automatically logs to console.
+ * When the value is an Err or Left with a trace captured by `configureDebug`, the
+ * trace is logged after the value.
  *
  * @param label - Optional label to prefix the logged value
  * @returns A function that takes a value, logs it, and returns it unchanged
@@ -47,6 +51,10 @@ export function inspect<T>(label?: string) {
 		} else {
 			console.log(value);
 		}
+		const trace = traceOf(value);
+		if (trace) {
+			console.log(formatTrace(trace));
+		}
 		return value;
 	};
 }
@@ -0,0 +1,189 @@
+import { Left, Right } from "../either";
+import { Just, Nothing } from "../maybe";
+import { Err, Ok } from "../result";
+import { Invalid, Valid } from "../validation";
+
+/**
+ * The wire format of an Error: its name, message, stack and cause, plus its other own
+ * enumerable fields (such as the `_tag` of a tagged error or the `status` of an
+ * `HttpError`) under `fields`.
+ */
+export type ErrorJSON = {
+	readonly _tag: "Error";
+	readonly name: string;
+	readonly message: string;
+	readonly stack?: string;
+	readonly cause?: unknown;
+	readonly fields?: Readonly<Record<string, unknown>>;
+};
+
+type JSONObject = Record<string, unknown>;
+
+const errorKeys = ["name", "message", "stack", "cause"];
+
+const isPlainObject = (value: unknown): value is JSONObject => {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+};
+
+const hasToJSON = (value: unknown): value is { toJSON(): unknown } =>
+	typeof value === "object" &&
+	value !== null &&
+	!(value instanceof Date) &&
+	typeof (value as { toJSON?: unknown }).toJSON === "function";
+
+const errorToJSON = (error: Error): ErrorJSON => {
+	const fields = Object.entries(error).filter(
+		([key]) => !errorKeys.includes(key),
+	);
+	return {
+		_tag: "Error",
+		name: error.name,
+		message: error.message,
+		...(error.stack !== undefined && { stack: error.stack }),
+		...("cause" in error && { cause: toJSONValue(error.cause) }),
+		...(fields.length > 0 && {
+			fields: Object.fromEntries(
+				fields.map(([key, value]) => [key, toJSONValue(value)]),
+			),
+		}),
+	};
+};
+
+/**
+ * Encodes a value contained in a Maybe, Either or Result to its wire format:
+ * nested Maybe, Either and Result values become tagged objects and Errors become `ErrorJSON`.
+ * Arrays and plain objects are encoded recursively; other values are kept as they are.
+ * @internal
+ */
+export const toJSONValue = (value: unknown): unknown => {
+	if (value instanceof Error) {
+		return errorToJSON(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map(toJSONValue);
+	}
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, toJSONValue(item)]),
+		);
+	}
+	if (hasToJSON(value)) {
+		return value.toJSON();
+	}
+	return value;
+};
+
+const hasOnlyKeys = (value: JSONObject, keys: string[]): boolean =>
+	Object.keys(value).every((key) => key === "_tag" || keys.includes(key));
+
+const isShape = (value: JSONObject, keys: string[]): boolean =>
+	keys.every((key) => key in value) && hasOnlyKeys(value, keys);
+
+const errorConstructors: Record<string, ErrorConstructor> = {
+	Error,
+	EvalError,
+	RangeError,
+	ReferenceError,
+	SyntaxError,
+	TypeError,
+	URIError,
+};
+
+const isErrorShape = (value: JSONObject): boolean =>
+	typeof value.name === "string" &&
+	typeof value.message === "string" &&
+	(value.fields === undefined || isPlainObject(value.fields)) &&
+	hasOnlyKeys(value, [...errorKeys, "fields"]);
+
+const reviveError = (shape: JSONObject): Error => {
+	const name = shape.name as string;
+	const Constructor = errorConstructors[name] ?? Error;
+	const error =
+		"cause" in shape
+			? new Constructor(shape.message as string, { cause: shape.cause })
+			: new Constructor(shape.message as string);
+	if (error.name !== name) {
+		Object.defineProperty(error, "name", {
+			value: name,
+			writable: true,
+			configurable: true,
+		});
+	}
+	if (typeof shape.stack === "string") {
+		error.stack = shape.stack;
+	}
+	return Object.assign(error, shape.fields);
+};
+
+const reviveNode = (value: unknown): unknown => {
+	if (!isPlainObject(value)) {
+		return value;
+	}
+	switch (value._tag) {
+		case "Ok":
+			return isShape(value, ["value"]) ? new Ok(value.value) : value;
+		case "Err":
+			return isShape(value, ["error"]) ? new Err(value.error) : value;
+		case "Just":
+			return isShape(value, ["value"]) ? new Just(value.value) : value;
+		case "Nothing":
+			return isShape(value, []) ? new Nothing() : value;
+		case "Right":
+			return isShape(value, ["value"]) ? new Right(value.value) : value;
+		case "Left":
+			return isShape(value, ["value"]) ? new Left(value.value) : value;
+		case "Valid":
+			return isShape(value, ["value"]) ? new Valid(value.value) : value;
+		case "Invalid":
+			return isShape(value, ["errors"]) && Array.isArray(value.errors)
+				? new Invalid(value.errors)
+				: value;
+		case "Error":
+			return isErrorShape(value) ? reviveError(value) : value;
+		default:
+			return value;
+	}
+};
+
+/**
+ * Rebuilds Maybe, Either, Result and Validation instances and Errors from their wire format,
+ * at any depth. Values that are not in the wire format are kept as they are.
+ *
+ * @param value - A decoded wire value (e.g. from `JSON.parse`, `structuredClone` or `postMessage`)
+ * @returns The value with every tagged object revived
+ *
+ * @example
+ * ```ts
+ * revive({ _tag: "Ok", value: { _tag: "Just", value: 1 } }); // Ok(Just(1))
+ * ```
+ */
+export const revive = (value: unknown): unknown => {
+	if (Array.isArray(value)) {
+		return value.map(revive);
+	}
+	if (isPlainObject(value)) {
+		return reviveNode(
+			Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [key, revive(item)]),
+			),
+		);
+	}
+	return value;
+};
+
+/**
+ * A `JSON.parse` reviver that rebuilds Maybe, Either, Result and Validation instances
+ * and Errors from their wire format.
+ *
+ * @example
+ * ```ts
+ * const text = JSON.stringify(err(new TypeError("boom")));
+ * JSON.parse(text, reviver); // Err(TypeError("boom"))
+ * ```
+ */
+export const reviver = (_key: string, value: unknown): unknown =>
+	reviveNode(value);
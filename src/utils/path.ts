@@ -0,0 +1,12 @@
+/**
+ * Prefixes a path with a key or an index, using dot notation for keys and brackets
+ * for indexes (e.g. `address.zip` or `items[3].qty`).
+ * @internal
+ */
+export const joinPath = (segment: string | number, path: string): string => {
+	const head = typeof segment === "number" ? `[${segment}]` : segment;
+	if (path === "") {
+		return head;
+	}
+	return path.startsWith("[") ? `${head}${path}` : `${head}.${path}`;
+};
@@ -0,0 +1,65 @@
+/**
+ * Options for `retry`.
+ *
+ * - `attempts`: total number of attempts, including the first one (defaults to 3)
+ * - `backoff`: `"exponential"` (default) doubles the delay after each attempt, `"fixed"` keeps it
+ * - `baseMs`: delay before the first retry (defaults to 100)
+ * - `maxMs`: upper bound of the delay (defaults to `Infinity`)
+ * - `jitter`: when true, waits a random delay between 0 and the computed delay
+ * - `shouldRetry`: decides whether an error is worth retrying (defaults to always)
+ * - `onRetry`: called before waiting for each retry, with the error, the attempt and the delay
+ * - `sleep`: waits for the given delay (defaults to `setTimeout`), injectable for tests
+ * - `random`: returns a number in [0, 1) used for jitter (defaults to `Math.random`)
+ */
+export type RetryOptions<E> = {
+	readonly attempts?: number;
+	readonly backoff?: "fixed" | "exponential";
+	readonly baseMs?: number;
+	readonly maxMs?: number;
+	readonly jitter?: boolean;
+	readonly shouldRetry?: (error: E, attempt: number) => boolean;
+	readonly onRetry?: (error: E, attempt: number, delayMs: number) => void;
+	readonly sleep?: (ms: number) => PromiseLike<void>;
+	readonly random?: () => number;
+};
+
+/**
+ * Waits for the given number of milliseconds.
+ * @internal
+ */
+export const sleep = (ms: number): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Throws a RangeError if `attempts` is not a positive integer.
+ * @internal
+ */
+export const assertAttempts = (attempts: number): void => {
+	if (!Number.isInteger(attempts) || attempts < 1) {
+		throw new RangeError(
+			`Expected attempts to be a positive integer, got ${attempts}`,
+		);
+	}
+};
+
+/**
+ * Returns the delay to wait after the given failed attempt (1-based).
+ * @internal
+ */
+export const retryDelay = <E>(
+	options: RetryOptions<E>,
+	attempt: number,
+): number => {
+	const {
+		backoff = "exponential",
+		baseMs = 100,
+		maxMs = Number.POSITIVE_INFINITY,
+		jitter = false,
+		random = Math.random,
+	} = options;
+	const delay = Math.min(
+		backoff === "exponential" ? baseMs * 2 ** (attempt - 1) : baseMs,
+		maxMs,
+	);
+	return jitter ? Math.floor(delay * random()) : delay;
+};
@@ -0,0 +1,62 @@
+/**
+ * Any function, whatever its parameters.
+ * @internal
+ */
+export type AnyFunction = (...args: never[]) => unknown;
+
+/**
+ * The string keys of an object whose values are functions.
+ * @internal
+ */
+export type MethodKeys<O> = {
+	[K in keyof O]: K extends string
+		? O[K] extends AnyFunction
+			? K
+			: never
+		: never;
+}[keyof O];
+
+/**
+ * Whether a return type is a Promise. `any` (e.g. `JSON.parse`) counts as synchronous.
+ * @internal
+ */
+export type ReturnsPromise<T> = 0 extends 1 & T
+	? false
+	: T extends PromiseLike<unknown>
+		? true
+		: false;
+
+/**
+ * Returns true if the value is a Promise or another thenable.
+ * @internal
+ */
+export const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+	typeof (value as PromiseLike<unknown> | null)?.then === "function";
+
+/**
+ * Returns the names of the methods of an object, including the methods inherited
+ * from its class (but not from Object.prototype). Properties are inspected through
+ * their descriptors, so getters are not run.
+ * @internal
+ */
+export const methodKeys = (obj: object): string[] => {
+	const seen = new Set<string>();
+	const keys: string[] = [];
+	for (
+		let current: object | null = obj;
+		current !== null && current !== Object.prototype;
+		current = Object.getPrototypeOf(current)
+	) {
+		for (const key of Object.getOwnPropertyNames(current)) {
+			if (seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+			const descriptor = Object.getOwnPropertyDescriptor(current, key);
+			if (key !== "constructor" && typeof descriptor?.value === "function") {
+				keys.push(key);
+			}
+		}
+	}
+	return keys;
+};
@@ -0,0 +1,56 @@
+/**
+ * The reader side of a Web `ReadableStream`, enough to consume it without depending on
+ * the DOM typings.
+ */
+export type ReadableStreamLike<T> = {
+	getReader(): {
+		read(): PromiseLike<{ done: true; value?: T } | { done: false; value: T }>;
+		cancel(reason?: unknown): PromiseLike<void>;
+		releaseLock(): void;
+	};
+};
+
+/**
+ * A source of values for the streaming helpers: an iterable, an async iterable
+ * (file lines, database cursors, async generators) or a Web `ReadableStream`.
+ */
+export type StreamSource<T> =
+	| Iterable<T>
+	| AsyncIterable<T>
+	| ReadableStreamLike<T>;
+
+/**
+ * Reads a stream source one value at a time.
+ * Stopping early (with `break` or `return`) cancels a `ReadableStream` source.
+ * @internal
+ */
+export async function* readStream<T>(
+	source: StreamSource<T>,
+): AsyncGenerator<T, void, undefined> {
+	if (Symbol.asyncIterator in source) {
+		yield* source;
+		return;
+	}
+	if (Symbol.iterator in source) {
+		yield* source;
+		return;
+	}
+
+	const reader = source.getReader();
+	let finished = false;
+	try {
+		while (true) {
+			const step = await reader.read();
+			if (step.done) {
+				finished = true;
+				return;
+			}
+			yield step.value;
+		}
+	} finally {
+		if (!finished) {
+			await reader.cancel();
+		}
+		reader.releaseLock();
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * A value discriminated by a string `_tag` field, typically a member of an error union.
+ *
+ * @example
+ * ```ts
+ * type NotFound = { _tag: "NotFound"; id: number };
+ * type Invalid = { _tag: "Invalid"; reason: string };
+ * type ApiError = NotFound | Invalid;
+ * ```
+ */
+export type Tagged = { readonly _tag: string };
+
+/**
+ * The union of the `_tag` values of a tagged union (`never` for untagged types).
+ */
+export type TagOf<E> = E extends { readonly _tag: infer K extends string }
+	? K
+	: never;
+
+/**
+ * The members of a tagged union with the given tag.
+ */
+export type WithTag<E, K extends string> = Extract<E, { readonly _tag: K }>;
+
+/**
+ * The members of a tagged union without the given tag(s).
+ */
+export type WithoutTag<E, K> = Exclude<E, { readonly _tag: K }>;
+
+/**
+ * The error type added by a handler. A handler whose error type was not inferred
+ * (e.g. one returning a bare `ok(...)`) adds no error.
+ * @internal
+ */
+export type HandledError<F> = unknown extends F ? never : F;
+
+/**
+ * The value type added by a handler. A handler whose value type was not inferred
+ * (e.g. one returning a bare `err(...)`) adds no value type.
+ * @internal
+ */
+export type HandledValue<U> = unknown extends U ? never : U;
+
+/**
+ * An exhaustive set of handlers, one per tag of a tagged union.
+ */
+export type TagCases<E, U> = {
+	[K in TagOf<E>]: (err: WithTag<E, K>) => U;
+};
+
+/**
+ * Returns the `_tag` of a value, or `undefined` for null, primitives and untagged objects.
+ * @internal
+ */
+export const readTag = (value: unknown): unknown =>
+	typeof value === "object" && value !== null
+		? (value as Partial<Tagged>)._tag
+		: undefined;
+
+/**
+ * Returns the handler registered for the `_tag` of a value, if any.
+ * @internal
+ */
+export const handlerForTag = <H>(
+	handlers: object,
+	value: unknown,
+): H | undefined => {
+	const tag = readTag(value);
+	return typeof tag === "string" && Object.hasOwn(handlers, tag)
+		? (handlers as Record<string, H>)[tag]
+		: undefined;
+};
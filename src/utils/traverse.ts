@@ -0,0 +1,105 @@
+/**
+ * Options for `traverseAsync`.
+ *
+ * - `concurrency`: maximum number of tasks running at once (defaults to `Infinity`)
+ * - `mode`: `"failFast"` (default) stops at the first failure and aborts pending work,
+ *   `"collect"` runs every task and collects every failure
+ */
+export type TraverseOptions = {
+	readonly concurrency?: number;
+	readonly mode?: "failFast" | "collect";
+};
+
+/**
+ * A task run by `traverseAsync`. The signal is aborted when the traversal stops early.
+ */
+export type TraverseTask<A, B> = (
+	item: A,
+	index: number,
+	signal: AbortSignal,
+) => B | PromiseLike<B>;
+
+type Traversal<B> = {
+	readonly outputs: B[];
+	readonly failure?: B;
+};
+
+/**
+ * Runs a task for every item with at most `concurrency` tasks running at once.
+ * Outputs are kept in input order. In fail-fast mode, the first failing output stops
+ * the traversal: no new task is started, the signal passed to running tasks is aborted
+ * and the promise resolves with that output as `failure`.
+ * If a task throws or rejects, the signal is aborted and the promise rejects.
+ * An invalid `concurrency` rejects the promise with a RangeError.
+ * @internal
+ */
+export const runTraversal = <A, B>(
+	items: Iterable<A>,
+	task: TraverseTask<A, B>,
+	isFailure: (output: B) => boolean,
+	options: TraverseOptions = {},
+): Promise<Traversal<B>> => {
+	const { concurrency = Number.POSITIVE_INFINITY, mode = "failFast" } = options;
+
+	return new Promise((resolve, reject) => {
+		if (
+			!(concurrency >= 1) ||
+			!(
+				Number.isInteger(concurrency) ||
+				concurrency === Number.POSITIVE_INFINITY
+			)
+		) {
+			throw new RangeError(
+				`Expected concurrency to be a positive integer, got ${concurrency}`,
+			);
+		}
+
+		const list = Array.from(items);
+		const outputs = new Array<B>(list.length);
+		const controller = new AbortController();
+		let next = 0;
+		let running = 0;
+		let settled = false;
+
+		const launch = (): void => {
+			if (next === list.length && running === 0) {
+				settled = true;
+				resolve({ outputs });
+				return;
+			}
+			while (running < concurrency && next < list.length) {
+				const index = next++;
+				running++;
+				Promise.resolve()
+					.then(() => task(list[index] as A, index, controller.signal))
+					.then(
+						(output) => {
+							running--;
+							if (settled) {
+								return;
+							}
+							if (mode === "failFast" && isFailure(output)) {
+								settled = true;
+								controller.abort();
+								resolve({ outputs, failure: output });
+								return;
+							}
+							outputs[index] = output;
+							launch();
+						},
+						(error: unknown) => {
+							running--;
+							if (settled) {
+								return;
+							}
+							settled = true;
+							controller.abort(error);
+							reject(error);
+						},
+					);
+			}
+		};
+
+		launch();
+	});
+};
@@ -0,0 +1,733 @@
+import { type Either, Left, Right } from "../either";
+import { Err, Ok, type Result } from "../result";
+import { revive, toJSONValue } from "../utils/json";
+import { joinPath } from "../utils/path";
+
+/**
+ * A single validation failure together with the path of the field that failed.
+ * The path uses dot notation for keys and brackets for indexes (e.g. `address.zip`
+ * or `items[3].qty`), and is an empty string for the validated value itself.
+ *
+ * @template E - The type of the error
+ */
+export interface FieldError<E> {
+	readonly path: string;
+	readonly error: E;
+}
+
+/**
+ * Represents the outcome of a validation: either Valid (contains a value) or Invalid
+ * (contains every failure found). Unlike Result, combining Validations with `all`,
+ * `object` or `array` accumulates the errors of every failing part instead of stopping
+ * at the first one.
+ *
+ * @template T - The type of the validated value
+ * @template E - The type of each error
+ *
+ * @example
+ * ```ts
+ * const age: Validation<number, string> = valid(42);
+ * const name: Validation<string, string> = invalid("required", "name");
+ * ```
+ */
+export interface Validation<T, E> {
+	/**
+	 * Returns true if the Validation is Valid, narrowing it to Valid.
+	 *
+	 * @example
+	 * ```ts
+	 * if (validation.isValid()) {
+	 *   console.log(validation.value); // T
+	 * }
+	 * ```
+	 */
+	isValid(): this is Valid<T, E>;
+
+	/**
+	 * Returns true if the Validation is Invalid, narrowing it to Invalid.
+	 *
+	 * @example
+	 * ```ts
+	 * if (validation.isInvalid()) {
+	 *   console.log(validation.errors); // FieldError<E>[]
+	 * }
+	 * ```
+	 */
+	isInvalid(): this is Invalid<T, E>;
+
+	/**
+	 * Transforms the value inside Valid. Does nothing for Invalid.
+	 *
+	 * @param fn - Function to apply to the value
+	 * @returns A new Validation with the transformed value
+	 *
+	 * @example
+	 * ```ts
+	 * valid(" alice ").map(s => s.trim()); // Valid("alice")
+	 * ```
+	 */
+	map<U>(fn: (value: T) => U): Validation<U, E>;
+
+	/**
+	 * Transforms every error inside Invalid, keeping the paths. Does nothing for Valid.
+	 *
+	 * @param fn - Function that receives each error and its path
+	 * @returns A new Validation with the transformed errors
+	 *
+	 * @example
+	 * ```ts
+	 * invalid("required", "name").mapErr((e, path) => `${path}: ${e}`);
+	 * // Invalid([{ path: "name", error: "name: required" }])
+	 * ```
+	 */
+	mapErr<F>(fn: (error: E, path: string) => F): Validation<T, F>;
+
+	/**
+	 * Chains a Validation-returning function. This is sequential: the function only
+	 * runs for Valid, so errors are not accumulated across a chain.
+	 *
+	 * @param fn - Function that returns a Validation
+	 * @returns The result of the function, or the original Invalid
+	 *
+	 * @example
+	 * ```ts
+	 * valid("42").chain(parseAge); // Valid(42)
+	 * ```
+	 */
+	chain<U>(fn: (value: T) => Validation<U, E>): Validation<U, E>;
+
+	/**
+	 * Checks the value with a predicate. Converts Valid to Invalid if the predicate fails.
+	 *
+	 * @param predicate - Function to test the value
+	 * @param error - Error to report if the predicate fails
+	 * @returns The original Validation, or Invalid with the error
+	 *
+	 * @example
+	 * ```ts
+	 * valid(15).validate(x => x >= 18, "too young"); // Invalid([{ path: "", error: "too young" }])
+	 * ```
+	 */
+	validate(predicate: (value: T) => boolean, error: E): Validation<T, E>;
+
+	/**
+	 * Nests the errors under a key or an index, prefixing their paths.
+	 *
+	 * @param segment - Object key or array index
+	 * @returns The original Valid, or Invalid with prefixed paths
+	 *
+	 * @example
+	 * ```ts
+	 * invalid("required", "zip").at("address"); // path: "address.zip"
+	 * invalid("too small", "qty").at(3).at("items"); // path: "items[3].qty"
+	 * ```
+	 */
+	at(segment: string | number): Validation<T, E>;
+
+	/**
+	 * Extracts the value from Valid, or returns the default value for Invalid.
+	 *
+	 * @param defaultValue - Value to return if Invalid
+	 * @returns The contained value or the default
+	 */
+	unwrapOr(defaultValue: T): T;
+
+	/**
+	 * Pattern matches on the Validation, executing the appropriate branch.
+	 *
+	 * @param cases - Object with valid and invalid handlers
+	 * @returns The result of the matched handler
+	 *
+	 * @example
+	 * ```ts
+	 * validation.match({
+	 *   valid: user => save(user),
+	 *   invalid: errors => showErrors(errors),
+	 * });
+	 * ```
+	 */
+	match<U>(cases: {
+		valid: (value: T) => U;
+		invalid: (errors: FieldError<E>[]) => U;
+	}): U;
+
+	/**
+	 * Extracts the internal value: the value for Valid or the errors for Invalid.
+	 * Use unwrapOr or match instead for safe extraction, or narrow with
+	 * isValid/isInvalid and read `value`/`errors`.
+	 */
+	extract(): T | FieldError<E>[];
+
+	/**
+	 * Converts the Validation to a Result holding every error.
+	 *
+	 * @example
+	 * ```ts
+	 * invalid("required", "name").toResult(); // Err([{ path: "name", error: "required" }])
+	 * ```
+	 */
+	toResult(): Result<T, FieldError<E>[]>;
+
+	/**
+	 * Converts the Validation to an Either holding every error on the Left.
+	 *
+	 * @example
+	 * ```ts
+	 * valid(42).toEither(); // Right(42)
+	 * ```
+	 */
+	toEither(): Either<FieldError<E>[], T>;
+
+	/**
+	 * Converts the Validation to its wire format: a plain tagged object that survives
+	 * `JSON.stringify`, `structuredClone` and `postMessage`. Rebuild it with `fromJSON`.
+	 *
+	 * @example
+	 * ```ts
+	 * JSON.stringify(invalid("required", "name"));
+	 * // '{"_tag":"Invalid","errors":[{"path":"name","error":"required"}]}'
+	 * ```
+	 */
+	toJSON(): ValidationJSON;
+}
+
+export class Valid<T, E> implements Validation<T, E> {
+	/**
+	 * @param value - The validated value, readable after narrowing with isValid
+	 */
+	constructor(readonly value: T) {}
+
+	isValid(): this is Valid<T, E> {
+		return true;
+	}
+
+	isInvalid(): this is Invalid<T, E> {
+		return false;
+	}
+
+	map<U>(fn: (value: T) => U): Validation<U, E> {
+		return new Valid(fn(this.value));
+	}
+
+	mapErr<F>(_: (error: E, path: string) => F): Validation<T, F> {
+		return new Valid(this.value);
+	}
+
+	chain<U>(fn: (value: T) => Validation<U, E>): Validation<U, E> {
+		return fn(this.value);
+	}
+
+	validate(predicate: (value: T) => boolean, error: E): Validation<T, E> {
+		return predicate(this.value) ? this : new Invalid([{ path: "", error }]);
+	}
+
+	at(_: string | number): Validation<T, E> {
+		return this;
+	}
+
+	unwrapOr(_: T): T {
+		return this.value;
+	}
+
+	match<U>(cases: {
+		valid: (value: T) => U;
+		invalid: (errors: FieldError<E>[]) => U;
+	}): U {
+		return cases.valid(this.value);
+	}
+
+	extract(): T {
+		return this.value;
+	}
+
+	toJSON(): ValidationJSON {
+		return { _tag: "Valid", value: toJSONValue(this.value) };
+	}
+
+	toResult(): Result<T, FieldError<E>[]> {
+		return new Ok(this.value);
+	}
+
+	toEither(): Either<FieldError<E>[], T> {
+		return new Right(this.value);
+	}
+}
+
+export class Invalid<T, E> implements Validation<T, E> {
+	/**
+	 * @param errors - Every failure found, readable after narrowing with isInvalid
+	 */
+	constructor(readonly errors: FieldError<E>[]) {}
+
+	isValid(): this is Valid<T, E> {
+		return false;
+	}
+
+	isInvalid(): this is Invalid<T, E> {
+		return true;
+	}
+
+	map<U>(_: (value: T) => U): Validation<U, E> {
+		return new Invalid(this.errors);
+	}
+
+	mapErr<F>(fn: (error: E, path: string) => F): Validation<T, F> {
+		return new Invalid(
+			this.errors.map(({ path, error }) => ({ path, error: fn(error, path) })),
+		);
+	}
+
+	chain<U>(_: (value: T) => Validation<U, E>): Validation<U, E> {
+		return new Invalid(this.errors);
+	}
+
+	validate(_: (value: T) => boolean, __: E): Validation<T, E> {
+		return this;
+	}
+
+	at(segment: string | number): Validation<T, E> {
+		return new Invalid(
+			this.errors.map(({ path, error }) => ({
+				path: joinPath(segment, path),
+				error,
+			})),
+		);
+	}
+
+	unwrapOr(defaultValue: T): T {
+		return defaultValue;
+	}
+
+	match<U>(cases: {
+		valid: (value: T) => U;
+		invalid: (errors: FieldError<E>[]) => U;
+	}): U {
+		return cases.invalid(this.errors);
+	}
+
+	extract(): FieldError<E>[] {
+		return this.errors;
+	}
+
+	toJSON(): ValidationJSON {
+		return {
+			_tag: "Invalid",
+			errors: this.errors.map(({ path, error }) => ({
+				path,
+				error: toJSONValue(error),
+			})),
+		};
+	}
+
+	toResult(): Result<T, FieldError<E>[]> {
+		return new Err(this.errors);
+	}
+
+	toEither(): Either<FieldError<E>[], T> {
+		return new Left(this.errors);
+	}
+}
+
+/**
+ * Creates a Valid Validation.
+ *
+ * @example
+ * ```ts
+ * valid(42); // Valid(42)
+ * ```
+ */
+export const valid = <T, E>(value: T): Validation<T, E> => new Valid(value);
+
+/**
+ * Creates an Invalid Validation with a single error.
+ *
+ * @param error - The error
+ * @param path - Path of the failing field (defaults to the value itself)
+ *
+ * @example
+ * ```ts
+ * invalid("required", "name"); // Invalid([{ path: "name", error: "required" }])
+ * ```
+ */
+export const invalid = <T, E>(error: E, path = ""): Validation<T, E> =>
+	new Invalid([{ path, error }]);
+
+/**
+ * Type guard that checks if a Validation is Valid.
+ *
+ * @example
+ * ```ts
+ * validations.filter(isValid).map(v => v.value); // T[]
+ * ```
+ */
+export const isValid = <T, E>(
+	validation: Validation<T, E>,
+): validation is Valid<T, E> => validation.isValid();
+
+/**
+ * Type guard that checks if a Validation is Invalid.
+ *
+ * @example
+ * ```ts
+ * validations.filter(isInvalid).flatMap(v => v.errors); // FieldError<E>[]
+ * ```
+ */
+export const isInvalid = <T, E>(
+	validation: Validation<T, E>,
+): validation is Invalid<T, E> => validation.isInvalid();
+
+/**
+ * Converts a Result to a Validation. The error of an Err is placed at the given path.
+ *
+ * @example
+ * ```ts
+ * fromResult(err("not a number"), "age"); // Invalid([{ path: "age", error: "not a number" }])
+ * ```
+ */
+export const fromResult = <T, E>(
+	result: Result<T, E>,
+	path = "",
+): Validation<T, E> =>
+	result.match<Validation<T, E>>({
+		ok: (value) => new Valid(value),
+		err: (error) => new Invalid([{ path, error }]),
+	});
+
+/**
+ * Converts an Either to a Validation. The Left value is placed at the given path.
+ *
+ * @example
+ * ```ts
+ * fromEither(right(42)); // Valid(42)
+ * ```
+ */
+export const fromEither = <L, R>(
+	either: Either<L, R>,
+	path = "",
+): Validation<R, L> =>
+	either.match<Validation<R, L>>({
+		left: (error) => new Invalid([{ path, error }]),
+		right: (value) => new Valid(value),
+	});
+
+/**
+ * The wire format of a Validation, as produced by `toJSON`.
+ */
+export type ValidationJSON =
+	| { readonly _tag: "Valid"; readonly value: unknown }
+	| { readonly _tag: "Invalid"; readonly errors: FieldError<unknown>[] };
+
+/**
+ * Rebuilds a Validation from its wire format, including nested Maybe, Either
+ * and Result values and Errors.
+ *
+ * @param json - The wire format, e.g. from `JSON.parse`, `structuredClone` or `postMessage`
+ * @returns The revived Validation
+ * @throws {TypeError} If the value is not the wire format of a Validation
+ *
+ * @example
+ * ```ts
+ * fromJSON<number, string>(JSON.parse('{"_tag":"Valid","value":42}')); // Valid(42)
+ * ```
+ */
+export const fromJSON = <T, E>(json: unknown): Validation<T, E> => {
+	const value = revive(json);
+	if (value instanceof Valid || value instanceof Invalid) {
+		return value;
+	}
+	throw new TypeError("Expected the JSON of a Validation");
+};
+
+/**
+ * Curried version of map for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(valid(5), map(x => x * 2)); // Valid(10)
+ * ```
+ */
+export const map =
+	<T, U, E>(fn: (value: T) => U) =>
+	(validation: Validation<T, E>): Validation<U, E> => {
+		return validation.map(fn);
+	};
+
+/**
+ * Curried version of mapErr for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(invalid("required", "name"), mapErr((e, path) => `${path}: ${e}`));
+ * ```
+ */
+export const mapErr =
+	<T, E, F>(fn: (error: E, path: string) => F) =>
+	(validation: Validation<T, E>): Validation<T, F> => {
+		return validation.mapErr(fn);
+	};
+
+/**
+ * Curried version of chain for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(valid("42"), chain(parseAge)); // Valid(42)
+ * ```
+ */
+export const chain =
+	<T, U, E>(fn: (value: T) => Validation<U, E>) =>
+	(validation: Validation<T, E>): Validation<U, E> => {
+		return validation.chain(fn);
+	};
+
+/**
+ * Curried version of validate for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(valid(15), validate(x => x >= 18, "too young")); // Invalid
+ * ```
+ */
+export const validate =
+	<T, E>(predicate: (value: T) => boolean, error: E) =>
+	(validation: Validation<T, E>): Validation<T, E> => {
+		return validation.validate(predicate, error);
+	};
+
+/**
+ * Curried version of at for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(invalid("required", "zip"), at("address")); // path: "address.zip"
+ * ```
+ */
+export const at =
+	<T, E>(segment: string | number) =>
+	(validation: Validation<T, E>): Validation<T, E> => {
+		return validation.at(segment);
+	};
+
+/**
+ * Curried version of unwrapOr for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(invalid("required"), unwrapOr(0)); // 0
+ * ```
+ */
+export const unwrapOr =
+	<T, E>(defaultValue: T) =>
+	(validation: Validation<T, E>): T => {
+		return validation.unwrapOr(defaultValue);
+	};
+
+/**
+ * Curried version of match for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(
+ *   validation,
+ *   match({ valid: () => "ok", invalid: (errors) => `${errors.length} errors` })
+ * );
+ * ```
+ */
+export const match =
+	<T, E, U>(cases: {
+		valid: (value: T) => U;
+		invalid: (errors: FieldError<E>[]) => U;
+	}) =>
+	(validation: Validation<T, E>): U => {
+		return validation.match(cases);
+	};
+
+/**
+ * Curried version of toResult for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(valid(42), toResult()); // Ok(42)
+ * ```
+ */
+export const toResult =
+	<T, E>() =>
+	(validation: Validation<T, E>): Result<T, FieldError<E>[]> => {
+		return validation.toResult();
+	};
+
+/**
+ * Curried version of toEither for use in pipelines.
+ *
+ * @example
+ * ```ts
+ * pipe(valid(42), toEither()); // Right(42)
+ * ```
+ */
+export const toEither =
+	<T, E>() =>
+	(validation: Validation<T, E>): Either<FieldError<E>[], T> => {
+		return validation.toEither();
+	};
+
+type UnwrapValidationArray<T extends Validation<unknown, unknown>[]> = {
+	[K in keyof T]: T[K] extends Validation<infer V, unknown> ? V : never;
+};
+
+type UnwrapValidationErrorArray<T extends Validation<unknown, unknown>[]> = {
+	[K in keyof T]: T[K] extends Validation<unknown, infer E> ? E : never;
+}[number];
+
+type ExtractValidationValue<T> =
+	T extends Validation<infer V, unknown> ? V : never;
+
+/**
+ * Combines multiple Validations, accumulating the errors of every Invalid.
+ * For homogeneous arrays, returns T[] instead of tuples. For mixed types, preserves tuple types.
+ *
+ * @param validations - Array of Validations
+ * @returns Valid with all values, or Invalid with all errors
+ *
+ * @example
+ * ```ts
+ * all([valid(1), invalid("e1", "a"), invalid("e2", "b")]);
+ * // Invalid([{ path: "a", error: "e1" }, { path: "b", error: "e2" }])
+ * ```
+ */
+export function all<
+	T extends Validation<V, E>,
+	V = ExtractValidationValue<T>,
+	E = unknown,
+>(validations: T[]): Validation<V[], E>;
+export function all<T extends Validation<unknown, unknown>[]>(
+	validations: [...T],
+): Validation<UnwrapValidationArray<T>, UnwrapValidationErrorArray<T>>;
+export function all<T extends Validation<unknown, unknown>[]>(
+	validations: T,
+): Validation<unknown, unknown> {
+	const values: unknown[] = [];
+	const errors: FieldError<unknown>[] = [];
+
+	for (const validation of validations) {
+		validation.match({
+			valid: (value) => values.push(value),
+			invalid: (fieldErrors) => errors.push(...fieldErrors),
+		});
+	}
+
+	if (errors.length > 0) {
+		return new Invalid(errors);
+	}
+
+	return new Valid(values);
+}
+
+/**
+ * A function that validates an input, producing a Validation of the output.
+ *
+ * @template I - The type of the input
+ * @template T - The type of the validated output
+ * @template E - The type of each error
+ */
+export type Validator<I, T, E> = (input: I) => Validation<T, E>;
+
+type InputOf<V> = V extends Validator<infer I, unknown, unknown> ? I : never;
+
+type OutputOf<V> = V extends Validator<never, infer T, unknown> ? T : never;
+
+type ErrorOf<V> = V extends Validator<never, unknown, infer E> ? E : never;
+
+/**
+ * Creates a validator from a predicate.
+ *
+ * @param predicate - Function to test the input
+ * @param error - Error to report if the predicate fails
+ *
+ * @example
+ * ```ts
+ * const nonEmpty = check((s: string) => s.length > 0, "required");
+ * nonEmpty(""); // Invalid([{ path: "", error: "required" }])
+ * ```
+ */
+export const check =
+	<T, E>(predicate: (value: T) => boolean, error: E): Validator<T, T, E> =>
+	(input) =>
+		predicate(input) ? new Valid(input) : new Invalid([{ path: "", error }]);
+
+/**
+ * Runs several validators on the same input, accumulating the errors of all of them.
+ *
+ * @example
+ * ```ts
+ * const password = allOf(
+ *   check((s: string) => s.length >= 8, "too short"),
+ *   check((s: string) => /\d/.test(s), "needs a digit"),
+ * );
+ * password("abc"); // Invalid with both errors
+ * ```
+ */
+export const allOf =
+	<T, E>(...validators: Validator<T, T, E>[]): Validator<T, T, E> =>
+	(input) =>
+		all<Validation<T, E>, T, E>(
+			validators.map((validator) => validator(input)),
+		).map(() => input);
+
+/**
+ * Creates a validator for an object from one validator per field.
+ * Every field is validated and all errors are accumulated, with paths prefixed by the field name.
+ * Validators compose, so nested objects and arrays report paths like `address.zip` or `items[3].qty`.
+ *
+ * @param shape - Object with one validator per field
+ * @returns A validator for the whole object
+ *
+ * @example
+ * ```ts
+ * const address = object({ zip: check((s: string) => /^\d{5}$/.test(s), "invalid zip") });
+ * const user = object({ name: nonEmpty, address });
+ *
+ * user({ name: "", address: { zip: "x" } });
+ * // Invalid([
+ * //   { path: "name", error: "required" },
+ * //   { path: "address.zip", error: "invalid zip" },
+ * // ])
+ * ```
+ */
+export const object =
+	<S extends Record<string, Validator<never, unknown, unknown>>>(
+		shape: S,
+	): Validator<
+		{ [K in keyof S]: InputOf<S[K]> },
+		{ [K in keyof S]: OutputOf<S[K]> },
+		ErrorOf<S[keyof S]>
+	> =>
+	(input) => {
+		const keys = Object.keys(shape);
+		const fields = Object.entries(shape).map(([key, validate]) =>
+			validate(input[key] as never).at(key),
+		);
+		return all(fields).map(
+			(values) =>
+				Object.fromEntries(keys.map((key, i) => [key, values[i]])) as {
+					[K in keyof S]: OutputOf<S[K]>;
+				},
+		) as Validation<{ [K in keyof S]: OutputOf<S[K]> }, ErrorOf<S[keyof S]>>;
+	};
+
+/**
+ * Creates a validator for an array from a validator for its items.
+ * Every item is validated and all errors are accumulated, with paths prefixed by the index.
+ *
+ * @param item - Validator for each item
+ * @returns A validator for the whole array
+ *
+ * @example
+ * ```ts
+ * const items = array(object({ qty: check((n: number) => n > 0, "must be positive") }));
+ * items([{ qty: 1 }, { qty: 0 }]); // Invalid([{ path: "[1].qty", error: "must be positive" }])
+ * ```
+ */
+export const array =
+	<I, T, E>(item: Validator<I, T, E>): Validator<I[], T[], E> =>
+	(input) =>
+		all<Validation<T, E>, T, E>(input.map((value, i) => item(value).at(i)));
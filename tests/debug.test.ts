@@ -1,8 +1,27 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, test } from "bun:test";
 import { pipe } from "rambda";
-import { left, map as mapEither, right } from "../src/either";
+import {
+	chain as chainEither,
+	type Either,
+	gen as genEither,
+	Left,
+	left,
+	map as mapEither,
+	mapLeft,
+	right,
+} from "../src/either";
 import { just, map as mapMaybe, nothing } from "../src/maybe";
-import { err, map as mapResult, ok } from "../src/result";
+import {
+	chain as chainResult,
+	Err,
+	err,
+	gen as genResult,
+	mapErr,
+	map as mapResult,
+	ok,
+	type Result,
+} from "../src/result";
+import { configureDebug, type DebugTrace } from "../src/utils/debug";
 import { inspect } from "../src/utils/inspect";
 import { tap } from "../src/utils/tap";
 
@@ -321,3 +340,245 @@ describe("Debug Helpers - inspect", () => {
 		expect(logs[1]?.[1]).toEqual([2, 4, 6]);
 	});
 });
+
+describe("Debug Helpers - configureDebug", () => {
+	afterEach(() => {
+		configureDebug({});
+	});
+
+	test("trace should be undefined when capture is off", () => {
+		expect(err("boom").trace()).toBeUndefined();
+		expect(left("boom").trace()).toBeUndefined();
+	});
+
+	test("trace should be undefined for Ok and Right", () => {
+		configureDebug({ captureStacks: true });
+
+		expect(ok(1).trace()).toBeUndefined();
+		expect(right(1).trace()).toBeUndefined();
+	});
+
+	test("err and new Err should capture the creation stack", () => {
+		configureDebug({ captureStacks: true });
+
+		const fromHelper = err("boom").trace();
+		const fromConstructor = new Err("boom").trace();
+
+		expect(fromHelper?.stack.split("\n")[0]).toContain("debug.test.ts");
+		expect(fromConstructor?.stack.split("\n")[0]).toContain("debug.test.ts");
+		expect(fromHelper?.calls).toEqual([]);
+	});
+
+	test("left and new Left should capture the creation stack", () => {
+		configureDebug({ captureStacks: true });
+
+		expect(left("boom").trace()?.stack.split("\n")[0]).toContain(
+			"debug.test.ts",
+		);
+		expect(new Left("boom").trace()?.stack.split("\n")[0]).toContain(
+			"debug.test.ts",
+		);
+	});
+
+	test("calls should not be traced unless traceCalls is on", () => {
+		configureDebug({ captureStacks: true });
+
+		const result = pipe(
+			err<number, string>("boom"),
+			mapResult((x) => x + 1),
+		);
+
+		expect(result.trace()?.calls).toEqual([]);
+	});
+
+	test("derived Errs and Lefts should keep the creation stack with capture only", () => {
+		configureDebug({ captureStacks: true });
+
+		const created = err<number, string>("boom");
+		const stack = created.trace()?.stack;
+		const derived = [
+			created.map((x) => x + 1),
+			created.mapErr((e) => e.length),
+			created.chain((x) => ok(x)),
+			pipe(
+				created,
+				mapResult((x) => x),
+				chainResult((x) => ok(x)),
+			),
+			created.bimap(
+				(e) => e,
+				(x) => x,
+			),
+			created.context("loading"),
+			created.withContext(() => "loading"),
+			created.zip(ok(1)),
+			created.zipWith(ok(1), (a, b) => a + b),
+		];
+		const createdLeft = left<string, number>("boom");
+
+		expect(stack).toBeDefined();
+		for (const result of derived) {
+			expect(result.trace()).toEqual({ stack: stack as string, calls: [] });
+		}
+		expect(created.toEither().trace()?.stack).toBe(stack as string);
+		expect(
+			[
+				createdLeft.map((x) => x),
+				createdLeft.mapLeft((e) => e),
+				createdLeft.chain((x) => right(x)),
+				createdLeft.bimap(
+					(e) => e,
+					(x) => x,
+				),
+				createdLeft.zip(right(1)),
+				createdLeft.zipWith(right(1), (a, b) => a + b),
+				createdLeft.toResult(),
+			].map((value) => value.trace()?.stack),
+		).toEqual(Array(7).fill(createdLeft.trace()?.stack));
+	});
+
+	test("traceCalls should record the methods that pass a failure on", () => {
+		configureDebug({ captureStacks: true, traceCalls: true });
+		const steps = (value: { trace(): DebugTrace | undefined }) =>
+			value.trace()?.calls.map((call) => call.split(" ")[0]);
+		type Tagged = { _tag: "A" } | { _tag: "B" } | { _tag: "C" };
+
+		expect(
+			steps(
+				err<(x: number) => number, string>("boom")
+					.ap(ok(1))
+					.zip(ok(2))
+					.zipWith(ok(3), (a) => a)
+					.bimap(
+						(e) => e,
+						(x) => x,
+					)
+					.context("loading")
+					.withContext(() => "loading")
+					.toEither(),
+			),
+		).toEqual([
+			"ap",
+			"zip",
+			"zipWith",
+			"bimap",
+			"context",
+			"withContext",
+			"toEither",
+		]);
+		expect(
+			steps(
+				err<number, Tagged>({ _tag: "A" })
+					.catchTag("B", () => ok(1))
+					.catchTags({ C: () => ok(1) }),
+			),
+		).toEqual(["catchTag", "catchTags"]);
+		expect(
+			steps(
+				left<Tagged, number>({ _tag: "A" })
+					.catchTag("B", () => right(1))
+					.catchTags({ C: () => right(1) })
+					.toResult(),
+			),
+		).toEqual(["catchTag", "catchTags", "toResult"]);
+		expect(
+			steps(left<string, (x: number) => number>("boom").ap(right(1))),
+		).toEqual(["ap"]);
+		expect(
+			steps(err<Result<number, string>, string>("boom").flatten()),
+		).toEqual(["flatten"]);
+		expect(
+			steps(left<string, Either<string, number>>("boom").flatten()),
+		).toEqual(["flatten"]);
+		expect(
+			steps(
+				genResult(function* ($) {
+					return yield* $(err<number, string>("boom"));
+				}),
+			),
+		).toEqual(["yield*"]);
+		expect(
+			steps(
+				genEither(function* ($) {
+					return yield* $(left<string, number>("boom"));
+				}),
+			),
+		).toEqual(["yield*"]);
+	});
+
+	test("traceCalls should have no effect without captureStacks", () => {
+		configureDebug({ traceCalls: true });
+
+		expect(
+			err("boom")
+				.map((x) => x)
+				.trace(),
+		).toBeUndefined();
+	});
+
+	test("traceCalls should record the steps an Err went through", () => {
+		configureDebug({ captureStacks: true, traceCalls: true });
+
+		const created = err<number, string>("boom");
+		const result = pipe(
+			created,
+			mapResult((x) => x + 1),
+			mapErr((e) => e.toUpperCase()),
+			chainResult((x) => ok(x)),
+		);
+		const trace = result.trace();
+
+		expect(trace?.stack).toBe(created.trace()?.stack as string);
+		expect(trace?.calls).toHaveLength(3);
+		expect(trace?.calls[0]).toStartWith("map at ");
+		expect(trace?.calls[1]).toStartWith("mapErr at ");
+		expect(trace?.calls[2]).toStartWith("chain at ");
+		for (const call of trace?.calls ?? []) {
+			expect(call).toContain("debug.test.ts");
+		}
+	});
+
+	test("traceCalls should record the steps a Left went through", () => {
+		configureDebug({ captureStacks: true, traceCalls: true });
+
+		const result = left<string, number>("boom")
+			.map((x) => x + 1)
+			.mapLeft((e) => e.length)
+			.chain((x) => right(x));
+
+		expect(result.trace()?.calls.map((call) => call.split(" ")[0])).toEqual([
+			"map",
+			"mapLeft",
+			"chain",
+		]);
+		expect(
+			pipe(
+				left<string, number>("boom"),
+				mapEither((x) => x),
+				mapLeft((e) => e),
+				chainEither((x) => right(x)),
+			).trace()?.calls,
+		).toHaveLength(3);
+	});
+
+	test("inspect should log the trace after the value", () => {
+		configureDebug({ captureStacks: true, traceCalls: true });
+		const logs: unknown[][] = [];
+		const originalLog = console.log;
+		console.log = (...args: unknown[]) => logs.push(args);
+
+		pipe(
+			err<number, string>("boom"),
+			mapResult((x) => x + 1),
+			inspect("Failed"),
+		);
+		pipe(err<number, string>("boom"), inspect());
+
+		console.log = originalLog;
+
+		expect(logs).toHaveLength(4);
+		expect(logs[1]?.[0]).toStartWith("Created:\n    at ");
+		expect(logs[1]?.[0]).toContain("Passed through:\n    map at ");
+		expect(logs[3]?.[0]).not.toContain("Passed through:");
+	});
+});
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "bun:test";
+import { D } from "../src";
+import {
+	array,
+	boolean,
+	type DecodeError,
+	type Decoder,
+	type Infer,
+	lazy,
+	literal,
+	nullable,
+	number,
+	object,
+	optional,
+	parseJSON,
+	record,
+	string,
+	union,
+} from "../src/decoder";
+import { Just, type Maybe, Nothing } from "../src/maybe";
+import type { Result } from "../src/result";
+
+describe("Decoder primitives", () => {
+	it("should decode values of the expected type", () => {
+		expect(string("a").unwrap()).toBe("a");
+		expect(number(1).unwrap()).toBe(1);
+		expect(boolean(false).unwrap()).toBe(false);
+	});
+
+	it("should describe the received type on failure", () => {
+		expect(string(1).unwrapErr()).toEqual([
+			{ path: "", message: "expected string, got number" },
+		]);
+		expect(number(Number.NaN).isErr()).toBe(true);
+		expect(number(null).unwrapErr()[0]?.message).toBe(
+			"expected number, got null",
+		);
+		expect(boolean([]).unwrapErr()[0]?.message).toBe(
+			"expected boolean, got array",
+		);
+	});
+
+	it("literal should accept only the given values", () => {
+		const role = literal("admin", "user", null);
+		const decoded: Result<"admin" | "user" | null, DecodeError[]> =
+			role("admin");
+		expect(decoded.unwrap()).toBe("admin");
+		expect(role(null).unwrap()).toBeNull();
+		expect(role("guest").unwrapErr()).toEqual([
+			{ path: "", message: 'expected "admin" | "user" | null, got string' },
+		]);
+	});
+});
+
+describe("Decoder combinators", () => {
+	it("array should report every failing item with its index", () => {
+		expect(array(number)([1, 2]).unwrap()).toEqual([1, 2]);
+		expect(array(number)([1, "2", true]).unwrapErr()).toEqual([
+			{ path: "[1]", message: "expected number, got string" },
+			{ path: "[2]", message: "expected number, got boolean" },
+		]);
+		expect(array(number)({}).unwrapErr()[0]?.message).toBe(
+			"expected array, got object",
+		);
+	});
+
+	it("object should decode every field and report nested paths", () => {
+		const order = object({
+			id: string,
+			items: array(object({ sku: string, qty: number })),
+			address: object({ zip: string }),
+		});
+
+		expect(
+			order({ id: "o1", items: [], address: { zip: "1" }, extra: 1 }).unwrap(),
+		).toEqual({ id: "o1", items: [], address: { zip: "1" } });
+		expect(
+			order({
+				id: 1,
+				items: [{ sku: "a", qty: "2" }],
+				address: {},
+			}).unwrapErr(),
+		).toEqual([
+			{ path: "id", message: "expected string, got number" },
+			{ path: "items[0].qty", message: "expected number, got string" },
+			{ path: "address.zip", message: "expected string, got undefined" },
+		]);
+		expect(order([]).unwrapErr()[0]?.message).toBe(
+			"expected object, got array",
+		);
+	});
+
+	it("record should decode every value", () => {
+		expect(record(number)({ a: 1, b: 2 }).unwrap()).toEqual({ a: 1, b: 2 });
+		expect(record(number)({ a: 1, b: "2" }).unwrapErr()).toEqual([
+			{ path: "b", message: "expected number, got string" },
+		]);
+		expect(record(number)("a").isErr()).toBe(true);
+	});
+
+	it("union should return the first success or every error", () => {
+		const id = union(string, number);
+		const decoded: Result<string | number, DecodeError[]> = id(1);
+		expect(decoded.unwrap()).toBe(1);
+		expect(id(true).unwrapErr()).toEqual([
+			{ path: "", message: "expected string, got boolean" },
+			{ path: "", message: "expected number, got boolean" },
+		]);
+	});
+
+	it("optional should map a missing value to Nothing", () => {
+		const user = object({ name: string, nickname: optional(string) });
+		const missing = user({ name: "Alice" }).unwrap();
+		expect(missing.nickname).toBeInstanceOf(Nothing);
+		expect(user({ name: "Alice", nickname: "Al" }).unwrap().nickname).toEqual(
+			new Just("Al"),
+		);
+		expect(user({ name: "Alice", nickname: 1 }).unwrapErr()).toEqual([
+			{ path: "nickname", message: "expected string, got number" },
+		]);
+	});
+
+	it("nullable should accept null", () => {
+		expect(nullable(string)(null).unwrap()).toBeNull();
+		expect(nullable(string)("a").unwrap()).toBe("a");
+		expect(nullable(string)(undefined).isErr()).toBe(true);
+	});
+
+	it("lazy should support recursive decoders", () => {
+		type Category = { name: string; children: Category[] };
+		const category: Decoder<Category> = object({
+			name: string,
+			children: array(lazy(() => category)),
+		});
+
+		const tree = { name: "a", children: [{ name: "b", children: [] }] };
+		expect(category(tree).unwrap()).toEqual(tree);
+		expect(
+			category({
+				name: "a",
+				children: [{ name: 1, children: [] }],
+			}).unwrapErr(),
+		).toEqual([
+			{ path: "children[0].name", message: "expected string, got number" },
+		]);
+	});
+});
+
+describe("Decoder helpers", () => {
+	it("Infer should give the decoded type", () => {
+		const user = object({
+			name: string,
+			role: literal("admin", "user"),
+			nickname: optional(string),
+			manager: nullable(string),
+		});
+		const value: Infer<typeof user> = user({
+			name: "Alice",
+			role: "admin",
+			manager: null,
+		}).unwrap();
+		const nickname: Maybe<string> = value.nickname;
+		expect(value).toEqual({
+			name: "Alice",
+			role: "admin",
+			nickname: new Nothing(),
+			manager: null,
+		});
+		expect(nickname.isNothing()).toBe(true);
+	});
+
+	it("parseJSON should decode JSON text and report invalid JSON", () => {
+		const parseUser = parseJSON(object({ name: string }));
+		expect(parseUser('{"name":"Alice"}').unwrap()).toEqual({ name: "Alice" });
+		expect(parseUser('{"name":1}').unwrapErr()[0]?.path).toBe("name");
+
+		const invalid = parseUser("{").unwrapErr();
+		expect(invalid).toHaveLength(1);
+		expect(invalid[0]?.path).toBe("");
+		expect(invalid[0]?.message).toStartWith("invalid JSON: ");
+	});
+
+	it("should be exported from the root entry point", () => {
+		expect(D.string).toBe(string);
+	});
+});
@@ -2,23 +2,68 @@ import { describe, expect, it } from "bun:test";
 import { pipe } from "rambda";
 import {
 	all,
+	ap,
+	bimap,
+	catchTag,
+	catchTags,
 	chain,
+	type Either,
 	equals,
+	expect as expectRight,
+	firstRight,
+	flatten,
+	fold,
 	fromAsync,
+	fromCallback,
+	fromNullable,
+	fromPredicate,
 	fromPromise,
+	gen,
+	hash,
+	isLeft,
+	isRight,
 	Left,
 	left,
+	lift2,
+	lift3,
 	map,
 	mapLeft,
 	match,
+	matchTag,
+	or,
+	orElse,
 	partition,
+	promisifyEither,
 	Right,
+	recover,
+	recoverWhen,
 	right,
+	safeAll,
+	safeFn,
+	safeFnAsync,
 	sequence,
+	struct,
+	swap,
+	toCallback,
+	toMaybe,
+	toNullable,
+	toResult,
+	toUndefined,
+	traverseAsync,
 	tryCatch,
+	unwrap,
+	unwrapLeft,
 	unwrapOr,
+	unwrapOrElse,
 	validate,
+	zip,
+	zipWith,
 } from "../src/either";
+import { Just, type Maybe, Nothing } from "../src/maybe";
+import { Ok, type Result } from "../src/result";
+import type { CancelError } from "../src/utils/cancel";
+import type { Eq, HashEq } from "../src/utils/eq";
+import { AbortedError, TimeoutError, UnwrapError } from "../src/utils/errors";
 
 describe("Either", () => {
 	it("Right.map applies function to value", () => {
@@ -549,3 +594,887 @@ describe("Either - Curried Helpers", () => {
 		expect(rights).toEqual([]);
 	});
 });
+
+describe("Either gen", () => {
+	const parseNumber = (s: string): Either<"NaN", number> =>
+		Number.isNaN(Number(s)) ? left("NaN") : right(Number(s));
+
+	const nonZero = (n: number): Either<"Zero", number> =>
+		n === 0 ? left("Zero") : right(n);
+
+	it("should unwrap Right values and return Right with the final value", () => {
+		const result = gen(function* ($) {
+			const a = yield* $(parseNumber("20"));
+			const b = yield* $(nonZero(a));
+			return 100 / b;
+		});
+		const typed: Either<"NaN" | "Zero", number> = result;
+		expect(typed.unwrapOr(0)).toBe(5);
+	});
+
+	it("should short-circuit on the first Left", () => {
+		let reached = false;
+		const result = gen(function* ($) {
+			const a = yield* $(parseNumber("0"));
+			const b = yield* $(nonZero(a));
+			reached = true;
+			return yield* $(parseNumber(`${b}`));
+		});
+		expect(reached).toBe(false);
+		expect(result.match({ left: (e) => e, right: () => "" })).toBe("Zero");
+	});
+});
+
+describe("Either equality and hashing", () => {
+	const byId: HashEq<{ id: number; name: string }> = {
+		equals: (a, b) => a.id === b.id,
+		hash: (a) => a.id,
+	};
+
+	it("equals should compare values structurally", () => {
+		expect(
+			right({ id: 1, tags: ["a"] }).equals(right({ id: 1, tags: ["a"] })),
+		).toBe(true);
+		expect(left({ code: 404 }).equals(left({ code: 404 }))).toBe(true);
+		expect(left({ code: 404 }).equals(left({ code: 500 }))).toBe(false);
+		expect(right(right([1])).equals(right(right([1])))).toBe(true);
+	});
+
+	it("equals should accept custom Eq instances", () => {
+		const a = right<string, { id: number; name: string }>({ id: 1, name: "a" });
+		const b = right<string, { id: number; name: string }>({ id: 1, name: "b" });
+		expect(a.equals(b)).toBe(false);
+		expect(a.equals(b, byId)).toBe(true);
+
+		const caseInsensitive: Eq<string> = {
+			equals: (x, y) => x.toLowerCase() === y.toLowerCase(),
+		};
+		expect(
+			left<string, number>("FAIL").equals(
+				left("fail"),
+				undefined,
+				caseInsensitive,
+			),
+		).toBe(true);
+	});
+
+	it("hash should match for equal Eithers and differ between Left and Right", () => {
+		expect(right({ id: 1 }).hash()).toBe(right({ id: 1 }).hash());
+		expect(left([1]).hash()).toBe(left([1]).hash());
+		expect(right(1).hash()).not.toBe(left(1).hash());
+	});
+
+	it("hash should use the hash of a custom Eq", () => {
+		const a = right<string, { id: number; name: string }>({ id: 1, name: "a" });
+		const b = right<string, { id: number; name: string }>({ id: 1, name: "b" });
+		expect(a.hash(byId)).toBe(b.hash(byId));
+
+		const byLength: HashEq<string> = {
+			equals: (x, y) => x.length === y.length,
+			hash: (x) => x.length,
+		};
+		expect(left<string, number>("ab").hash(undefined, byLength)).toBe(
+			left<string, number>("cd").hash(undefined, byLength),
+		);
+	});
+
+	it("curried equals and hash should accept Eq instances", () => {
+		const a = right<string, { id: number; name: string }>({ id: 1, name: "a" });
+		const b = right<string, { id: number; name: string }>({ id: 1, name: "b" });
+		expect(pipe(a, equals(b, byId))).toBe(true);
+		expect(pipe(a, hash(byId))).toBe(b.hash(byId));
+	});
+});
+
+describe("Either Left recovery", () => {
+	type ApiError = { code: 404 } | { code: 500 };
+
+	const isNotFound = (e: ApiError): e is { code: 404 } => e.code === 404;
+
+	it("Left.orElse should switch to the fallback Either", () => {
+		const either = left<string, number>("cache miss").orElse(() => right(42));
+		expect(either.unwrapOr(0)).toBe(42);
+	});
+
+	it("Right.orElse should not call the function", () => {
+		let called = false;
+		const either = right<string, number>(1).orElse(() => {
+			called = true;
+			return right(2);
+		});
+		expect(called).toBe(false);
+		expect(either.unwrapOr(0)).toBe(1);
+	});
+
+	it("Left.recover should turn the Left into a Right", () => {
+		const either = left<string, number>("fail").recover((e) => e.length);
+		expect(either.isRight()).toBe(true);
+		expect(either.unwrapOr(0)).toBe(4);
+	});
+
+	it("Right.recover should keep the value", () => {
+		expect(
+			right<string, number>(1)
+				.recover(() => 0)
+				.unwrapOr(0),
+		).toBe(1);
+	});
+
+	it("Left.recoverWhen should only recover selected values", () => {
+		const notFound = left<ApiError, string | null>({ code: 404 }).recoverWhen(
+			isNotFound,
+			() => null,
+		);
+		const narrowed: Either<{ code: 500 }, string | null> = notFound;
+		expect(narrowed.isRight()).toBe(true);
+
+		const serverError = left<ApiError, string | null>({
+			code: 500,
+		}).recoverWhen(isNotFound, () => null);
+		expect(serverError.isLeft()).toBe(true);
+	});
+
+	it("Right.recoverWhen should keep the value", () => {
+		const either = right<ApiError, number>(1).recoverWhen(isNotFound, () => 0);
+		expect(either.unwrapOr(0)).toBe(1);
+	});
+
+	it("curried recovery helpers should work in pipelines", () => {
+		const value = pipe(
+			left<string, number>("cache miss"),
+			orElse(() => left<string, number>("db miss")),
+			recoverWhen(
+				(e: string) => e === "db miss",
+				() => 7,
+			),
+			unwrapOr(0),
+		);
+		expect(value).toBe(7);
+
+		const recovered = pipe(
+			left<string, number>("fail"),
+			recover(() => 1),
+			unwrapOr(0),
+		);
+		expect(recovered).toBe(1);
+
+		const narrowed: Either<{ code: 500 }, string | null> = pipe(
+			left<ApiError, string | null>({ code: 404 }),
+			recoverWhen(isNotFound, (): string | null => null),
+		);
+		expect(narrowed.isRight()).toBe(true);
+	});
+});
+
+describe("Tagged lefts", () => {
+	type NotFound = { _tag: "NotFound"; id: number };
+	type Invalid = { _tag: "Invalid"; reason: string };
+	type UserError = NotFound | Invalid;
+
+	const find = (id: number): Either<UserError, string> =>
+		id === 1
+			? right("Alice")
+			: id === 2
+				? left({ _tag: "Invalid", reason: "bad id" })
+				: left({ _tag: "NotFound", id });
+
+	it("catchTag should handle the matching tag and narrow the Left type", () => {
+		const either = find(3).catchTag("NotFound", (e) => right(`guest-${e.id}`));
+		const narrowed: Either<Invalid, string> = either;
+		expect(narrowed.unwrapOr("")).toBe("guest-3");
+	});
+
+	it("catchTag should keep Left values with other tags", () => {
+		const either = find(2).catchTag("NotFound", () => right("guest"));
+		expect(either.isLeft()).toBe(true);
+		expect(either.extract()).toEqual({ _tag: "Invalid", reason: "bad id" });
+	});
+
+	it("catchTag and catchTags should add the handler's Right type", () => {
+		const either = find(3).catchTag("NotFound", () => right(null));
+		const widened: Either<Invalid, string | null> = either;
+		// @ts-expect-error - the Right type now includes null
+		const narrowed: Either<Invalid, string> = either;
+		expect(narrowed.unwrapOr("")).toBeNull();
+
+		const curried: Either<Invalid, string | null> = pipe(
+			find(3),
+			catchTag("NotFound", () => right(null)),
+		);
+		expect(curried.unwrapOr("")).toBeNull();
+
+		const handled: Either<never, string | number> = find(2).catchTags({
+			NotFound: (e) => right(e.id),
+			Invalid: () => right(0),
+		});
+		expect(handled.unwrapOr("")).toBe(0);
+		expect(widened.isRight()).toBe(true);
+	});
+
+	it("Right.catchTag should keep the value", () => {
+		expect(
+			find(1)
+				.catchTag("NotFound", () => right("guest"))
+				.unwrapOr(""),
+		).toBe("Alice");
+	});
+
+	it("catchTags should dispatch on the Left tag", () => {
+		const handlers = {
+			NotFound: (e: NotFound) => right<never, string>(`guest-${e.id}`),
+			Invalid: (e: Invalid) => left<string, string>(e.reason),
+		};
+		const handled: Either<string, string> = find(3).catchTags(handlers);
+		expect(handled.unwrapOr("")).toBe("guest-3");
+		expect(find(2).catchTags(handlers).extract()).toBe("bad id");
+		expect(find(1).catchTags(handlers).unwrapOr("")).toBe("Alice");
+	});
+
+	it("catchTags should keep unhandled tags", () => {
+		const either = find(2).catchTags({ NotFound: () => right("guest") });
+		const narrowed: Either<Invalid, string> = either;
+		expect(narrowed.isLeft()).toBe(true);
+	});
+
+	it("catchTag and catchTags should keep null and primitive Left values", () => {
+		type Failure = NotFound | null | string;
+		for (const value of [null, "boom"]) {
+			const either = left<Failure, string>(value);
+			expect(either.catchTag("NotFound", () => right("guest")).extract()).toBe(
+				value,
+			);
+			expect(
+				either.catchTags({ NotFound: () => right("guest") }).extract(),
+			).toBe(value);
+		}
+	});
+
+	it("matchTag should dispatch on the Left tag", () => {
+		const status = (id: number) =>
+			find(id).matchTag({
+				right: () => 200,
+				left: { NotFound: () => 404, Invalid: () => 400 },
+			});
+		expect(status(1)).toBe(200);
+		expect(status(2)).toBe(400);
+		expect(status(3)).toBe(404);
+	});
+
+	it("curried tag helpers should work in pipelines", () => {
+		const handled = pipe(
+			find(3),
+			catchTag("NotFound", (e) => right(`guest-${e.id}`)),
+			unwrapOr(""),
+		);
+		expect(handled).toBe("guest-3");
+
+		const all = pipe(
+			find(2),
+			catchTags({ Invalid: (e) => right(e.reason) }),
+			unwrapOr(""),
+		);
+		expect(all).toBe("bad id");
+
+		const status = pipe(
+			find(3),
+			matchTag({
+				right: (name) => name.length,
+				left: { NotFound: (e) => e.id, Invalid: () => -1 },
+			}),
+		);
+		expect(status).toBe(3);
+	});
+});
+
+describe("Type guards", () => {
+	const parse = (s: string): Either<string, number> =>
+		Number.isNaN(Number(s)) ? left(`not a number: ${s}`) : right(Number(s));
+
+	it("isRight should narrow to Right and expose value", () => {
+		const either = parse("42");
+		if (either.isRight()) {
+			const value: number = either.value;
+			expect(value).toBe(42);
+		} else {
+			throw new Error("expected Right");
+		}
+	});
+
+	it("isLeft should narrow to Left and expose value", () => {
+		const either = parse("x");
+		if (either.isLeft()) {
+			const value: string = either.value;
+			expect(value).toBe("not a number: x");
+		} else {
+			throw new Error("expected Left");
+		}
+	});
+
+	it("standalone guards should filter arrays of Eithers", () => {
+		const eithers = ["1", "x", "3"].map(parse);
+		const rights: number[] = eithers.filter(isRight).map((e) => e.value);
+		const lefts: string[] = eithers.filter(isLeft).map((e) => e.value);
+		expect(rights).toEqual([1, 3]);
+		expect(lefts).toEqual(["not a number: x"]);
+	});
+});
+
+describe("Extraction", () => {
+	it("unwrap should return the Right value or throw with the Left as cause", () => {
+		expect(right(42).unwrap()).toBe(42);
+		try {
+			left("boom").unwrap();
+			throw new Error("expected unwrap to throw");
+		} catch (e) {
+			expect(e).toBeInstanceOf(UnwrapError);
+			expect((e as UnwrapError).message).toBe("Called unwrap on a Left value");
+			expect((e as UnwrapError).cause).toBe("boom");
+		}
+	});
+
+	it("expect should return the value or throw with the given message", () => {
+		expect(right(42).expect("must be right")).toBe(42);
+		expect(() => left("boom").expect("must be right")).toThrow("must be right");
+	});
+
+	it("unwrapLeft should return the Left value or throw for Right", () => {
+		expect(left("boom").unwrapLeft()).toBe("boom");
+		expect(() => right(42).unwrapLeft()).toThrow(
+			"Called unwrapLeft on a Right value",
+		);
+	});
+
+	it("unwrapOrElse should compute the fallback lazily from the Left value", () => {
+		expect(right<string, number>(42).unwrapOrElse((e) => e.length)).toBe(42);
+		expect(left<string, number>("fail").unwrapOrElse((e) => e.length)).toBe(4);
+	});
+
+	it("toNullable and toUndefined should convert Left to null and undefined", () => {
+		expect(right(42).toNullable()).toBe(42);
+		expect(left("fail").toNullable()).toBeNull();
+		expect(right(42).toUndefined()).toBe(42);
+		expect(left("fail").toUndefined()).toBeUndefined();
+	});
+
+	it("curried extraction helpers should work in pipelines", () => {
+		expect(
+			pipe(
+				right<string, number>(41),
+				map((x) => x + 1),
+				unwrap(),
+			),
+		).toBe(42);
+		expect(pipe(right(1), expectRight("must be right"))).toBe(1);
+		expect(pipe(left("boom"), unwrapLeft())).toBe("boom");
+		expect(
+			pipe(
+				left<string, number>("fail"),
+				unwrapOrElse((e) => e.length),
+			),
+		).toBe(4);
+		expect(pipe(left<string, number>("fail"), toNullable())).toBeNull();
+		expect(pipe(left<string, number>("fail"), toUndefined())).toBeUndefined();
+	});
+});
+
+describe("Safe function wrappers", () => {
+	class Counter {
+		count = 0;
+		increment(by: number): number {
+			this.count += by;
+			return this.count;
+		}
+	}
+
+	const api = {
+		parse: (input: string): number => {
+			const value = Number(input);
+			if (Number.isNaN(value)) {
+				throw new Error(`not a number: ${input}`);
+			}
+			return value;
+		},
+		load: async (id: number): Promise<string> => {
+			if (id < 0) {
+				throw new Error("not found");
+			}
+			return `user-${id}`;
+		},
+	};
+
+	it("safeFn should wrap a function of any arity", () => {
+		const divide = safeFn(
+			(a: number, b: number): number => {
+				if (b === 0) {
+					throw new Error("division by zero");
+				}
+				return a / b;
+			},
+			(e) => (e as Error).message,
+		);
+		const either: Either<string, number> = divide(10, 2);
+		expect(either.unwrapOr(0)).toBe(5);
+		expect(divide(1, 0).unwrapLeft()).toBe("division by zero");
+	});
+
+	it("safeFnAsync should wrap rejections", async () => {
+		const load = safeFnAsync(api.load, (e) => (e as Error).message);
+		expect((await load(1)).unwrapOr("")).toBe("user-1");
+		expect((await load(-1)).unwrapLeft()).toBe("not found");
+	});
+
+	it("safeAll should wrap every method of an object", async () => {
+		const safe = safeAll(api, (e) => (e as Error).message);
+		expect(safe.parse("42").unwrapOr(0)).toBe(42);
+		expect(safe.parse("x").unwrapLeft()).toBe("not a number: x");
+		expect((await safe.load(1)).unwrapOr("")).toBe("user-1");
+		expect((await safe.load(-1)).unwrapLeft()).toBe("not found");
+	});
+
+	it("safeAll should keep `this` for class instances", () => {
+		const counter = new Counter();
+		const safe = safeAll(counter);
+		expect(safe.increment(2).unwrapOr(0)).toBe(2);
+		expect(counter.count).toBe(2);
+	});
+
+	it("safeAll should not run getters", () => {
+		class Service {
+			get broken(): number {
+				throw new Error("getter ran");
+			}
+			ping(): string {
+				return "pong";
+			}
+		}
+		const safe = safeAll(new Service());
+		expect(safe.ping().unwrapOr("")).toBe("pong");
+		expect("broken" in safe).toBe(false);
+	});
+});
+
+describe("Record combinators", () => {
+	it("struct should combine a record of Rights", () => {
+		const either = struct({
+			name: right<string, string>("Alice"),
+			age: right<number, number>(30),
+		});
+		const typed: Either<string | number, { name: string; age: number }> =
+			either;
+		expect(typed.unwrap()).toEqual({ name: "Alice", age: 30 });
+	});
+
+	it("struct should stop at the first Left by default", () => {
+		const either = struct({
+			name: left<string, string>("required"),
+			age: left<number, number>(0),
+		});
+		expect(either.unwrapLeft()).toBe("required");
+	});
+
+	it("struct should collect Left values by field name with collect", () => {
+		const either = struct(
+			{
+				name: right<string, string>("Alice"),
+				email: left<string, string>("invalid"),
+				age: left<number, number>(-1),
+			},
+			{ collect: true },
+		);
+		const lefts: { name?: string; email?: string; age?: number } =
+			either.unwrapLeft();
+		expect(lefts).toEqual({ email: "invalid", age: -1 });
+		expect(struct({ a: right(1) }, { collect: true }).unwrap()).toEqual({
+			a: 1,
+		});
+	});
+});
+
+describe("traverseAsync", () => {
+	const delay = (ms: number) =>
+		new Promise((resolve) => setTimeout(resolve, ms));
+
+	it("should keep input order and respect the concurrency limit", async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const either = await traverseAsync(
+			[20, 5, 10],
+			async (ms): Promise<Either<string, number>> => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await delay(ms);
+				running--;
+				return right(ms);
+			},
+			{ concurrency: 2 },
+		);
+		expect(either.unwrap()).toEqual([20, 5, 10]);
+		expect(maxRunning).toBe(2);
+	});
+
+	it("should stop at the first Left and abort pending work in failFast mode", async () => {
+		const signals: AbortSignal[] = [];
+		const either = await traverseAsync(
+			[1, 2, 3],
+			async (n, _, signal): Promise<Either<string, number>> => {
+				signals.push(signal);
+				await delay(n * 5);
+				return n === 1 ? left("boom") : right(n);
+			},
+		);
+		expect(either.unwrapLeft()).toBe("boom");
+		expect(signals.every((signal) => signal.aborted)).toBe(true);
+		await delay(20);
+	});
+
+	it("should collect every Left value in input order in collect mode", async () => {
+		const either = await traverseAsync(
+			["1", "x", "3", "y"],
+			(s): Either<string, number> =>
+				Number.isNaN(Number(s)) ? left(`bad ${s}`) : right(Number(s)),
+			{ mode: "collect" },
+		);
+		const lefts: string[] = either.unwrapLeft();
+		expect(lefts).toEqual(["bad x", "bad y"]);
+	});
+
+	it("should reject with a RangeError for an invalid concurrency", async () => {
+		for (const concurrency of [0, -1, 1.5, Number.NaN]) {
+			const traversal = traverseAsync([1], (n) => right(n), { concurrency });
+			await expect(traversal).rejects.toThrow(RangeError);
+		}
+	});
+});
+
+describe("Cancellation", () => {
+	it("fromPromise should fail with a TimeoutError after timeoutMs", async () => {
+		const either: Either<string | CancelError, number> = await fromPromise(
+			new Promise<number>(() => undefined),
+			(e) => String(e),
+			{ timeoutMs: 5 },
+		);
+		expect(either.unwrapLeft()).toBeInstanceOf(TimeoutError);
+		expect(
+			(
+				await fromPromise(Promise.reject("fail"), String, { timeoutMs: 50 })
+			).unwrapLeft(),
+		).toBe("fail");
+	});
+
+	it("fromAsync should pass an aborted signal to fn when cancelled", async () => {
+		const controller = new AbortController();
+		let received: AbortSignal | undefined;
+		const pending = fromAsync(
+			async (signal) => {
+				received = signal;
+				return 1;
+			},
+			undefined,
+			{ signal: controller.signal },
+		);
+		expect((await pending).unwrap()).toBe(1);
+
+		const cancelled = fromAsync(
+			(signal) => {
+				received = signal;
+				return new Promise<number>(() => undefined);
+			},
+			undefined,
+			{ signal: controller.signal },
+		);
+		controller.abort();
+		expect((await cancelled).unwrapLeft()).toBeInstanceOf(AbortedError);
+		expect(received?.aborted).toBe(true);
+	});
+
+	it("fromPromise should handle a late rejection when the signal is already aborted", async () => {
+		const late = new Promise<number>((_, reject) =>
+			setTimeout(() => reject(new Error("late")), 5),
+		);
+		const either = await fromPromise(late, undefined, {
+			signal: AbortSignal.abort(),
+		});
+		await Bun.sleep(10);
+
+		expect(either.unwrapLeft()).toBeInstanceOf(AbortedError);
+	});
+});
+
+describe("Conversions", () => {
+	it("toResult and toMaybe should convert Right and Left", () => {
+		expect(right(42).toResult()).toBeInstanceOf(Ok);
+		expect(right(42).toResult().unwrap()).toBe(42);
+		expect(left("fail").toResult().unwrapErr()).toBe("fail");
+		expect(right(42).toMaybe()).toBeInstanceOf(Just);
+		expect(left("fail").toMaybe()).toBeInstanceOf(Nothing);
+	});
+
+	it("toResult and toMaybe should work in pipelines", () => {
+		const result: Result<number, string> = pipe(
+			right<string, number>(1),
+			toResult(),
+		);
+		expect(result.unwrap()).toBe(1);
+		const maybe: Maybe<number> = pipe(left<string, number>("fail"), toMaybe());
+		expect(maybe.isNothing()).toBe(true);
+	});
+
+	it("fromNullable should turn null and undefined into Left", () => {
+		const found: Either<string, number> = fromNullable(1, "missing");
+		expect(found.unwrap()).toBe(1);
+		expect(fromNullable(null, "missing").unwrapLeft()).toBe("missing");
+		expect(pipe(undefined, fromNullable("missing")).unwrapLeft()).toBe(
+			"missing",
+		);
+		expect(pipe("a", fromNullable("missing")).unwrap()).toBe("a");
+	});
+
+	it("fromPredicate should keep values that satisfy the predicate", () => {
+		const adult = (n: number) => n >= 18;
+		expect(fromPredicate(20, adult, "too young").unwrap()).toBe(20);
+		expect(fromPredicate(15, adult, "too young").unwrapLeft()).toBe(
+			"too young",
+		);
+		expect(pipe(15, fromPredicate(adult, "too young")).isLeft()).toBe(true);
+		expect(pipe(20, fromPredicate(adult, "too young")).unwrap()).toBe(20);
+	});
+});
+
+describe("Applicative helpers", () => {
+	const num = right<"NaN", number>(2);
+	const str = right<"Empty", string>("a");
+	const nan = left<"NaN", number>("NaN");
+
+	it("zip and zipWith should combine two Rights", () => {
+		const zipped: Either<"NaN" | "Empty", [number, string]> = num.zip(str);
+		expect(zipped.unwrap()).toEqual([2, "a"]);
+		expect(str.zip(nan).unwrapLeft()).toBe("NaN");
+		expect(nan.zip(str).unwrapLeft()).toBe("NaN");
+		expect(str.zipWith(num, (s, n) => s.repeat(n)).unwrap()).toBe("aa");
+		expect(nan.zipWith(str, (n, s) => s.repeat(n)).isLeft()).toBe(true);
+	});
+
+	it("ap should apply a function inside Right", () => {
+		const inc = right<"NoFn", (x: number) => number>((x) => x + 1);
+		const applied: Either<"NoFn" | "NaN", number> = inc.ap(num);
+		expect(applied.unwrap()).toBe(3);
+		expect(
+			left<string, (x: number) => number>("NoFn").ap(num).unwrapLeft(),
+		).toBe("NoFn");
+	});
+
+	it("curried helpers and lift should work in pipelines", () => {
+		expect(pipe(num, zip(str)).unwrap()).toEqual([2, "a"]);
+		expect(
+			pipe(
+				num,
+				zipWith(right(3), (a: number, b: number) => a * b),
+			).unwrap(),
+		).toBe(6);
+		expect(
+			pipe(right<string, (n: number) => string>(String), ap(right(1))).unwrap(),
+		).toBe("1");
+
+		const repeated: Either<"Empty" | "NaN", string> = lift2(
+			(s: string, n: number) => s.repeat(n),
+		)(str, num);
+		expect(repeated.unwrap()).toBe("aa");
+		const sum = lift3((a: number, b: number, c: number) => a + b + c);
+		expect(sum(num, num, num).unwrap()).toBe(6);
+		expect(sum(num, nan, num).unwrapLeft()).toBe("NaN");
+	});
+});
+
+describe("First success", () => {
+	it("or should keep a Right and fall back for a Left", () => {
+		expect(right<string, number>(1).or(right(2)).unwrap()).toBe(1);
+		expect(left<string, number>("miss").or(right(2)).unwrap()).toBe(2);
+		const fallback: Either<number, number> = pipe(
+			left<string, number>("miss"),
+			or(left<number, number>(404)),
+		);
+		expect(fallback.unwrapLeft()).toBe(404);
+	});
+
+	it("firstRight should return the first Right", () => {
+		expect(firstRight([left("a"), right(1), right(2)]).unwrap()).toBe(1);
+	});
+
+	it("firstRight should collect every Left value in order", () => {
+		const either: Either<string[], number> = firstRight<string, number>([
+			left("cache miss"),
+			() => left("db down"),
+		]);
+		expect(either.unwrapLeft()).toEqual(["cache miss", "db down"]);
+		expect(firstRight([]).unwrapLeft()).toEqual([]);
+	});
+
+	it("firstRight should only call thunks until one succeeds", () => {
+		const calls: string[] = [];
+		const source = (name: string, either: Either<string, number>) => () => {
+			calls.push(name);
+			return either;
+		};
+
+		const either = firstRight([
+			source("cache", left("miss")),
+			source("db", right(42)),
+			source("default", right(0)),
+		]);
+
+		expect(either.unwrap()).toBe(42);
+		expect(calls).toEqual(["cache", "db"]);
+	});
+});
+
+describe("Structural helpers", () => {
+	it("bimap should transform the side that is present", () => {
+		const double = (x: number) => x * 2;
+		const describe = (e: string) => `Error: ${e}`;
+		const mapped: Either<string, number> = right<string, number>(2).bimap(
+			describe,
+			double,
+		);
+		expect(mapped.unwrap()).toBe(4);
+		expect(
+			pipe(left<string, number>("fail"), bimap(describe, double)).unwrapLeft(),
+		).toBe("Error: fail");
+	});
+
+	it("fold should call the function for the side that is present", () => {
+		expect(
+			right<string, number>(42).fold(
+				() => 0,
+				(x) => x * 2,
+			),
+		).toBe(84);
+		expect(
+			pipe(
+				left<string, number>("fail"),
+				fold(
+					(e: string) => e.length,
+					(x: number) => x,
+				),
+			),
+		).toBe(4);
+	});
+
+	it("swap should exchange Left and Right", () => {
+		const swapped: Either<number, string> = right<string, number>(1).swap();
+		expect(swapped.unwrapLeft()).toBe(1);
+		expect(pipe(left<string, number>("fail"), swap()).unwrap()).toBe("fail");
+	});
+
+	it("flatten should collapse nested Eithers", () => {
+		const nested = right<"Outer", Either<"Inner", number>>(right(1));
+		const flat: Either<"Inner" | "Outer", number> = nested.flatten();
+		expect(flat.unwrap()).toBe(1);
+		expect(
+			pipe(right(left<string, number>("inner")), flatten()).unwrapLeft(),
+		).toBe("inner");
+		expect(
+			left<string, Either<string, number>>("outer").flatten().unwrapLeft(),
+		).toBe("outer");
+	});
+});
+
+describe("Either values", () => {
+	it("should yield the Right value, or nothing for a Left", () => {
+		expect([...right(42).values()]).toEqual([42]);
+		expect([...left("fail").values()]).toEqual([]);
+	});
+
+	it("should make the Either itself iterable over the Right value", () => {
+		expect([...right(42)]).toEqual([42]);
+		expect([...left("fail")]).toEqual([]);
+		const eithers = [right(1), left("e"), right(3)];
+		expect(eithers.flatMap((either) => [...either])).toEqual([1, 3]);
+	});
+});
+
+describe("Either - callbacks", () => {
+	const legacyRead = (
+		path: string,
+		callback: (error: Error | null, data: string) => void,
+	): void => {
+		if (path === "missing") {
+			callback(new Error("ENOENT"), "");
+		} else {
+			callback(null, `contents of ${path}`);
+		}
+	};
+
+	it("fromCallback should resolve to Right with the value", async () => {
+		const either = await fromCallback<Error, string>((callback) =>
+			legacyRead("a.txt", callback),
+		);
+
+		expect(either.unwrap()).toBe("contents of a.txt");
+	});
+
+	it("fromCallback should resolve to Left with the error", async () => {
+		const either = await fromCallback<string, string>(
+			(callback) => legacyRead("missing", callback),
+			(e) => (e as Error).message,
+		);
+
+		expect(either.extract()).toBe("ENOENT");
+	});
+
+	it("fromCallback should catch synchronous exceptions", async () => {
+		const either = await fromCallback<unknown, number>(() => {
+			throw "sync failure";
+		});
+
+		expect(either.isLeft()).toBe(true);
+		expect(either.extract()).toBe("sync failure");
+	});
+
+	it("promisifyEither should pass the arguments and infer the types", async () => {
+		const read = promisifyEither(legacyRead);
+		const value: Either<unknown, string> = await read("a.txt");
+		const failed = await promisifyEither(legacyRead, (e) => String(e))(
+			"missing",
+		);
+
+		expect(value.unwrap()).toBe("contents of a.txt");
+		expect(failed.extract()).toBe("Error: ENOENT");
+	});
+
+	it("toCallback should call back with null and the value for Right", () => {
+		const calls: unknown[][] = [];
+
+		toCallback(right<string, number>(42), (...args) => calls.push(args));
+
+		expect(calls).toEqual([[null, 42]]);
+	});
+
+	it("toCallback should call back with the value for Left", () => {
+		const calls: unknown[][] = [];
+
+		toCallback(left<string, number>("boom"), (...args) => calls.push(args));
+
+		expect(calls).toEqual([["boom"]]);
+	});
+
+	it("toCallback should await a Promise of an Either", async () => {
+		const { promise, resolve } = Promise.withResolvers<unknown[]>();
+
+		toCallback(Promise.resolve(right<string, number>(1)), (...args) =>
+			resolve(args),
+		);
+
+		expect(await promise).toEqual([null, 1]);
+	});
+
+	it("toCallback should pass a rejection to the callback", async () => {
+		const { promise, resolve } = Promise.withResolvers<unknown[]>();
+		const failure = new Error("boom");
+
+		toCallback(Promise.reject<Either<Error, number>>(failure), (...args) =>
+			resolve(args),
+		);
+
+		expect(await promise).toEqual([failure]);
+	});
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "bun:test";
+import { left, right } from "../src/either";
+import { just, nothing } from "../src/maybe";
+import { err, ok } from "../src/result";
+import { combineHashes, deepEqual, hash, structuralEq } from "../src/utils/eq";
+
+describe("deepEqual", () => {
+	it("should compare primitives", () => {
+		expect(deepEqual(1, 1)).toBe(true);
+		expect(deepEqual("a", "b")).toBe(false);
+		expect(deepEqual(0, -0)).toBe(true);
+		expect(deepEqual(null, undefined)).toBe(false);
+		expect(deepEqual(1, "1")).toBe(false);
+	});
+
+	it("should treat NaN as equal to itself", () => {
+		expect(deepEqual(Number.NaN, Number.NaN)).toBe(true);
+		expect(deepEqual(Number.NaN, 1)).toBe(false);
+	});
+
+	it("should compare arrays and plain objects", () => {
+		expect(deepEqual([1, [2, 3]], [1, [2, 3]])).toBe(true);
+		expect(deepEqual([1, 2], [1, 2, 3])).toBe(false);
+		expect(deepEqual({ a: 1, b: { c: [1] } }, { b: { c: [1] }, a: 1 })).toBe(
+			true,
+		);
+		expect(deepEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+		expect(deepEqual({ a: 1, b: undefined }, { a: 1, c: undefined })).toBe(
+			false,
+		);
+		expect(deepEqual({ a: 1 }, null)).toBe(false);
+	});
+
+	it("should not treat arrays and objects with different prototypes as equal", () => {
+		expect(deepEqual([], {})).toBe(false);
+		expect(deepEqual(new Date(0), {})).toBe(false);
+	});
+
+	it("should compare Dates and RegExps", () => {
+		expect(deepEqual(new Date(0), new Date(0))).toBe(true);
+		expect(deepEqual(new Date(0), new Date(1))).toBe(false);
+		expect(deepEqual(new Date(Number.NaN), new Date(Number.NaN))).toBe(true);
+		expect(deepEqual(/a/g, /a/g)).toBe(true);
+		expect(deepEqual(/a/g, /a/i)).toBe(false);
+	});
+
+	it("should compare Maps", () => {
+		expect(
+			deepEqual(new Map([["a", { x: 1 }]]), new Map([["a", { x: 1 }]])),
+		).toBe(true);
+		expect(deepEqual(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+		expect(deepEqual(new Map([["a", 1]]), new Map([["b", 1]]))).toBe(false);
+		expect(deepEqual(new Map([["a", 1]]), new Map())).toBe(false);
+	});
+
+	it("should compare Sets", () => {
+		expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+		expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(true);
+		expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 2 }]))).toBe(false);
+		expect(deepEqual(new Set([1]), new Set([1, 2]))).toBe(false);
+	});
+
+	it("should compare nested Maybe, Either and Result", () => {
+		expect(deepEqual(just(ok({ a: 1 })), just(ok({ a: 1 })))).toBe(true);
+		expect(deepEqual(just(ok(1)), just(err(1)))).toBe(false);
+		expect(deepEqual(left([1]), left([1]))).toBe(true);
+		expect(deepEqual(left(1), right(1))).toBe(false);
+		expect(deepEqual(nothing(), nothing())).toBe(true);
+	});
+
+	it("should handle cyclic structures", () => {
+		type Node = { id: number; next?: Node };
+		const a: Node = { id: 1 };
+		a.next = a;
+		const b: Node = { id: 1 };
+		b.next = b;
+		expect(deepEqual(a, b)).toBe(true);
+		expect(hash(a)).toBe(hash(b));
+	});
+
+	it("should compare Errors by name, message, cause and own fields", () => {
+		expect(deepEqual(new Error("a"), new Error("a"))).toBe(true);
+		expect(deepEqual(new Error("a"), new Error("b"))).toBe(false);
+		expect(deepEqual(new TypeError("a"), new RangeError("a"))).toBe(false);
+		expect(
+			deepEqual(new Error("a", { cause: 1 }), new Error("a", { cause: 2 })),
+		).toBe(false);
+		expect(
+			deepEqual(
+				Object.assign(new Error("a"), { code: 1 }),
+				Object.assign(new Error("a"), { code: 2 }),
+			),
+		).toBe(false);
+		expect(err(new Error("a")).equals(err(new Error("b")))).toBe(false);
+		expect(err(new Error("a")).equals(err(new Error("a")))).toBe(true);
+	});
+});
+
+describe("hash", () => {
+	it("should return the same hash for structurally equal values", () => {
+		const shared = { x: 1 };
+		const values: [unknown, unknown][] = [
+			[
+				{ a: 1, b: [2] },
+				{ b: [2], a: 1 },
+			],
+			[new Date(5), new Date(5)],
+			[/a/g, /a/g],
+			[new Map([["k", [1]]]), new Map([["k", [1]]])],
+			[new Set([1, 2]), new Set([2, 1])],
+			[
+				[shared, shared],
+				[{ x: 1 }, { x: 1 }],
+			],
+			[Number.NaN, Number.NaN],
+			[0, -0],
+			[Object.create(null), Object.create(null)],
+		];
+		for (const [a, b] of values) {
+			expect(deepEqual(a, b)).toBe(true);
+			expect(hash(a)).toBe(hash(b));
+		}
+	});
+
+	it("should hash the holes of sparse arrays like undefined", () => {
+		const sparse: unknown[] = [];
+		sparse[1] = 1;
+		expect(deepEqual(sparse, [undefined, 1])).toBe(true);
+		expect(hash(sparse)).toBe(hash([undefined, 1]));
+	});
+
+	it("should usually differ for different values", () => {
+		expect(hash(1)).not.toBe(hash(2));
+		expect(hash(1)).not.toBe(hash("1"));
+		expect(hash([1, 2])).not.toBe(hash([2, 1]));
+		expect(hash({ a: 1 })).not.toBe(hash({ b: 1 }));
+	});
+
+	it("combineHashes should be order-sensitive", () => {
+		expect(combineHashes(1, 2)).not.toBe(combineHashes(2, 1));
+		expect(combineHashes(1, 2)).toBe(combineHashes(1, 2));
+	});
+
+	it("structuralEq should use deepEqual and hash", () => {
+		expect(structuralEq.equals({ a: 1 }, { a: 1 })).toBe(true);
+		expect(structuralEq.hash?.({ a: 1 })).toBe(hash({ a: 1 }));
+	});
+
+	it("should hash Errors by name, message and cause", () => {
+		expect(hash(new Error("a"))).toBe(hash(new Error("a")));
+		expect(hash(new Error("a"))).not.toBe(hash(new Error("b")));
+		expect(hash(new Error("a", { cause: 1 }))).not.toBe(
+			hash(new Error("a", { cause: 2 })),
+		);
+		expect(hash(err(new Error("a")))).not.toBe(hash(err(new Error("b"))));
+	});
+});
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "bun:test";
+import * as E from "../src/either";
+import * as M from "../src/maybe";
+import * as R from "../src/result";
+import { ContextError } from "../src/utils/context";
+import { HttpError, TimeoutError } from "../src/utils/errors";
+import { revive, reviver } from "../src/utils/json";
+import * as V from "../src/validation";
+
+const roundTrip = (value: unknown): unknown =>
+	JSON.parse(JSON.stringify(value), reviver);
+
+describe("toJSON", () => {
+	it("should produce a stable tagged shape for every variant", () => {
+		expect(JSON.stringify(R.ok(42))).toBe('{"_tag":"Ok","value":42}');
+		expect(JSON.stringify(R.err("boom"))).toBe('{"_tag":"Err","error":"boom"}');
+		expect(JSON.stringify(M.just(1))).toBe('{"_tag":"Just","value":1}');
+		expect(JSON.stringify(M.nothing())).toBe('{"_tag":"Nothing"}');
+		expect(JSON.stringify(E.right(1))).toBe('{"_tag":"Right","value":1}');
+		expect(JSON.stringify(E.left("e"))).toBe('{"_tag":"Left","value":"e"}');
+		expect(JSON.stringify(V.valid(1))).toBe('{"_tag":"Valid","value":1}');
+		expect(JSON.stringify(V.invalid("required", "name"))).toBe(
+			'{"_tag":"Invalid","errors":[{"path":"name","error":"required"}]}',
+		);
+	});
+
+	it("should encode nested values and Errors deeply", () => {
+		const cause = new Error("root");
+		const json = R.ok({
+			items: [M.just(1), M.nothing()],
+			error: new TypeError("boom", { cause }),
+		}).toJSON();
+
+		expect(json).toEqual({
+			_tag: "Ok",
+			value: {
+				items: [{ _tag: "Just", value: 1 }, { _tag: "Nothing" }],
+				error: {
+					_tag: "Error",
+					name: "TypeError",
+					message: "boom",
+					stack: expect.any(String),
+					cause: {
+						_tag: "Error",
+						name: "Error",
+						message: "root",
+						stack: expect.any(String),
+					},
+				},
+			},
+		});
+	});
+
+	it("should keep other values as they are", () => {
+		const date = new Date(0);
+		const json = R.ok({ date, count: 1 }).toJSON() as {
+			value: { date: Date };
+		};
+		expect(json.value.date).toBe(date);
+	});
+});
+
+describe("fromJSON", () => {
+	it("should rebuild Results", () => {
+		const ok = R.fromJSON<number, string>(roundTrip(R.ok(42)));
+		expect(ok).toBeInstanceOf(R.Ok);
+		expect(ok.unwrap()).toBe(42);
+
+		const err = R.fromJSON<number, string>(
+			JSON.parse('{"_tag":"Err","error":"boom"}'),
+		);
+		expect(err.unwrapErr()).toBe("boom");
+	});
+
+	it("should rebuild Maybes, Eithers and Validations", () => {
+		expect(M.fromJSON(roundTrip(M.just(1)))).toEqual(M.just(1));
+		expect(M.fromJSON(roundTrip(M.nothing()))).toBeInstanceOf(M.Nothing);
+		expect(E.fromJSON(roundTrip(E.left("e")))).toEqual(E.left("e"));
+		expect(E.fromJSON(roundTrip(E.right(1)))).toEqual(E.right(1));
+		expect(V.fromJSON(roundTrip(V.valid(1)))).toEqual(V.valid(1));
+		expect(V.fromJSON(roundTrip(V.invalid("required", "name")))).toEqual(
+			V.invalid("required", "name"),
+		);
+	});
+
+	it("should rebuild nested instances", () => {
+		const value = R.ok({ user: M.just({ id: 1 }), tags: [E.right("a")] });
+		const revived = R.fromJSON(JSON.parse(JSON.stringify(value)));
+		expect(revived.equals(value)).toBe(true);
+	});
+
+	it("should rebuild Errors with name, message, stack and cause", () => {
+		const cause = new RangeError("out of range");
+		const error = new TypeError("boom", { cause });
+		const revived = R.fromJSON<never, Error>(
+			roundTrip(R.err(error)),
+		).unwrapErr() as TypeError;
+
+		expect(revived).toBeInstanceOf(TypeError);
+		expect(revived.name).toBe("TypeError");
+		expect(revived.message).toBe("boom");
+		expect(revived.stack).toBe(error.stack as string);
+		expect(revived.cause).toBeInstanceOf(RangeError);
+		expect((revived.cause as Error).message).toBe("out of range");
+	});
+
+	it("should keep the own fields of errors", () => {
+		const http = R.fromJSON<number, HttpError>(
+			roundTrip(R.err(new HttpError(404, "Not Found", "missing", "/a"))),
+		);
+		expect(
+			http.catchTag("HttpError", (error) => R.ok(error.status)).unwrap(),
+		).toBe(404);
+		expect(http.unwrapErr()).toMatchObject({
+			_tag: "HttpError",
+			name: "HttpError",
+			status: 404,
+			statusText: "Not Found",
+			body: "missing",
+			url: "/a",
+		});
+
+		const timeout = revive(
+			roundTrip(new TimeoutError(50)),
+		) as unknown as TimeoutError;
+		expect(timeout._tag).toBe("TimeoutError");
+		expect(timeout.timeoutMs).toBe(50);
+
+		const context = revive(
+			roundTrip(new ContextError("loading", new TimeoutError(50))),
+		) as unknown as ContextError<TimeoutError>;
+		expect(context._tag).toBe("ContextError");
+		expect(context.context).toBe("loading");
+		expect(context.cause.timeoutMs).toBe(50);
+	});
+
+	it("should keep the name of custom errors", () => {
+		class NotFoundError extends Error {
+			override name = "NotFoundError";
+		}
+		const revived = revive({
+			_tag: "Error",
+			name: "NotFoundError",
+			message: "missing",
+		}) as Error;
+		expect(revived).toBeInstanceOf(Error);
+		expect(revived.name).toBe("NotFoundError");
+		expect(String(revived)).toBe(String(new NotFoundError("missing")));
+		expect(Object.keys(revived)).toEqual([]);
+	});
+
+	it("should throw a TypeError for values of another type", () => {
+		expect(() => R.fromJSON({ _tag: "Just", value: 1 })).toThrow(TypeError);
+		expect(() => M.fromJSON({ _tag: "Ok", value: 1 })).toThrow(
+			"Expected the JSON of a Maybe",
+		);
+		expect(() => E.fromJSON(42)).toThrow("Expected the JSON of an Either");
+		expect(() => V.fromJSON(null)).toThrow("Expected the JSON of a Validation");
+	});
+});
+
+describe("revive and reviver", () => {
+	it("should survive structuredClone", () => {
+		const value = R.err({ reason: M.just("timeout"), error: new Error("x") });
+		const cloned = revive(structuredClone(value.toJSON())) as R.Result<
+			never,
+			{ reason: M.Maybe<string>; error: Error }
+		>;
+		expect(cloned).toBeInstanceOf(R.Err);
+		expect(cloned.unwrapErr().reason.unwrap()).toBe("timeout");
+		expect(cloned.unwrapErr().error).toBeInstanceOf(Error);
+	});
+
+	it("should revive tagged values anywhere in a JSON document", () => {
+		const document = roundTrip({
+			results: [R.ok(1), R.err("e")],
+			user: M.nothing(),
+		}) as { results: R.Result<number, string>[]; user: M.Maybe<unknown> };
+		expect(document.results[0]).toBeInstanceOf(R.Ok);
+		expect(document.results[1]).toBeInstanceOf(R.Err);
+		expect(document.user).toBeInstanceOf(M.Nothing);
+	});
+
+	it("should leave objects that do not match a wire shape untouched", () => {
+		const values = [
+			{ _tag: "Ok" },
+			{ _tag: "Ok", value: 1, extra: true },
+			{ _tag: "Err", value: 1 },
+			{ _tag: "Just" },
+			{ _tag: "Nothing", value: 1 },
+			{ _tag: "Right" },
+			{ _tag: "Left" },
+			{ _tag: "Valid" },
+			{ _tag: "Invalid", errors: "nope" },
+			{ _tag: "Error", message: 1 },
+			{ _tag: "Error", name: "Error", message: "boom", fields: 1 },
+			{ _tag: "NotFound", id: 1 },
+			{ id: 1 },
+		];
+		expect(roundTrip(values)).toEqual(values);
+		expect(revive(values)).toEqual(values);
+		expect(revive("text")).toBe("text");
+	});
+});
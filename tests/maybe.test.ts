@@ -1,19 +1,47 @@
 import { describe, expect, it } from "bun:test";
 import { pipe } from "rambda";
+import { type Either, Right } from "../src/either";
 import {
 	all,
+	ap,
 	chain,
 	equals,
+	expect as expectJust,
 	filter,
+	firstJust,
+	flatten,
+	fromFalsy,
 	fromNullable,
+	fromPredicate,
+	gen,
+	hash,
+	isJust,
+	isNothing,
 	Just,
 	just,
+	lift2,
+	lift3,
+	type Maybe,
 	map,
 	match,
 	Nothing,
 	nothing,
+	or,
+	orElse,
+	struct,
+	toEither,
+	toNullable,
+	toResult,
+	toUndefined,
+	unwrap,
 	unwrapOr,
+	unwrapOrElse,
+	zip,
+	zipWith,
 } from "../src/maybe";
+import { Ok, type Result } from "../src/result";
+import type { Eq, HashEq } from "../src/utils/eq";
+import { UnwrapError } from "../src/utils/errors";
 
 describe("Maybe", () => {
 	it("Just.isJust() should return true", () => {
@@ -312,3 +340,347 @@ describe("Maybe - Curried Helpers", () => {
 		expect(result.unwrapOr([])).toEqual(["Alice", "Bob", "Carol"]);
 	});
 });
+
+describe("Maybe gen", () => {
+	const users = new Map([
+		[1, { name: "Alice", address: { city: "Recife" } }],
+		[2, { name: "Bob", address: undefined }],
+	]);
+
+	it("should unwrap Just values and return Just with the final value", () => {
+		const city = gen(function* ($) {
+			const user = yield* $(fromNullable(users.get(1)));
+			const address = yield* $(fromNullable(user.address));
+			return address.city;
+		});
+		const typed: Maybe<string> = city;
+		expect(typed.unwrapOr("")).toBe("Recife");
+	});
+
+	it("should short-circuit on the first Nothing", () => {
+		let reached = false;
+		const city = gen(function* ($) {
+			const user = yield* $(fromNullable(users.get(2)));
+			const address = yield* $(fromNullable(user.address));
+			reached = true;
+			return address.city;
+		});
+		expect(reached).toBe(false);
+		expect(city.isNothing()).toBe(true);
+	});
+});
+
+describe("Maybe equality and hashing", () => {
+	const byId: HashEq<{ id: number; name: string }> = {
+		equals: (a, b) => a.id === b.id,
+		hash: (a) => a.id,
+	};
+
+	it("equals should compare values structurally", () => {
+		expect(
+			just({ id: 1, tags: ["a"] }).equals(just({ id: 1, tags: ["a"] })),
+		).toBe(true);
+		expect(just([1, 2]).equals(just([1, 3]))).toBe(false);
+		expect(just(just(new Date(0))).equals(just(just(new Date(0))))).toBe(true);
+		expect(just(Number.NaN).equals(just(Number.NaN))).toBe(true);
+	});
+
+	it("equals should accept a custom Eq instance", () => {
+		const a = just({ id: 1, name: "a" });
+		const b = just({ id: 1, name: "b" });
+		expect(a.equals(b)).toBe(false);
+		expect(a.equals(b, byId)).toBe(true);
+	});
+
+	it("hash should match for equal Maybes", () => {
+		expect(just({ id: 1 }).hash()).toBe(just({ id: 1 }).hash());
+		expect(nothing().hash()).toBe(nothing().hash());
+		expect(just(1).hash()).not.toBe(nothing<number>().hash());
+		expect(just({ id: 1, name: "a" }).hash(byId)).toBe(
+			just({ id: 1, name: "b" }).hash(byId),
+		);
+	});
+
+	it("hash should require an Eq with a hash", () => {
+		const eq: Eq<number[]> = { equals: (a, b) => a.length === b.length };
+		// @ts-expect-error a hash computed without eq.hash could differ for equal values
+		expect(() => just([1]).hash(eq)).toThrow(TypeError);
+	});
+
+	it("curried equals and hash should accept an Eq instance", () => {
+		const a = just({ id: 1, name: "a" });
+		const b = just({ id: 1, name: "b" });
+		expect(pipe(a, equals(b, byId))).toBe(true);
+		expect(pipe(a, hash(byId))).toBe(b.hash(byId));
+		expect(pipe(nothing(), hash())).toBe(nothing().hash());
+	});
+});
+
+describe("Type guards", () => {
+	const head = <T>(items: T[]): Maybe<T> => fromNullable(items[0]);
+
+	it("isJust should narrow to Just and expose value", () => {
+		const maybe = head([42]);
+		if (maybe.isJust()) {
+			const value: number = maybe.value;
+			expect(value).toBe(42);
+		} else {
+			throw new Error("expected Just");
+		}
+	});
+
+	it("isNothing should not narrow the other branch to never", () => {
+		const describe = (maybe: Maybe<number>): string => {
+			if (maybe.isNothing()) {
+				return "empty";
+			}
+			return `${maybe.unwrapOr(0)}`;
+		};
+		expect(describe(head<number>([]))).toBe("empty");
+		expect(describe(head([7]))).toBe("7");
+	});
+
+	it("standalone guards should filter arrays of Maybes", () => {
+		const maybes = [just(1), nothing<number>(), just(3)];
+		const values: number[] = maybes.filter(isJust).map((m) => m.value);
+		expect(values).toEqual([1, 3]);
+		expect(maybes.filter(isNothing)).toHaveLength(1);
+	});
+});
+
+describe("Extraction", () => {
+	it("unwrap should return the value or throw for Nothing", () => {
+		expect(just(42).unwrap()).toBe(42);
+		expect(() => nothing().unwrap()).toThrow(
+			new UnwrapError("Called unwrap on a Nothing value"),
+		);
+	});
+
+	it("expect should return the value or throw with the given message", () => {
+		expect(just(42).expect("must be set")).toBe(42);
+		expect(() => nothing().expect("must be set")).toThrow(UnwrapError);
+	});
+
+	it("unwrapOrElse should compute the fallback lazily", () => {
+		let calls = 0;
+		const fallback = () => {
+			calls++;
+			return 0;
+		};
+		expect(just(42).unwrapOrElse(fallback)).toBe(42);
+		expect(calls).toBe(0);
+		expect(nothing<number>().unwrapOrElse(fallback)).toBe(0);
+		expect(calls).toBe(1);
+	});
+
+	it("toNullable and toUndefined should convert Nothing to null and undefined", () => {
+		expect(just(42).toNullable()).toBe(42);
+		expect(nothing().toNullable()).toBeNull();
+		expect(just(42).toUndefined()).toBe(42);
+		expect(nothing().toUndefined()).toBeUndefined();
+	});
+
+	it("curried extraction helpers should work in pipelines", () => {
+		expect(
+			pipe(
+				just(41),
+				map((x) => x + 1),
+				unwrap(),
+			),
+		).toBe(42);
+		expect(pipe(just(1), expectJust("must be set"))).toBe(1);
+		expect(
+			pipe(
+				nothing<number>(),
+				unwrapOrElse(() => 7),
+			),
+		).toBe(7);
+		expect(pipe(nothing<number>(), toNullable())).toBeNull();
+		expect(pipe(nothing<number>(), toUndefined())).toBeUndefined();
+	});
+});
+
+describe("Record combinators", () => {
+	it("struct should combine a record of Justs", () => {
+		const maybe = struct({ name: just("Alice"), age: just(30) });
+		const typed: Maybe<{ name: string; age: number }> = maybe;
+		expect(typed.unwrap()).toEqual({ name: "Alice", age: 30 });
+	});
+
+	it("struct should return Nothing if any field is Nothing", () => {
+		expect(
+			struct({ name: just("Alice"), age: nothing<number>() }).isNothing(),
+		).toBe(true);
+	});
+});
+
+describe("Conversions", () => {
+	it("toResult and toEither should convert Just and Nothing", () => {
+		expect(just(42).toResult(() => "missing")).toBeInstanceOf(Ok);
+		expect(
+			just(42)
+				.toResult(() => "missing")
+				.unwrap(),
+		).toBe(42);
+		expect(
+			nothing()
+				.toResult(() => "missing")
+				.unwrapErr(),
+		).toBe("missing");
+		expect(just(42).toEither(() => "missing")).toBeInstanceOf(Right);
+		expect(
+			nothing()
+				.toEither(() => "missing")
+				.unwrapLeft(),
+		).toBe("missing");
+	});
+
+	it("toResult and toEither should work in pipelines", () => {
+		const result: Result<number, string> = pipe(
+			fromNullable<number>(null),
+			toResult(() => "missing"),
+		);
+		expect(result.unwrapErr()).toBe("missing");
+		const either: Either<string, number> = pipe(
+			just(1),
+			toEither(() => "missing"),
+		);
+		expect(either.unwrap()).toBe(1);
+	});
+
+	it("fromPredicate should keep values that satisfy the predicate", () => {
+		const adult = (n: number) => n >= 18;
+		expect(fromPredicate(20, adult).unwrap()).toBe(20);
+		expect(fromPredicate(15, adult).isNothing()).toBe(true);
+		expect(pipe(20, fromPredicate(adult)).unwrap()).toBe(20);
+		expect(pipe(15, fromPredicate(adult)).isNothing()).toBe(true);
+	});
+
+	it("fromFalsy should turn falsy values into Nothing", () => {
+		for (const value of [false, 0, 0n, "", null, undefined, Number.NaN]) {
+			expect(fromFalsy(value).isNothing()).toBe(true);
+		}
+		const name: Maybe<string> = fromFalsy<string | undefined>("Alice");
+		expect(name.unwrap()).toBe("Alice");
+		expect(pipe(0, fromFalsy).isNothing()).toBe(true);
+	});
+});
+
+describe("Applicative helpers", () => {
+	it("zip and zipWith should combine two Justs", () => {
+		const zipped: Maybe<[number, string]> = just(1).zip(just("a"));
+		expect(zipped.unwrap()).toEqual([1, "a"]);
+		expect(just(1).zip(nothing()).isNothing()).toBe(true);
+		expect(nothing<number>().zip(just("a")).isNothing()).toBe(true);
+		expect(
+			just("a")
+				.zipWith(just(3), (s, n) => s.repeat(n))
+				.unwrap(),
+		).toBe("aaa");
+		expect(
+			nothing<string>()
+				.zipWith(just(3), (s, n) => s.repeat(n))
+				.isNothing(),
+		).toBe(true);
+	});
+
+	it("ap should apply a function inside Just", () => {
+		const inc = just((x: number) => x + 1);
+		expect(inc.ap(just(41)).unwrap()).toBe(42);
+		expect(inc.ap(nothing()).isNothing()).toBe(true);
+		expect(nothing<(x: number) => number>().ap(just(1)).isNothing()).toBe(true);
+	});
+
+	it("curried helpers and lift should work in pipelines", () => {
+		expect(pipe(just(1), zip(just("a"))).unwrap()).toEqual([1, "a"]);
+		expect(
+			pipe(
+				just(2),
+				zipWith(just(3), (a: number, b: number) => a * b),
+			).unwrap(),
+		).toBe(6);
+		expect(
+			pipe(
+				just((s: string) => s.length),
+				ap(just("abc")),
+			).unwrap(),
+		).toBe(3);
+
+		const repeat = lift2((s: string, n: number) => s.repeat(n));
+		expect(repeat(just("a"), just(2)).unwrap()).toBe("aa");
+		const sum = lift3((a: number, b: number, c: number) => a + b + c);
+		expect(sum(just(1), just(2), just(3)).unwrap()).toBe(6);
+		expect(sum(just(1), nothing(), just(3)).isNothing()).toBe(true);
+	});
+});
+
+describe("First success", () => {
+	it("or should keep a Just and fall back for Nothing", () => {
+		expect(just(1).or(just(2)).unwrap()).toBe(1);
+		expect(nothing<number>().or(just(2)).unwrap()).toBe(2);
+		expect(pipe(nothing<number>(), or(nothing())).isNothing()).toBe(true);
+	});
+
+	it("orElse should only compute the fallback for Nothing", () => {
+		let calls = 0;
+		const fallback = () => {
+			calls++;
+			return just(2);
+		};
+		expect(just(1).orElse(fallback).unwrap()).toBe(1);
+		expect(calls).toBe(0);
+		expect(pipe(nothing<number>(), orElse(fallback)).unwrap()).toBe(2);
+		expect(calls).toBe(1);
+	});
+
+	it("firstJust should return the first Just, or Nothing", () => {
+		expect(firstJust([nothing<number>(), just(1), just(2)]).unwrap()).toBe(1);
+		expect(firstJust([nothing(), () => nothing()]).isNothing()).toBe(true);
+		expect(firstJust([]).isNothing()).toBe(true);
+	});
+
+	it("firstJust should only call thunks until one has a value", () => {
+		const calls: string[] = [];
+		const source = (name: string, maybe: Maybe<number>) => () => {
+			calls.push(name);
+			return maybe;
+		};
+
+		const maybe = firstJust([
+			source("cache", nothing()),
+			source("db", just(42)),
+			source("default", just(0)),
+		]);
+
+		expect(maybe.unwrap()).toBe(42);
+		expect(calls).toEqual(["cache", "db"]);
+	});
+});
+
+describe("Maybe flatten", () => {
+	it("should collapse nested Maybes", () => {
+		const flat: Maybe<number> = just(just(1)).flatten();
+		expect(flat.unwrap()).toBe(1);
+		expect(pipe(just(nothing<number>()), flatten()).isNothing()).toBe(true);
+		expect(nothing<Maybe<number>>().flatten().isNothing()).toBe(true);
+	});
+});
+
+describe("Maybe values", () => {
+	it("should yield the Just value, or nothing for Nothing", () => {
+		expect([...just(42).values()]).toEqual([42]);
+		expect([...nothing().values()]).toEqual([]);
+		const maybes = [just(1), nothing<number>(), just(3)];
+		expect(maybes.flatMap((maybe) => [...maybe.values()])).toEqual([1, 3]);
+	});
+
+	it("should make the Maybe itself iterable over the Just value", () => {
+		expect([...just(42)]).toEqual([42]);
+		expect([...nothing()]).toEqual([]);
+		const values: number[] = [];
+		for (const value of just(7)) {
+			values.push(value);
+		}
+		expect(values).toEqual([7]);
+	});
+});
@@ -1,24 +1,100 @@
-import { describe, expect, it } from "bun:test";
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
 import { pipe } from "rambda";
+import { number, object, string } from "../src/decoder";
+import { type Either, Right } from "../src/either";
+import { Just, type Maybe, Nothing } from "../src/maybe";
 import {
+	AsyncResult,
 	all,
+	ap,
+	bimap,
+	bracket,
+	catchTag,
+	catchTags,
 	chain,
+	chainAsync,
+	collect,
+	collectAsync,
+	context,
 	Err,
 	equals,
 	err,
+	errAsync,
+	errorChain,
+	expect as expectOk,
+	firstOk,
+	flatten,
+	fold,
+	formatErrorChain,
 	fromAsync,
+	fromCallback,
+	fromFetch,
+	fromNullable,
+	fromPredicate,
 	fromPromise,
 	fromThrowable,
+	gen,
+	genAsync,
+	hash,
+	isErr,
+	isOk,
+	lift2,
+	lift3,
 	map,
+	mapAsync,
 	mapErr,
+	mapErrAsync,
+	mapStream,
 	match,
+	matchAsync,
+	matchTag,
 	Ok,
 	ok,
+	okAsync,
+	or,
+	orElse,
 	partition,
+	partitionStream,
+	promisifyResult,
+	type Result,
+	recover,
+	recoverWhen,
+	retry,
+	safeAll,
+	safeFn,
+	safeFnAsync,
 	sequence,
+	struct,
+	swap,
+	toCallback,
+	toEither,
+	toMaybe,
+	toNullable,
+	toUndefined,
+	traverseAsync,
+	unwrap,
+	unwrapErr,
 	unwrapOr,
+	unwrapOrAsync,
+	unwrapOrElse,
 	validate,
+	validateAsync,
+	withContext,
+	zip,
+	zipWith,
 } from "../src/result";
+import type { CancelError } from "../src/utils/cancel";
+import { ContextError } from "../src/utils/context";
+import type { Eq, HashEq } from "../src/utils/eq";
+import {
+	AbortedError,
+	HttpError,
+	NetworkError,
+	ReleaseError,
+	ResponseDecodeError,
+	TimeoutError,
+	UnwrapError,
+} from "../src/utils/errors";
 
 describe("Result", () => {
 	it("Ok.map should apply the function", () => {
@@ -237,6 +313,177 @@ describe("Result fromAsync", () => {
 	});
 });
 
+describe("AsyncResult", () => {
+	it("should be awaitable and resolve to the wrapped Result", async () => {
+		const result = await new AsyncResult(Promise.resolve(ok(42)));
+		expect(result.isOk()).toBe(true);
+		expect(result.unwrapOr(0)).toBe(42);
+	});
+
+	it("should accept a plain Result", async () => {
+		const result = await new AsyncResult(err<number, string>("fail"));
+		expect(result.isErr()).toBe(true);
+	});
+
+	it("then should forward rejections of the underlying promise", async () => {
+		const asyncResult = new AsyncResult<number, string>(
+			Promise.reject(new Error("boom")),
+		);
+		const message = await asyncResult.then(
+			() => "",
+			(e) => (e as Error).message,
+		);
+		expect(message).toBe("boom");
+	});
+
+	it("should keep working where a Promise of a Result is expected", async () => {
+		const promise: Promise<Result<number, unknown>> = fromAsync(async () => 1);
+		const settled: string[] = [];
+
+		const caught = await fromAsync(async () => 1)
+			.map((): number => {
+				throw new Error("boom");
+			})
+			.catch((e) => (e as Error).message);
+		const result = await fromPromise(Promise.resolve(2)).finally(() =>
+			settled.push("done"),
+		);
+
+		expect((await promise).unwrap()).toBe(1);
+		expect(caught).toBe("boom");
+		expect(result.unwrap()).toBe(2);
+		expect(settled).toEqual(["done"]);
+		expect(Object.prototype.toString.call(promise)).toBe(
+			"[object AsyncResult]",
+		);
+	});
+
+	it("fromPromise and fromAsync should return an AsyncResult", () => {
+		expect(fromPromise(Promise.resolve(1))).toBeInstanceOf(AsyncResult);
+		expect(fromAsync(async () => 1)).toBeInstanceOf(AsyncResult);
+	});
+
+	it("fromAsync should catch synchronous throws from the function", async () => {
+		const result = await fromAsync<number, string>(
+			() => {
+				throw new Error("sync");
+			},
+			(e) => (e as Error).message,
+		);
+		expect(result.match({ ok: () => "", err: (e) => e })).toBe("sync");
+	});
+
+	it("map should transform the Ok value", async () => {
+		const result = await okAsync<number, string>(5).map((x) => x * 2);
+		expect(result.unwrapOr(0)).toBe(10);
+	});
+
+	it("map should not run on Err", async () => {
+		let called = false;
+		const result = await errAsync<number, string>("fail").map((x) => {
+			called = true;
+			return x * 2;
+		});
+		expect(called).toBe(false);
+		expect(result.isErr()).toBe(true);
+	});
+
+	it("mapErr should transform the error", async () => {
+		const result = await errAsync<number, string>("fail").mapErr(
+			(e) => `Error: ${e}`,
+		);
+		expect(result.match({ ok: () => "", err: (e) => e })).toBe("Error: fail");
+	});
+
+	it("chain should accept a sync Result-returning function", async () => {
+		const result = await okAsync<number, string>(5).chain((x) =>
+			x > 0 ? ok(x * 2) : err("negative"),
+		);
+		expect(result.unwrapOr(0)).toBe(10);
+	});
+
+	it("chain should accept an async Result-returning function", async () => {
+		const result = await okAsync<number, string>(5).chain(async (x) =>
+			ok(x + 1),
+		);
+		expect(result.unwrapOr(0)).toBe(6);
+	});
+
+	it("chain should accept an AsyncResult-returning function", async () => {
+		const result = await okAsync<number, string>(5).chain((x) =>
+			fromAsync<number, string>(async () => x * 3),
+		);
+		expect(result.unwrapOr(0)).toBe(15);
+	});
+
+	it("chain should short-circuit on Err", async () => {
+		let called = false;
+		const result = await errAsync<number, string>("fail").chain(async (x) => {
+			called = true;
+			return ok<number, string>(x);
+		});
+		expect(called).toBe(false);
+		expect(result.match({ ok: () => "", err: (e) => e })).toBe("fail");
+	});
+
+	it("validate should convert Ok to Err when predicate fails", async () => {
+		const result = await okAsync<number, string>(15).validate(
+			(x) => x >= 18,
+			"Must be 18+",
+		);
+		expect(result.match({ ok: () => "", err: (e) => e })).toBe("Must be 18+");
+	});
+
+	it("unwrapOr should resolve to the value or the default", async () => {
+		expect(await okAsync<number, string>(42).unwrapOr(0)).toBe(42);
+		expect(await errAsync<number, string>("fail").unwrapOr(0)).toBe(0);
+	});
+
+	it("match should resolve to the matched branch", async () => {
+		const message = await fromPromise<number, string>(
+			Promise.reject(new Error("boom")),
+			(e) => (e as Error).message,
+		).match({
+			ok: (x) => `Success: ${x}`,
+			err: (e) => `Error: ${e}`,
+		});
+		expect(message).toBe("Error: boom");
+	});
+
+	it("should compose several async steps before a single await", async () => {
+		const name = await fromAsync<{ name: string }, string>(async () => ({
+			name: "alice",
+		}))
+			.map((user) => user.name)
+			.chain(async (n) =>
+				n ? ok<string, string>(n) : err<string, string>("empty"),
+			)
+			.map((n) => n.toUpperCase())
+			.unwrapOr("anonymous");
+		expect(name).toBe("ALICE");
+	});
+
+	it("curried async helpers should work in pipelines", async () => {
+		const result = await pipe(
+			okAsync<number, string>(5),
+			mapAsync((x) => x * 2),
+			chainAsync(async (x) => ok<number, string>(x + 1)),
+			validateAsync((x) => x > 10, "too small"),
+			unwrapOrAsync(0),
+		);
+		expect(result).toBe(11);
+	});
+
+	it("curried async helpers should accept a Promise of a Result", async () => {
+		const result = await pipe(
+			Promise.resolve(err<number, string>("fail")),
+			mapErrAsync((e) => `Error: ${e}`),
+			matchAsync({ ok: () => "", err: (e) => e }),
+		);
+		expect(result).toBe("Error: fail");
+	});
+});
+
 describe("Result - Curried Helpers", () => {
 	it("should apply curried map function to Ok", () => {
 		const result = pipe(
@@ -503,3 +750,1850 @@ describe("Result - Curried Helpers", () => {
 		expect(errs).toEqual([]);
 	});
 });
+
+describe("Result gen", () => {
+	type NotFound = { _tag: "NotFound" };
+	type Invalid = { _tag: "Invalid"; reason: string };
+
+	const findUser = (
+		id: number,
+	): Result<{ id: number; age: number }, NotFound> =>
+		id === 1 ? ok({ id, age: 30 }) : err({ _tag: "NotFound" });
+
+	const checkAge = (age: number): Result<number, Invalid> =>
+		age >= 18 ? ok(age) : err({ _tag: "Invalid", reason: "underage" });
+
+	it("should unwrap Ok values and return Ok with the final value", () => {
+		const result = gen(function* ($) {
+			const user = yield* $(findUser(1));
+			const age = yield* $(checkAge(user.age));
+			return { id: user.id, age };
+		});
+		const typed: Result<{ id: number; age: number }, NotFound | Invalid> =
+			result;
+		expect(typed.isOk()).toBe(true);
+		expect(typed.unwrapOr({ id: 0, age: 0 })).toEqual({ id: 1, age: 30 });
+	});
+
+	it("should short-circuit on the first Err", () => {
+		let reached = false;
+		const result = gen(function* ($) {
+			const user = yield* $(findUser(2));
+			reached = true;
+			return yield* $(checkAge(user.age));
+		});
+		expect(reached).toBe(false);
+		expect(result.match({ ok: () => "", err: (e) => e._tag })).toBe("NotFound");
+	});
+
+	it("should run finally blocks when short-circuiting", () => {
+		let cleaned = false;
+		const result = gen(function* ($) {
+			try {
+				return yield* $(err<number, string>("fail"));
+			} finally {
+				cleaned = true;
+			}
+		});
+		expect(cleaned).toBe(true);
+		expect(result.isErr()).toBe(true);
+	});
+
+	it("should return Ok when only Ok values are yielded", () => {
+		const result = gen(function* ($) {
+			return yield* $(ok<number, string>(42));
+		});
+		expect(result.unwrapOr(0)).toBe(42);
+	});
+});
+
+describe("Result genAsync", () => {
+	it("should unwrap Results, AsyncResults and Promises of Results", async () => {
+		const result = await genAsync(async function* ($) {
+			const a = yield* $(ok<number, string>(1));
+			const b = yield* $(
+				fromAsync(
+					async () => 2,
+					() => "async error",
+				),
+			);
+			const c = yield* $(Promise.resolve(ok<number, number>(3)));
+			return a + b + c;
+		});
+		const typed: Result<number, string | number> = result;
+		expect(typed.unwrapOr(0)).toBe(6);
+	});
+
+	it("should short-circuit on the first Err", async () => {
+		let reached = false;
+		const result = await genAsync(async function* ($) {
+			yield* $(errAsync<number, string>("first"));
+			reached = true;
+			return yield* $(err<number, string>("second"));
+		});
+		expect(reached).toBe(false);
+		expect(result.match({ ok: () => "", err: (e) => e })).toBe("first");
+	});
+
+	it("should return an AsyncResult", () => {
+		const result = genAsync(async function* ($) {
+			return yield* $(ok<number, string>(1));
+		});
+		expect(result).toBeInstanceOf(AsyncResult);
+	});
+});
+
+describe("Result equality and hashing", () => {
+	const byId: HashEq<{ id: number; name: string }> = {
+		equals: (a, b) => a.id === b.id,
+		hash: (a) => a.id,
+	};
+
+	it("equals should compare Ok values structurally", () => {
+		expect(ok({ id: 1, tags: ["a"] }).equals(ok({ id: 1, tags: ["a"] }))).toBe(
+			true,
+		);
+		expect(ok({ id: 1 }).equals(ok({ id: 2 }))).toBe(false);
+	});
+
+	it("equals should compare Err values structurally", () => {
+		expect(err({ code: 404 }).equals(err({ code: 404 }))).toBe(true);
+		expect(err({ code: 404 }).equals(err({ code: 500 }))).toBe(false);
+	});
+
+	it("equals should compare nested Results", () => {
+		expect(ok(ok([1])).equals(ok(ok([1])))).toBe(true);
+		expect(ok(ok(1)).equals(ok(err(1)))).toBe(false);
+	});
+
+	it("equals should accept custom Eq instances", () => {
+		const a = ok<{ id: number; name: string }, string>({ id: 1, name: "a" });
+		const b = ok<{ id: number; name: string }, string>({ id: 1, name: "b" });
+		expect(a.equals(b)).toBe(false);
+		expect(a.equals(b, byId)).toBe(true);
+
+		const caseInsensitive: Eq<string> = {
+			equals: (x, y) => x.toLowerCase() === y.toLowerCase(),
+		};
+		expect(
+			err<number, string>("FAIL").equals(
+				err("fail"),
+				undefined,
+				caseInsensitive,
+			),
+		).toBe(true);
+	});
+
+	it("hash should match for equal Results and differ between Ok and Err", () => {
+		expect(ok({ id: 1 }).hash()).toBe(ok({ id: 1 }).hash());
+		expect(err([1]).hash()).toBe(err([1]).hash());
+		expect(ok(1).hash()).not.toBe(err(1).hash());
+	});
+
+	it("hash should use the hash of a custom Eq", () => {
+		const a = ok<{ id: number; name: string }, string>({ id: 1, name: "a" });
+		const b = ok<{ id: number; name: string }, string>({ id: 1, name: "b" });
+		expect(a.hash(byId)).toBe(b.hash(byId));
+
+		const byLength: HashEq<string> = {
+			equals: (x, y) => x.length === y.length,
+			hash: (x) => x.length,
+		};
+		expect(err<number, string>("ab").hash(undefined, byLength)).toBe(
+			err<number, string>("cd").hash(undefined, byLength),
+		);
+	});
+
+	it("curried equals and hash should accept Eq instances", () => {
+		const a = ok<{ id: number; name: string }, string>({ id: 1, name: "a" });
+		const b = ok<{ id: number; name: string }, string>({ id: 1, name: "b" });
+		expect(pipe(a, equals(b, byId))).toBe(true);
+		expect(pipe(a, hash(byId))).toBe(b.hash(byId));
+		expect(pipe(ok({ id: 1 }), hash())).toBe(ok({ id: 1 }).hash());
+	});
+});
+
+describe("Result error recovery", () => {
+	type ApiError = { code: 404 } | { code: 500 };
+
+	const isNotFound = (e: ApiError): e is { code: 404 } => e.code === 404;
+
+	it("Err.orElse should switch to the fallback Result", () => {
+		const result = err<number, string>("cache miss").orElse(() => ok(42));
+		expect(result.unwrapOr(0)).toBe(42);
+	});
+
+	it("Err.orElse can produce a new error type", () => {
+		const result = err<number, string>("fail").orElse((e) =>
+			err<number, { message: string }>({ message: e }),
+		);
+		expect(result.match({ ok: () => "", err: (e) => e.message })).toBe("fail");
+	});
+
+	it("Ok.orElse should not call the function", () => {
+		let called = false;
+		const result = ok<number, string>(1).orElse(() => {
+			called = true;
+			return ok(2);
+		});
+		expect(called).toBe(false);
+		expect(result.unwrapOr(0)).toBe(1);
+	});
+
+	it("Err.recover should turn the error into an Ok", () => {
+		const result = err<number, string>("fail").recover((e) => e.length);
+		expect(result.isOk()).toBe(true);
+		expect(result.unwrapOr(0)).toBe(4);
+	});
+
+	it("Ok.recover should keep the value", () => {
+		const result = ok<number, string>(1).recover(() => 0);
+		expect(result.unwrapOr(0)).toBe(1);
+	});
+
+	it("Err.recoverWhen should only recover selected errors", () => {
+		const notFound = err<string | null, ApiError>({ code: 404 }).recoverWhen(
+			isNotFound,
+			() => null,
+		);
+		const narrowed: Result<string | null, { code: 500 }> = notFound;
+		expect(narrowed.isOk()).toBe(true);
+		expect(narrowed.unwrapOr("x")).toBe(null);
+
+		const serverError = err<string | null, ApiError>({ code: 500 }).recoverWhen(
+			isNotFound,
+			() => null,
+		);
+		expect(serverError.isErr()).toBe(true);
+	});
+
+	it("recoverWhen should accept a boolean predicate", () => {
+		const result = err<number, string>("timeout").recoverWhen(
+			(e) => e.startsWith("time"),
+			() => -1,
+		);
+		expect(result.unwrapOr(0)).toBe(-1);
+	});
+
+	it("Ok.recoverWhen should keep the value", () => {
+		const result = ok<number, ApiError>(1).recoverWhen(isNotFound, () => 0);
+		expect(result.unwrapOr(0)).toBe(1);
+	});
+
+	it("curried recovery helpers should work in pipelines", () => {
+		const fromCache = pipe(
+			err<number, string>("cache miss"),
+			orElse(() => err<number, string>("db miss")),
+			recoverWhen(
+				(e: string) => e === "db miss",
+				() => 7,
+			),
+			unwrapOr(0),
+		);
+		expect(fromCache).toBe(7);
+
+		const recovered = pipe(
+			err<number, string>("fail"),
+			recover(() => 1),
+			unwrapOr(0),
+		);
+		expect(recovered).toBe(1);
+	});
+
+	it("curried recoverWhen should narrow with a type guard", () => {
+		const result = pipe(
+			err<string | null, ApiError>({ code: 404 }),
+			recoverWhen(isNotFound, (): string | null => null),
+		);
+		const narrowed: Result<string | null, { code: 500 }> = result;
+		expect(narrowed.isOk()).toBe(true);
+	});
+});
+
+describe("Tagged errors", () => {
+	type NotFound = { _tag: "NotFound"; id: number };
+	type Invalid = { _tag: "Invalid"; reason: string };
+	type UserError = NotFound | Invalid;
+
+	const find = (id: number): Result<string, UserError> =>
+		id === 1
+			? ok("Alice")
+			: id === 2
+				? err({ _tag: "Invalid", reason: "bad id" })
+				: err({ _tag: "NotFound", id });
+
+	it("catchTag should handle the matching tag and narrow the error type", () => {
+		const result = find(3).catchTag("NotFound", (e) => ok(`guest-${e.id}`));
+		const narrowed: Result<string, Invalid> = result;
+		expect(narrowed.unwrapOr("")).toBe("guest-3");
+	});
+
+	it("catchTag should keep errors with other tags", () => {
+		const result = find(2).catchTag("NotFound", () => ok("guest"));
+		expect(result.isErr()).toBe(true);
+		expect(result.extract()).toEqual({ _tag: "Invalid", reason: "bad id" });
+	});
+
+	it("catchTag should add the handler's error type", () => {
+		const result = find(3).catchTag("NotFound", (e) =>
+			err<string, string>(`missing ${e.id}`),
+		);
+		const narrowed: Result<string, Invalid | string> = result;
+		expect(narrowed.extract()).toBe("missing 3");
+	});
+
+	it("catchTag and catchTags should add the handler's value type", () => {
+		const result = find(3).catchTag("NotFound", () => ok(null));
+		const widened: Result<string | null, Invalid> = result;
+		// @ts-expect-error - the value type now includes null
+		const narrowed: Result<string, Invalid> = result;
+		expect(narrowed.unwrapOr("")).toBeNull();
+
+		const curried: Result<string | null, Invalid> = pipe(
+			find(3),
+			catchTag("NotFound", () => ok(null)),
+		);
+		expect(curried.unwrapOr("")).toBeNull();
+
+		const handled: Result<string | number, never> = find(2).catchTags({
+			NotFound: (e) => ok(e.id),
+			Invalid: () => ok(0),
+		});
+		expect(handled.unwrapOr("")).toBe(0);
+		expect(widened.isOk()).toBe(true);
+	});
+
+	it("Ok.catchTag should keep the value", () => {
+		expect(
+			find(1)
+				.catchTag("NotFound", () => ok("guest"))
+				.unwrapOr(""),
+		).toBe("Alice");
+	});
+
+	it("catchTags should dispatch on the error tag", () => {
+		const handlers = {
+			NotFound: (e: NotFound) => ok<string, never>(`guest-${e.id}`),
+			Invalid: (e: Invalid) => err<string, string>(e.reason),
+		};
+		const handled: Result<string, string> = find(3).catchTags(handlers);
+		expect(handled.unwrapOr("")).toBe("guest-3");
+		expect(find(2).catchTags(handlers).extract()).toBe("bad id");
+		expect(find(1).catchTags(handlers).unwrapOr("")).toBe("Alice");
+	});
+
+	it("catchTags should keep unhandled tags", () => {
+		const result = find(2).catchTags({ NotFound: () => ok("guest") });
+		const narrowed: Result<string, Invalid> = result;
+		expect(narrowed.isErr()).toBe(true);
+	});
+
+	it("catchTag and catchTags should keep null and primitive errors", () => {
+		type Failure = NotFound | null | string;
+		for (const error of [null, "boom"]) {
+			const result = err<string, Failure>(error);
+			expect(result.catchTag("NotFound", () => ok("guest")).extract()).toBe(
+				error,
+			);
+			expect(result.catchTags({ NotFound: () => ok("guest") }).extract()).toBe(
+				error,
+			);
+		}
+	});
+
+	it("catchTags should ignore inherited keys of the handlers object", () => {
+		const result = err<string, { _tag: "toString" }>({
+			_tag: "toString",
+		}).catchTags({});
+		expect(result.isErr()).toBe(true);
+	});
+
+	it("matchTag should dispatch on the error tag", () => {
+		const status = (id: number) =>
+			find(id).matchTag({
+				ok: () => 200,
+				err: { NotFound: () => 404, Invalid: () => 400 },
+			});
+		expect(status(1)).toBe(200);
+		expect(status(2)).toBe(400);
+		expect(status(3)).toBe(404);
+	});
+
+	it("matchTag should require a handler for every tag", () => {
+		const status = find(1).matchTag({
+			ok: () => 200,
+			// @ts-expect-error - the Invalid handler is missing
+			err: { NotFound: () => 404 },
+		});
+		expect(status).toBe(200);
+	});
+
+	it("curried tag helpers should work in pipelines", () => {
+		const handled = pipe(
+			find(3),
+			catchTag("NotFound", (e) => ok(`guest-${e.id}`)),
+			unwrapOr(""),
+		);
+		expect(handled).toBe("guest-3");
+
+		const all = pipe(
+			find(2),
+			catchTags({ Invalid: (e) => ok(e.reason) }),
+			unwrapOr(""),
+		);
+		expect(all).toBe("bad id");
+
+		const status = pipe(
+			find(3),
+			matchTag({
+				ok: (name) => name.length,
+				err: { NotFound: (e) => e.id, Invalid: () => -1 },
+			}),
+		);
+		expect(status).toBe(3);
+	});
+});
+
+describe("Type guards", () => {
+	const parse = (s: string): Result<number, string> =>
+		Number.isNaN(Number(s)) ? err(`not a number: ${s}`) : ok(Number(s));
+
+	it("isOk should narrow to Ok and expose value", () => {
+		const result = parse("42");
+		if (result.isOk()) {
+			const value: number = result.value;
+			expect(value).toBe(42);
+		} else {
+			throw new Error("expected Ok");
+		}
+	});
+
+	it("isErr should narrow to Err and expose error", () => {
+		const result = parse("x");
+		if (result.isErr()) {
+			const error: string = result.error;
+			expect(error).toBe("not a number: x");
+		} else {
+			throw new Error("expected Err");
+		}
+	});
+
+	it("standalone guards should filter arrays of Results", () => {
+		const results = ["1", "x", "3"].map(parse);
+		const values: number[] = results.filter(isOk).map((r) => r.value);
+		const errors: string[] = results.filter(isErr).map((r) => r.error);
+		expect(values).toEqual([1, 3]);
+		expect(errors).toEqual(["not a number: x"]);
+	});
+});
+
+describe("Extraction", () => {
+	it("unwrap should return the value of Ok", () => {
+		expect(ok(42).unwrap()).toBe(42);
+	});
+
+	it("unwrap should throw an UnwrapError with the error as cause", () => {
+		const cause = new Error("boom");
+		try {
+			err(cause).unwrap();
+			throw new Error("expected unwrap to throw");
+		} catch (e) {
+			expect(e).toBeInstanceOf(UnwrapError);
+			expect((e as UnwrapError).name).toBe("UnwrapError");
+			expect((e as UnwrapError).message).toBe("Called unwrap on an Err value");
+			expect((e as UnwrapError).cause).toBe(cause);
+		}
+	});
+
+	it("expect should return the value or throw with the given message", () => {
+		expect(ok(42).expect("must be ok")).toBe(42);
+		expect(() => err("boom").expect("must be ok")).toThrow(
+			new UnwrapError("must be ok", { cause: "boom" }),
+		);
+	});
+
+	it("unwrapErr should return the error or throw for Ok", () => {
+		expect(err("boom").unwrapErr()).toBe("boom");
+		expect(() => ok(42).unwrapErr()).toThrow("Called unwrapErr on an Ok value");
+	});
+
+	it("unwrapOrElse should compute the fallback lazily from the error", () => {
+		let calls = 0;
+		const fallback = (e: string) => {
+			calls++;
+			return e.length;
+		};
+		expect(ok<number, string>(42).unwrapOrElse(fallback)).toBe(42);
+		expect(calls).toBe(0);
+		expect(err<number, string>("fail").unwrapOrElse(fallback)).toBe(4);
+		expect(calls).toBe(1);
+	});
+
+	it("toNullable and toUndefined should convert Err to null and undefined", () => {
+		expect(ok(42).toNullable()).toBe(42);
+		expect(err("fail").toNullable()).toBeNull();
+		expect(ok(42).toUndefined()).toBe(42);
+		expect(err("fail").toUndefined()).toBeUndefined();
+	});
+
+	it("curried extraction helpers should work in pipelines", () => {
+		expect(
+			pipe(
+				ok<number, string>(41),
+				map((x) => x + 1),
+				unwrap(),
+			),
+		).toBe(42);
+		expect(pipe(ok(1), expectOk("must be ok"))).toBe(1);
+		expect(pipe(err("boom"), unwrapErr())).toBe("boom");
+		expect(
+			pipe(
+				err<number, string>("fail"),
+				unwrapOrElse((e) => e.length),
+			),
+		).toBe(4);
+		expect(pipe(err<number, string>("fail"), toNullable())).toBeNull();
+		expect(pipe(err<number, string>("fail"), toUndefined())).toBeUndefined();
+	});
+});
+
+describe("Safe function wrappers", () => {
+	class Counter {
+		count = 0;
+		increment(by: number): number {
+			this.count += by;
+			return this.count;
+		}
+		fail(): number {
+			throw new Error("counter failed");
+		}
+	}
+
+	const api = {
+		parse: (input: string): number => {
+			const value = Number(input);
+			if (Number.isNaN(value)) {
+				throw new Error(`not a number: ${input}`);
+			}
+			return value;
+		},
+		load: async (id: number): Promise<string> => {
+			if (id < 0) {
+				throw new Error("not found");
+			}
+			return `user-${id}`;
+		},
+		version: 1,
+	};
+
+	it("safeFn should wrap a function of any arity", () => {
+		const parseJson = safeFn(JSON.parse);
+		expect(parseJson('{"a":1}').unwrapOr(null)).toEqual({ a: 1 });
+		expect(parseJson("invalid").isErr()).toBe(true);
+
+		const divide = safeFn(
+			(a: number, b: number): number => {
+				if (b === 0) {
+					throw new Error("division by zero");
+				}
+				return a / b;
+			},
+			(e) => (e as Error).message,
+		);
+		const result: Result<number, string> = divide(10, 2);
+		expect(result.unwrapOr(0)).toBe(5);
+		expect(divide(1, 0).unwrapErr()).toBe("division by zero");
+	});
+
+	it("safeFnAsync should wrap rejections and synchronous throws", async () => {
+		const load = safeFnAsync(api.load, (e) => (e as Error).message);
+		const result: AsyncResult<string, string> = load(1);
+		expect(await result.unwrapOr("")).toBe("user-1");
+		expect((await load(-1)).unwrapErr()).toBe("not found");
+
+		const throwsSync = safeFnAsync((_: number): Promise<number> => {
+			throw new Error("sync");
+		});
+		expect((await throwsSync(1)).isErr()).toBe(true);
+	});
+
+	it("safeAll should wrap every method of an object", async () => {
+		const safe = safeAll(api, (e) => (e as Error).message);
+		expect(safe.parse("42").unwrapOr(0)).toBe(42);
+		expect(safe.parse("x").unwrapErr()).toBe("not a number: x");
+
+		const loaded = safe.load(1);
+		expect(loaded).toBeInstanceOf(AsyncResult);
+		expect(await loaded.unwrapOr("")).toBe("user-1");
+		expect((await safe.load(-1)).unwrapErr()).toBe("not found");
+
+		expect("version" in safe).toBe(false);
+	});
+
+	it("safeAll should keep `this` for class instances", () => {
+		const counter = new Counter();
+		const safe = safeAll(counter);
+		expect(safe.increment(2).unwrapOr(0)).toBe(2);
+		expect(safe.increment(3).unwrapOr(0)).toBe(5);
+		expect(counter.count).toBe(5);
+		expect(safe.fail().isErr()).toBe(true);
+	});
+
+	it("safeAll should not run getters", () => {
+		class Service {
+			get broken(): number {
+				throw new Error("getter ran");
+			}
+			ping(): string {
+				return "pong";
+			}
+		}
+		const safe = safeAll(new Service());
+		expect(safe.ping().unwrapOr("")).toBe("pong");
+		expect("broken" in safe).toBe(false);
+	});
+
+	it("safeAll should wrap built-in namespaces", () => {
+		const json = safeAll(JSON);
+		expect(json.parse("[1]").unwrapOr(null)).toEqual([1]);
+		expect(json.parse("invalid").isErr()).toBe(true);
+	});
+});
+
+describe("Record combinators", () => {
+	type User = { id: number };
+
+	it("struct should combine a record of Oks", () => {
+		const result = struct({
+			user: ok<User, string>({ id: 1 }),
+			count: ok<number, number>(2),
+		});
+		const typed: Result<{ user: User; count: number }, string | number> =
+			result;
+		expect(typed.unwrap()).toEqual({ user: { id: 1 }, count: 2 });
+		expect(struct({}).unwrap()).toEqual({});
+	});
+
+	it("struct should stop at the first Err by default", () => {
+		const result = struct({
+			user: ok<User, string>({ id: 1 }),
+			org: err<string, string>("no org"),
+			team: err<string, string>("no team"),
+		});
+		expect(result.unwrapErr()).toBe("no org");
+	});
+
+	it("struct should collect errors by field name with collect", () => {
+		const result = struct(
+			{
+				user: ok<User, string>({ id: 1 }),
+				org: err<string, string>("no org"),
+				count: err<number, number>(404),
+			},
+			{ collect: true },
+		);
+		const errors: { user?: string; org?: string; count?: number } =
+			result.unwrapErr();
+		expect(errors).toEqual({ org: "no org", count: 404 });
+		expect(
+			struct({ a: ok<number, string>(1) }, { collect: true }).unwrap(),
+		).toEqual({ a: 1 });
+	});
+});
+
+describe("traverseAsync", () => {
+	const delay = (ms: number) =>
+		new Promise((resolve) => setTimeout(resolve, ms));
+
+	it("should keep input order and respect the concurrency limit", async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const result = await traverseAsync(
+			[30, 10, 20, 5, 15],
+			async (ms, index): Promise<Result<string, string>> => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await delay(ms);
+				running--;
+				return ok(`${index}:${ms}`);
+			},
+			{ concurrency: 2 },
+		);
+		expect(result.unwrap()).toEqual(["0:30", "1:10", "2:20", "3:5", "4:15"]);
+		expect(maxRunning).toBe(2);
+	});
+
+	it("should accept sync Results, AsyncResults and any iterable", async () => {
+		const result = await traverseAsync(new Set([1, 2, 3]), (n) =>
+			n === 2 ? okAsync<number, string>(n * 10) : ok<number, string>(n * 10),
+		);
+		expect(result.unwrap()).toEqual([10, 20, 30]);
+		expect((await traverseAsync([], () => ok(1))).unwrap()).toEqual([]);
+	});
+
+	it("should stop at the first Err and abort pending work in failFast mode", async () => {
+		const started: number[] = [];
+		const signals: AbortSignal[] = [];
+		const result = await traverseAsync(
+			[1, 2, 3, 4, 5],
+			async (n, _, signal): Promise<Result<number, string>> => {
+				started.push(n);
+				signals.push(signal);
+				if (n === 2) {
+					return err("boom");
+				}
+				await delay(20);
+				return ok(n);
+			},
+			{ concurrency: 2 },
+		);
+		expect(result.unwrapErr()).toBe("boom");
+		expect(started).toEqual([1, 2]);
+		expect(signals.every((signal) => signal.aborted)).toBe(true);
+	});
+
+	it("should collect every error in input order in collect mode", async () => {
+		const result = await traverseAsync(
+			[1, 2, 3, 4],
+			async (n): Promise<Result<number, string>> => {
+				await delay(5 - n);
+				return n % 2 === 0 ? err(`e${n}`) : ok(n);
+			},
+			{ concurrency: 3, mode: "collect" },
+		);
+		const errors: string[] = result.unwrapErr();
+		expect(errors).toEqual(["e2", "e4"]);
+
+		const values = await traverseAsync([1, 2], (n) => ok<number, string>(n), {
+			mode: "collect",
+		});
+		expect(values.unwrap()).toEqual([1, 2]);
+	});
+
+	it("should reject and abort pending work when fn throws", async () => {
+		let signal: AbortSignal | undefined;
+		const failing = traverseAsync([1, 2, 3], async (n, _, s) => {
+			signal = s;
+			if (n === 1) {
+				throw new Error("crash");
+			}
+			await delay(10);
+			if (n === 2) {
+				throw new Error("late crash");
+			}
+			return ok(n);
+		});
+		await expect(Promise.resolve(failing)).rejects.toThrow("crash");
+		expect(signal?.aborted).toBe(true);
+		await delay(20);
+	});
+
+	it("should reject with a RangeError for an invalid concurrency", async () => {
+		for (const concurrency of [0, -1, 1.5, Number.NaN]) {
+			const traversal = traverseAsync([1], (n) => ok(n), { concurrency });
+			await expect(Promise.resolve(traversal)).rejects.toThrow(RangeError);
+		}
+	});
+});
+
+describe("retry", () => {
+	const failing =
+		(failures: number) =>
+		(attempt: number): Result<string, string> =>
+			attempt <= failures ? err(`e${attempt}`) : ok(`ok after ${attempt}`);
+
+	const recordSleep = () => {
+		const delays: number[] = [];
+		return {
+			delays,
+			sleep: async (ms: number) => {
+				delays.push(ms);
+			},
+		};
+	};
+
+	it("should return the first Ok", async () => {
+		const { delays, sleep } = recordSleep();
+		const result = await retry(failing(2), { attempts: 5, sleep });
+		expect(result.unwrap()).toBe("ok after 3");
+		expect(delays).toEqual([100, 200]);
+	});
+
+	it("should return every attempt's error when all attempts fail", async () => {
+		const { delays, sleep } = recordSleep();
+		const result = await retry(failing(10), { sleep });
+		const errors: string[] = result.unwrapErr();
+		expect(errors).toEqual(["e1", "e2", "e3"]);
+		expect(delays).toEqual([100, 200]);
+	});
+
+	it("should compute fixed and exponential backoff capped by maxMs", async () => {
+		const exponential = recordSleep();
+		await retry(failing(10), {
+			attempts: 6,
+			baseMs: 50,
+			maxMs: 500,
+			sleep: exponential.sleep,
+		});
+		expect(exponential.delays).toEqual([50, 100, 200, 400, 500]);
+
+		const fixed = recordSleep();
+		await retry(failing(10), {
+			attempts: 4,
+			backoff: "fixed",
+			baseMs: 30,
+			sleep: fixed.sleep,
+		});
+		expect(fixed.delays).toEqual([30, 30, 30]);
+	});
+
+	it("should apply jitter with the injected random", async () => {
+		const { delays, sleep } = recordSleep();
+		await retry(failing(10), {
+			baseMs: 100,
+			jitter: true,
+			random: () => 0.5,
+			sleep,
+		});
+		expect(delays).toEqual([50, 100]);
+	});
+
+	it("should stop when shouldRetry returns false and call onRetry", async () => {
+		const { sleep } = recordSleep();
+		const retries: [string, number, number][] = [];
+		const result = await retry(failing(10), {
+			attempts: 5,
+			shouldRetry: (_, attempt) => attempt < 2,
+			onRetry: (error, attempt, delay) => retries.push([error, attempt, delay]),
+			sleep,
+		});
+		expect(result.unwrapErr()).toEqual(["e1", "e2"]);
+		expect(retries).toEqual([["e1", 1, 100]]);
+	});
+
+	it("should accept async producers and wait with setTimeout by default", async () => {
+		let calls = 0;
+		const result = await retry(
+			() => {
+				calls++;
+				return calls === 1
+					? errAsync<number, string>("transient")
+					: okAsync<number, string>(calls);
+			},
+			{ baseMs: 1 },
+		);
+		expect(result.unwrap()).toBe(2);
+	});
+
+	it("should reject with a RangeError for an invalid number of attempts", async () => {
+		for (const attempts of [0, 1.5, Number.NaN]) {
+			const retried = retry(failing(1), { attempts });
+			await expect(Promise.resolve(retried)).rejects.toThrow(RangeError);
+		}
+	});
+});
+
+describe("Cancellation", () => {
+	const never = () => new Promise<number>(() => undefined);
+
+	it("fromPromise should fail with a TimeoutError after timeoutMs", async () => {
+		const result: Result<number, string | CancelError> = await fromPromise(
+			never(),
+			(e) => String(e),
+			{ timeoutMs: 5 },
+		);
+		const error = result.unwrapErr() as TimeoutError;
+		expect(error).toBeInstanceOf(TimeoutError);
+		expect(error._tag).toBe("TimeoutError");
+		expect(error.timeoutMs).toBe(5);
+		expect(error.message).toBe("Timed out after 5ms");
+	});
+
+	it("fromPromise should keep its usual behavior when it settles in time", async () => {
+		const options = { timeoutMs: 50 };
+		expect(
+			(await fromPromise(Promise.resolve(1), undefined, options)).unwrap(),
+		).toBe(1);
+		expect(
+			(
+				await fromPromise(
+					Promise.reject(new Error("fail")),
+					(e) => (e as Error).message,
+					options,
+				)
+			).unwrapErr(),
+		).toBe("fail");
+	});
+
+	it("fromAsync should abort the signal passed to fn on timeout", async () => {
+		let received: AbortSignal | undefined;
+		const result = await fromAsync(
+			(signal) => {
+				received = signal;
+				return never();
+			},
+			undefined,
+			{ timeoutMs: 5 },
+		);
+		expect(result.unwrapErr()).toBeInstanceOf(TimeoutError);
+		expect(received?.aborted).toBe(true);
+		expect(received?.reason).toBe(result.unwrapErr());
+	});
+
+	it("fromAsync should fail with an AbortedError when the signal is aborted", async () => {
+		const controller = new AbortController();
+		const pending = fromAsync(
+			(signal) =>
+				new Promise<number>((_, reject) =>
+					signal.addEventListener("abort", () => reject(signal.reason)),
+				),
+			() => "rejected",
+			{ signal: controller.signal },
+		);
+		controller.abort("user cancelled");
+		const error = (await pending).unwrapErr() as AbortedError;
+		expect(error).toBeInstanceOf(AbortedError);
+		expect(error._tag).toBe("AbortedError");
+		expect(error.cause).toBe("user cancelled");
+	});
+
+	it("fromAsync should not call fn when the signal is already aborted", async () => {
+		let called = false;
+		const result = await fromAsync(
+			async () => {
+				called = true;
+				return 1;
+			},
+			undefined,
+			{ signal: AbortSignal.abort() },
+		);
+		expect(result.unwrapErr()).toBeInstanceOf(AbortedError);
+		expect(called).toBe(false);
+	});
+
+	it("fromPromise should handle a late rejection when the signal is already aborted", async () => {
+		const late = new Promise<number>((_, reject) =>
+			setTimeout(() => reject(new Error("late")), 5),
+		);
+		const result = await fromPromise(late, undefined, {
+			signal: AbortSignal.abort(),
+		});
+		await Bun.sleep(10);
+
+		expect(result.unwrapErr()).toBeInstanceOf(AbortedError);
+	});
+
+	it("fromAsync should turn synchronous exceptions into Err", async () => {
+		const result = await fromAsync(() => {
+			throw new Error("sync");
+		});
+		expect((result.unwrapErr() as Error).message).toBe("sync");
+	});
+});
+
+describe("Error context", () => {
+	const fetchUser = (id: number): Result<string, Error> =>
+		err(new TypeError(`connection refused for ${id}`));
+
+	it("context should wrap the error in a frame and keep it as cause", () => {
+		const result = fetchUser(42).context("loading user 42");
+		const error: ContextError<Error> = result.unwrapErr();
+		expect(error).toBeInstanceOf(ContextError);
+		expect(error).toBeInstanceOf(Error);
+		expect(error._tag).toBe("ContextError");
+		expect(error.message).toBe("loading user 42");
+		expect(error.context).toBe("loading user 42");
+		expect(error.cause.message).toBe("connection refused for 42");
+		expect(ok(1).context("unused").unwrap()).toBe(1);
+	});
+
+	it("withContext should build the message from the error only on Err", () => {
+		let calls = 0;
+		const describe = (e: number) => {
+			calls++;
+			return `request failed with ${e}`;
+		};
+		expect(err(404).withContext(describe).unwrapErr().message).toBe(
+			"request failed with 404",
+		);
+		expect(ok<number, number>(1).withContext(describe).unwrap()).toBe(1);
+		expect(calls).toBe(1);
+	});
+
+	it("errorChain should walk every frame down to the root cause", () => {
+		const root = new Error("ECONNREFUSED");
+		const error = pipe(
+			err<string, Error>(new TypeError("fetch failed", { cause: root })),
+			context("GET /users/42"),
+			withContext(() => "loading user 42"),
+		).unwrapErr();
+		const chain = errorChain(error);
+		expect(chain).toHaveLength(4);
+		expect(chain[0]).toBe(error);
+		expect(chain[1]).toBe(error.cause);
+		expect(chain[3]).toBe(root);
+		expect(errorChain("plain")).toEqual(["plain"]);
+	});
+
+	it("errorChain should stop on cyclic causes", () => {
+		const a = new Error("a");
+		const b = new Error("b", { cause: a });
+		Object.defineProperty(a, "cause", { value: b });
+		expect(errorChain(a)).toEqual([a, b]);
+	});
+
+	it("formatErrorChain should print an indented caused by report", () => {
+		const error = err<string, unknown>({ _tag: "NotFound", id: 42 })
+			.context("GET /users/42")
+			.context("loading user 42")
+			.unwrapErr();
+		expect(formatErrorChain(error)).toBe(
+			[
+				"loading user 42",
+				"",
+				"Caused by:",
+				"    0: GET /users/42",
+				'    1: {"_tag":"NotFound","id":42}',
+			].join("\n"),
+		);
+		expect(
+			formatErrorChain(new ContextError("parsing", new RangeError("bad"))),
+		).toBe("parsing\n\nCaused by:\n    0: RangeError: bad");
+		expect(formatErrorChain("timeout")).toBe("timeout");
+		expect(formatErrorChain(new ContextError("big", { n: 1n }))).toBe(
+			"big\n\nCaused by:\n    0: [object Object]",
+		);
+	});
+
+	it("should print the report when inspected", () => {
+		const error = new ContextError("loading user 42", "timeout");
+		expect(Bun.inspect(error)).toBe(formatErrorChain(error));
+	});
+});
+
+describe("Conversions", () => {
+	it("toMaybe and toEither should convert Ok and Err", () => {
+		expect(ok(42).toMaybe()).toBeInstanceOf(Just);
+		expect(ok(42).toMaybe().unwrap()).toBe(42);
+		expect(err("fail").toMaybe()).toBeInstanceOf(Nothing);
+		expect(ok(42).toEither()).toBeInstanceOf(Right);
+		expect(err("fail").toEither().unwrapLeft()).toBe("fail");
+	});
+
+	it("toMaybe and toEither should work in pipelines", () => {
+		const maybe: Maybe<number> = pipe(ok<number, string>(1), toMaybe());
+		expect(maybe.unwrap()).toBe(1);
+		const either: Either<string, number> = pipe(
+			err<number, string>("fail"),
+			toEither(),
+		);
+		expect(either.isLeft()).toBe(true);
+	});
+
+	it("fromNullable should turn null and undefined into Err", () => {
+		const users = new Map([[1, "Alice"]]);
+		const found: Result<string, string> = fromNullable(
+			users.get(1),
+			"not found",
+		);
+		expect(found.unwrap()).toBe("Alice");
+		expect(fromNullable(users.get(2), "not found").unwrapErr()).toBe(
+			"not found",
+		);
+		expect(fromNullable(0, "e").unwrap()).toBe(0);
+
+		const port: Result<string, string> = pipe(
+			process.env.HOLO_FN_UNSET_VARIABLE,
+			fromNullable("missing"),
+		);
+		expect(port.unwrapErr()).toBe("missing");
+		expect(pipe("8080", fromNullable("missing")).unwrap()).toBe("8080");
+	});
+
+	it("fromPredicate should keep values that satisfy the predicate", () => {
+		const adult = (n: number) => n >= 18;
+		expect(fromPredicate(20, adult, "too young").unwrap()).toBe(20);
+		expect(fromPredicate(15, adult, "too young").unwrapErr()).toBe("too young");
+		const checked: Result<number, string> = pipe(
+			15,
+			fromPredicate(adult, "too young"),
+		);
+		expect(checked.unwrapErr()).toBe("too young");
+		expect(pipe(20, fromPredicate(adult, "too young")).unwrap()).toBe(20);
+	});
+});
+
+describe("Applicative helpers", () => {
+	const num = ok<number, "NaN">(2);
+	const str = ok<string, "Empty">("a");
+	const nan = err<number, "NaN">("NaN");
+	const empty = err<string, "Empty">("Empty");
+
+	it("zip should combine two Oks into a tuple", () => {
+		const zipped: Result<[number, string], "NaN" | "Empty"> = num.zip(str);
+		expect(zipped.unwrap()).toEqual([2, "a"]);
+		expect(num.zip(empty).unwrapErr()).toBe("Empty");
+		expect(nan.zip(empty).unwrapErr()).toBe("NaN");
+	});
+
+	it("zipWith should combine two Oks with a function", () => {
+		const repeated: Result<string, "NaN" | "Empty"> = str.zipWith(num, (s, n) =>
+			s.repeat(n),
+		);
+		expect(repeated.unwrap()).toBe("aa");
+		expect(nan.zipWith(str, (n, s) => s.repeat(n)).unwrapErr()).toBe("NaN");
+	});
+
+	it("ap should apply a function inside Ok", () => {
+		const inc = ok<(x: number) => number, "NoFn">((x) => x + 1);
+		const applied: Result<number, "NoFn" | "NaN"> = inc.ap(num);
+		expect(applied.unwrap()).toBe(3);
+		expect(inc.ap(nan).unwrapErr()).toBe("NaN");
+		expect(err<(x: number) => number, string>("NoFn").ap(num).unwrapErr()).toBe(
+			"NoFn",
+		);
+	});
+
+	it("curried helpers should work in pipelines", () => {
+		expect(pipe(num, zip(str)).unwrap()).toEqual([2, "a"]);
+		expect(
+			pipe(
+				num,
+				zipWith(ok(3), (a: number, b: number) => a * b),
+			).unwrap(),
+		).toBe(6);
+		expect(
+			pipe(
+				ok<(s: string) => number, string>((s) => s.length),
+				ap(ok("abc")),
+			).unwrap(),
+		).toBe(3);
+	});
+
+	it("lift2 and lift3 should lift plain functions to Results", () => {
+		const repeat = lift2((s: string, n: number) => s.repeat(n));
+		const repeated: Result<string, "Empty" | "NaN"> = repeat(str, num);
+		expect(repeated.unwrap()).toBe("aa");
+		expect(repeat(empty, nan).unwrapErr()).toBe("Empty");
+
+		const user = lift3((name: string, age: number, admin: boolean) => ({
+			name,
+			age,
+			admin,
+		}));
+		const created: Result<
+			{ name: string; age: number; admin: boolean },
+			"Empty" | "NaN" | "NotBool"
+		> = user(str, num, ok<boolean, "NotBool">(true));
+		expect(created.unwrap()).toEqual({ name: "a", age: 2, admin: true });
+		expect(user(str, nan, ok(true)).unwrapErr()).toBe("NaN");
+	});
+});
+
+describe("First success", () => {
+	it("or should keep an Ok and fall back for an Err", () => {
+		expect(ok<number, string>(1).or(ok(2)).unwrap()).toBe(1);
+		expect(err<number, string>("miss").or(ok(2)).unwrap()).toBe(2);
+		const fallback: Result<number, number> = pipe(
+			err<number, string>("miss"),
+			or(err<number, number>(404)),
+		);
+		expect(fallback.unwrapErr()).toBe(404);
+	});
+
+	it("firstOk should return the first Ok", () => {
+		expect(firstOk([err("a"), ok(1), ok(2)]).unwrap()).toBe(1);
+	});
+
+	it("firstOk should collect every error in order", () => {
+		const result: Result<number, string[]> = firstOk<number, string>([
+			err("cache miss"),
+			() => err("db down"),
+		]);
+		expect(result.unwrapErr()).toEqual(["cache miss", "db down"]);
+		expect(firstOk([]).unwrapErr()).toEqual([]);
+	});
+
+	it("firstOk should only call thunks until one succeeds", () => {
+		const calls: string[] = [];
+		const source = (name: string, result: Result<number, string>) => () => {
+			calls.push(name);
+			return result;
+		};
+
+		const result = firstOk([
+			source("cache", err("miss")),
+			source("db", ok(42)),
+			source("default", ok(0)),
+		]);
+
+		expect(result.unwrap()).toBe(42);
+		expect(calls).toEqual(["cache", "db"]);
+	});
+});
+
+describe("Structural helpers", () => {
+	it("bimap should transform the side that is present", () => {
+		const double = (x: number) => x * 2;
+		const describe = (e: string) => `Error: ${e}`;
+		const mapped: Result<number, string> = ok<number, string>(2).bimap(
+			describe,
+			double,
+		);
+		expect(mapped.unwrap()).toBe(4);
+		expect(
+			pipe(err<number, string>("fail"), bimap(describe, double)).unwrapErr(),
+		).toBe("Error: fail");
+	});
+
+	it("fold should call the function for the side that is present", () => {
+		expect(
+			ok<number, string>(42).fold(
+				() => 0,
+				(x) => x * 2,
+			),
+		).toBe(84);
+		expect(
+			pipe(
+				err<number, string>("fail"),
+				fold(
+					(e: string) => e.length,
+					(x: number) => x,
+				),
+			),
+		).toBe(4);
+	});
+
+	it("swap should exchange Ok and Err", () => {
+		const swapped: Result<string, number> = ok<number, string>(1).swap();
+		expect(swapped.unwrapErr()).toBe(1);
+		expect(pipe(err<number, string>("fail"), swap()).unwrap()).toBe("fail");
+	});
+
+	it("flatten should collapse nested Results", () => {
+		const nested = ok<Result<number, "Inner">, "Outer">(ok(1));
+		const flat: Result<number, "Inner" | "Outer"> = nested.flatten();
+		expect(flat.unwrap()).toBe(1);
+		expect(pipe(ok(err<number, string>("inner")), flatten()).unwrapErr()).toBe(
+			"inner",
+		);
+		expect(
+			err<Result<number, string>, string>("outer").flatten().unwrapErr(),
+		).toBe("outer");
+	});
+});
+
+describe("Iterables and streams", () => {
+	const parse = (line: string): Result<number, string> => {
+		const n = Number(line);
+		return Number.isNaN(n) ? err(`bad line: ${line}`) : ok(n);
+	};
+
+	async function* lines(items: string[]) {
+		for (const item of items) {
+			yield item;
+		}
+	}
+
+	const readerOnly = <T>(items: T[]) => {
+		const stream = new ReadableStream<T>({
+			start(controller) {
+				for (const item of items) {
+					controller.enqueue(item);
+				}
+				controller.close();
+			},
+		});
+		let cancelled = false;
+		return {
+			source: {
+				getReader: () => {
+					const reader = stream.getReader();
+					return {
+						read: () => reader.read(),
+						cancel: (reason?: unknown) => {
+							cancelled = true;
+							return reader.cancel(reason);
+						},
+						releaseLock: () => reader.releaseLock(),
+					};
+				},
+			},
+			cancelled: () => cancelled,
+		};
+	};
+
+	it("values should yield the Ok value, or nothing for an Err", () => {
+		expect([...ok(42).values()]).toEqual([42]);
+		expect([...err("fail").values()]).toEqual([]);
+	});
+
+	it("a Result should itself be iterable over the Ok value", () => {
+		expect([...ok(42)]).toEqual([42]);
+		expect([...err("fail")]).toEqual([]);
+		const results = [ok(1), err("e"), ok(3)];
+		expect(results.flatMap((result) => [...result])).toEqual([1, 3]);
+	});
+
+	it("collect should stop reading at the first Err", () => {
+		const read: string[] = [];
+		function* results() {
+			for (const line of ["1", "x", "y"]) {
+				read.push(line);
+				yield parse(line);
+			}
+		}
+		expect(collect(results()).unwrapErr()).toBe("bad line: x");
+		expect(read).toEqual(["1", "x"]);
+		expect(collect(new Set([ok(1), ok(2)])).unwrap()).toEqual([1, 2]);
+	});
+
+	it("collect should gather every error in collect mode", () => {
+		const results = ["1", "x", "2", "y"].map(parse);
+		const collected: Result<number[], string[]> = collect(results, {
+			mode: "collect",
+		});
+		expect(collected.unwrapErr()).toEqual(["bad line: x", "bad line: y"]);
+		expect(
+			collect(["1", "2"].map(parse), { mode: "collect" }).unwrap(),
+		).toEqual([1, 2]);
+	});
+
+	it("collectAsync should read async iterables and ReadableStreams", async () => {
+		const fromGenerator = await collectAsync(
+			mapStream(lines(["1", "2"]), parse),
+		);
+		expect(fromGenerator.unwrap()).toEqual([1, 2]);
+
+		const stream = new ReadableStream<Result<number, string>>({
+			start(controller) {
+				controller.enqueue(ok(1));
+				controller.enqueue(err("e1"));
+				controller.enqueue(err("e2"));
+				controller.close();
+			},
+		});
+		const collected = await collectAsync(stream, { mode: "collect" });
+		expect(collected.unwrapErr()).toEqual(["e1", "e2"]);
+		expect((await collectAsync([ok(1), err("e")])).unwrapErr()).toBe("e");
+	});
+
+	it("collectAsync should cancel a ReadableStream at the first Err", async () => {
+		const { source, cancelled } = readerOnly<Result<number, string>>([
+			ok(1),
+			err("e"),
+			ok(2),
+		]);
+		expect((await collectAsync(source)).unwrapErr()).toBe("e");
+		expect(cancelled()).toBe(true);
+
+		const complete = readerOnly<Result<number, string>>([ok(1), ok(2)]);
+		expect((await collectAsync(complete.source)).unwrap()).toEqual([1, 2]);
+		expect(complete.cancelled()).toBe(false);
+	});
+
+	it("mapStream should map lazily and accept async mappers", async () => {
+		const calls: number[] = [];
+		const mapped = mapStream(["1", "2", "3"], (line, index) => {
+			calls.push(index);
+			return fromPromise(Promise.resolve(Number(line) * 10));
+		});
+		expect(calls).toEqual([]);
+
+		for await (const result of mapped) {
+			expect(result.unwrap()).toBe(10);
+			break;
+		}
+		expect(calls).toEqual([0]);
+	});
+
+	it("partitionStream should yield Ok values and route errors to onErr", async () => {
+		const errors: [string, number][] = [];
+		const values: number[] = [];
+		const source = readerOnly(["1", "x", "2", "y"].map(parse)).source;
+
+		for await (const value of partitionStream(source, async (error, index) => {
+			errors.push([error, index]);
+		})) {
+			values.push(value);
+		}
+
+		expect(values).toEqual([1, 2]);
+		expect(errors).toEqual([
+			["bad line: x", 1],
+			["bad line: y", 3],
+		]);
+	});
+});
+
+describe("Resource safety", () => {
+	const open = () => {
+		const log: string[] = [];
+		const resource = {
+			log,
+			close: () => {
+				log.push("closed");
+			},
+		};
+		return resource;
+	};
+
+	it("bracket should release after an Ok", async () => {
+		const resource = open();
+		const result = await bracket(
+			() => ok(resource),
+			(r) => ok(r.log.length),
+			(r) => r.close(),
+		);
+		expect(result.unwrap()).toBe(0);
+		expect(resource.log).toEqual(["closed"]);
+	});
+
+	it("bracket should release after an Err and keep the error", async () => {
+		const resource = open();
+		const result = await bracket(
+			() => okAsync(resource),
+			() => errAsync<number, string>("query failed"),
+			async (r) => r.close(),
+		);
+		expect(result.unwrapErr()).toBe("query failed");
+		expect(resource.log).toEqual(["closed"]);
+	});
+
+	it("bracket should not use or release when acquire fails", async () => {
+		let used = false;
+		const result = await bracket(
+			() => err<{ close: () => void }, string>("no connection"),
+			() => {
+				used = true;
+				return ok(1);
+			},
+			(r) => r.close(),
+		);
+		expect(result.unwrapErr()).toBe("no connection");
+		expect(used).toBe(false);
+	});
+
+	it("bracket should merge release failures into a ReleaseError", async () => {
+		const thrown = await bracket(
+			() => ok(open()),
+			() => ok(1),
+			() => {
+				throw new Error("close failed");
+			},
+		);
+		const error = thrown.unwrapErr() as ReleaseError<never>;
+		expect(error).toBeInstanceOf(ReleaseError);
+		expect(error._tag).toBe("ReleaseError");
+		expect((error.cause as Error).message).toBe("close failed");
+		expect(error.suppressed).toBeUndefined();
+
+		const returned = await bracket(
+			() => ok(open()),
+			() => err<number, string>("query failed"),
+			() => err("close failed"),
+		);
+		const merged = returned.unwrapErr() as ReleaseError<string>;
+		expect(merged.cause).toBe("close failed");
+		expect(merged.suppressed).toBe("query failed");
+	});
+
+	it("bracket should release and rethrow when use throws", async () => {
+		const resource = open();
+		const boom = new Error("boom");
+		const thrown = bracket(
+			() => ok(resource),
+			() => Promise.reject(boom),
+			(r) => r.close(),
+		);
+		await expect(Promise.resolve(thrown)).rejects.toBe(boom);
+		expect(resource.log).toEqual(["closed"]);
+
+		const suppressed: SuppressedError = await Promise.resolve(
+			bracket(
+				() => ok(resource),
+				() => {
+					throw boom;
+				},
+				() => Promise.reject("close failed"),
+			),
+		).catch((error) => error);
+		expect(suppressed).toBeInstanceOf(SuppressedError);
+		expect(suppressed.error).toBe("close failed");
+		expect(suppressed.suppressed).toBe(boom);
+	});
+
+	it("bracket should fall back to an Error where SuppressedError is missing", async () => {
+		const native = globalThis.SuppressedError;
+		// @ts-expect-error simulates a runtime without SuppressedError
+		delete globalThis.SuppressedError;
+		try {
+			const boom = new Error("boom");
+			const suppressed: SuppressedError = await Promise.resolve(
+				bracket(
+					() => ok(open()),
+					() => Promise.reject(boom),
+					() => Promise.reject("close failed"),
+				),
+			).catch((error) => error);
+			expect(suppressed).toBeInstanceOf(Error);
+			expect(suppressed.name).toBe("SuppressedError");
+			expect(suppressed.message).toBe("Failed to release the resource");
+			expect(suppressed.cause).toBe("close failed");
+			expect(suppressed.error).toBe("close failed");
+			expect(suppressed.suppressed).toBe(boom);
+		} finally {
+			globalThis.SuppressedError = native;
+		}
+	});
+
+	it("bracket should dispose Disposable and AsyncDisposable resources", async () => {
+		const log: string[] = [];
+		const sync = await bracket(
+			() => ok({ [Symbol.dispose]: () => log.push("sync") }),
+			() => ok(1),
+		);
+		const async = await bracket(
+			() =>
+				ok({
+					[Symbol.asyncDispose]: async () => {
+						log.push("async");
+					},
+				}),
+			() => err("failed"),
+		);
+		expect(sync.unwrap()).toBe(1);
+		expect(async.unwrapErr()).toBe("failed");
+		expect(log).toEqual(["sync", "async"]);
+	});
+
+	it("using declarations should be disposed when gen stops at an Err", async () => {
+		const log: string[] = [];
+		const connect = (name: string) =>
+			ok({ [Symbol.dispose]: () => log.push(`${name} closed`) });
+
+		const result = gen(function* ($) {
+			using _conn = yield* $(connect("db"));
+			yield* $(err("query failed"));
+			return 1;
+		});
+		expect(result.unwrapErr()).toBe("query failed");
+		expect(log).toEqual(["db closed"]);
+
+		const asyncResult = await genAsync(async function* ($) {
+			await using _conn = yield* $(
+				okAsync({
+					[Symbol.asyncDispose]: async () => {
+						log.push("pool closed");
+					},
+				}),
+			);
+			return yield* $(errAsync<number, string>("timeout"));
+		});
+		expect(asyncResult.unwrapErr()).toBe("timeout");
+		expect(log).toEqual(["db closed", "pool closed"]);
+	});
+});
+
+describe("Result - callbacks", () => {
+	const legacyRead = (
+		path: string,
+		callback: (error: Error | null, data: string) => void,
+	): void => {
+		if (path === "missing") {
+			callback(new Error("ENOENT"), "");
+		} else {
+			callback(null, `contents of ${path}`);
+		}
+	};
+
+	it("fromCallback should resolve to Ok with the value", async () => {
+		const result = await fromCallback<string>((callback) =>
+			legacyRead("a.txt", callback),
+		);
+
+		expect(result.unwrap()).toBe("contents of a.txt");
+	});
+
+	it("fromCallback should resolve to Err with a non-null error", async () => {
+		const result = await fromCallback<string, string>(
+			(callback) => legacyRead("missing", callback),
+			(e) => (e as Error).message,
+		);
+
+		expect(result.unwrapErr()).toBe("ENOENT");
+	});
+
+	it("fromCallback should treat undefined as no error", async () => {
+		const result = await fromCallback<number>((callback) =>
+			callback(undefined, 42),
+		);
+
+		expect(result.unwrap()).toBe(42);
+	});
+
+	it("fromCallback should catch synchronous exceptions", async () => {
+		const result = await fromCallback<number>(() => {
+			throw "sync failure";
+		});
+
+		expect(result.unwrapErr()).toBe("sync failure");
+	});
+
+	it("fromCallback should ignore later calls of the callback", async () => {
+		const result = await fromCallback<number>((callback) => {
+			callback(null, 1);
+			callback("late");
+		});
+
+		expect(result.unwrap()).toBe(1);
+	});
+
+	it("promisifyResult should pass the arguments and infer the types", async () => {
+		const read = promisifyResult(legacyRead);
+		const ok: Result<string, unknown> = await read("a.txt");
+		const failed = await promisifyResult(legacyRead, (e) => String(e))(
+			"missing",
+		);
+
+		expect(ok.unwrap()).toBe("contents of a.txt");
+		expect(failed.unwrapErr()).toBe("Error: ENOENT");
+	});
+
+	it("toCallback should call back with null and the value for Ok", () => {
+		const calls: unknown[][] = [];
+
+		toCallback(ok<number, string>(42), (...args) => calls.push(args));
+
+		expect(calls).toEqual([[null, 42]]);
+	});
+
+	it("toCallback should call back with the error for Err", () => {
+		const calls: unknown[][] = [];
+
+		toCallback(err<number, string>("boom"), (...args) => calls.push(args));
+
+		expect(calls).toEqual([["boom"]]);
+	});
+
+	it("toCallback should await an AsyncResult", async () => {
+		const { promise, resolve } = Promise.withResolvers<unknown[]>();
+
+		toCallback(
+			fromCallback<string>((callback) => legacyRead("a.txt", callback)),
+			(...args) => resolve(args),
+		);
+
+		expect(await promise).toEqual([null, "contents of a.txt"]);
+	});
+
+	it("toCallback should pass a rejection to the callback", async () => {
+		const { promise, resolve } = Promise.withResolvers<unknown[]>();
+		const failure = new Error("boom");
+
+		toCallback(Promise.reject<Result<number, Error>>(failure), (...args) =>
+			resolve(args),
+		);
+
+		expect(await promise).toEqual([failure]);
+	});
+});
+
+describe("Result - fromFetch", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	const url = (path: string): string => new URL(path, server.url).href;
+	const user = object({ name: string, age: number });
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			async fetch(request) {
+				switch (new URL(request.url).pathname) {
+					case "/user":
+						return Response.json({ name: "Alice", age: 30 });
+					case "/echo":
+						return new Response(await request.text());
+					case "/invalid":
+						return Response.json({ name: "Alice", age: "30" });
+					case "/text":
+						return new Response("not json");
+					case "/slow":
+						await Bun.sleep(200);
+						return Response.json({ name: "Alice", age: 30 });
+					default:
+						return new Response("no such route", {
+							status: 404,
+							statusText: "Not Found",
+						});
+				}
+			},
+		});
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	it("should resolve to Ok with the Response without decode", async () => {
+		const result = await fromFetch(url("/user"));
+
+		expect(result.isOk()).toBe(true);
+		expect(await result.unwrap().json()).toEqual({ name: "Alice", age: 30 });
+	});
+
+	it("should pass the request options to fetch", async () => {
+		const result = await fromFetch(url("/echo"), {
+			method: "POST",
+			body: "hello",
+		}).chain(async (response) => ok(await response.text()));
+
+		expect(result.unwrap()).toBe("hello");
+	});
+
+	it("should decode the JSON body with decode", async () => {
+		const result = await fromFetch(url("/user"), undefined, { decode: user });
+
+		expect(result.unwrap()).toEqual({ name: "Alice", age: 30 });
+	});
+
+	it("should fail with an HttpError holding the status and the body", async () => {
+		const error = (await fromFetch(url("/missing"))).unwrapErr();
+
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error._tag).toBe("HttpError");
+		expect(error).toMatchObject({
+			status: 404,
+			statusText: "Not Found",
+			body: "no such route",
+			url: url("/missing"),
+			message: "HTTP 404 Not Found",
+		});
+	});
+
+	it("should fail with an HttpError before decoding", async () => {
+		const error = (
+			await fromFetch(url("/missing"), undefined, { decode: user })
+		).unwrapErr();
+
+		expect(error._tag).toBe("HttpError");
+	});
+
+	it("should fail with a ResponseDecodeError when decode rejects the body", async () => {
+		const error = (
+			await fromFetch(url("/invalid"), undefined, { decode: user })
+		).unwrapErr();
+
+		expect(error).toBeInstanceOf(ResponseDecodeError);
+		expect((error as ResponseDecodeError).cause).toEqual([
+			{ path: "age", message: "expected number, got string" },
+		]);
+	});
+
+	it("should tag the decode error as DecodeError", async () => {
+		const result = await fromFetch(url("/invalid"), undefined, {
+			decode: user,
+		});
+		const handled = result.catchTag("DecodeError", () => ok(null));
+		expect(handled.unwrap()).toBeNull();
+		expect(
+			result.matchTag({
+				ok: () => "ok",
+				err: {
+					NetworkError: () => "network",
+					HttpError: () => "http",
+					DecodeError: (error) => error.name,
+					TimeoutError: () => "timeout",
+					AbortedError: () => "aborted",
+				},
+			}),
+		).toBe("DecodeError");
+	});
+
+	it("should fail with a ResponseDecodeError when the body is not JSON", async () => {
+		const error = (
+			await fromFetch(url("/text"), undefined, { decode: user })
+		).unwrapErr();
+
+		expect(error._tag).toBe("DecodeError");
+		expect((error as ResponseDecodeError).cause).toBeInstanceOf(SyntaxError);
+	});
+
+	it("should fail with a NetworkError when the server is unreachable", async () => {
+		const closed = Bun.serve({ port: 0, fetch: () => new Response() });
+		const closedUrl = closed.url.href;
+		closed.stop(true);
+
+		const error = (await fromFetch(closedUrl)).unwrapErr();
+
+		expect(error).toBeInstanceOf(NetworkError);
+		expect(error._tag).toBe("NetworkError");
+		expect((error as NetworkError).cause).toBeInstanceOf(Error);
+	});
+
+	it("should fail with a NetworkError when the body cannot be read", async () => {
+		const originalFetch = globalThis.fetch;
+		const failingBody = (status: number): Response =>
+			new Response(
+				new ReadableStream({
+					start(controller) {
+						controller.error(new Error("connection reset"));
+					},
+				}),
+				{ status },
+			);
+		globalThis.fetch = Object.assign(
+			async (input: string | URL | Request) =>
+				failingBody(String(input).endsWith("/missing") ? 500 : 200),
+			{ preconnect: originalFetch.preconnect },
+		);
+
+		const decoded = await fromFetch(url("/user"), undefined, { decode: user });
+		const failed = await fromFetch(url("/missing"));
+
+		globalThis.fetch = originalFetch;
+
+		expect(decoded.unwrapErr()._tag).toBe("NetworkError");
+		expect(failed.unwrapErr()._tag).toBe("NetworkError");
+	});
+
+	it("should fail with a TimeoutError when the response is too slow", async () => {
+		const error = (
+			await fromFetch(url("/slow"), undefined, { timeoutMs: 20 })
+		).unwrapErr();
+
+		expect(error).toBeInstanceOf(TimeoutError);
+	});
+
+	it("should fail with an AbortedError when the signal is aborted", async () => {
+		const controller = new AbortController();
+		const pending = fromFetch(url("/slow"), undefined, {
+			signal: controller.signal,
+			decode: user,
+		});
+		controller.abort();
+
+		expect((await pending).unwrapErr()).toBeInstanceOf(AbortedError);
+	});
+
+	it("should fail with a ResponseDecodeError when decode throws", async () => {
+		const bug = new Error("decoder bug");
+		const error = (
+			await fromFetch(url("/user"), undefined, {
+				decode: (): Result<never, never> => {
+					throw bug;
+				},
+			})
+		).unwrapErr();
+
+		expect(error).toBeInstanceOf(ResponseDecodeError);
+		expect((error as ResponseDecodeError).cause).toBe(bug);
+	});
+
+	it("should reject when decode does not return a Result", async () => {
+		const pending = fromFetch(url("/user"), undefined, {
+			decode: () => null as never,
+		});
+
+		await expect(Promise.resolve(pending)).rejects.toThrow(TypeError);
+	});
+});
@@ -0,0 +1,323 @@
+import { describe, expect, it } from "bun:test";
+import { pipe } from "rambda";
+import { left, right } from "../src/either";
+import { err, ok } from "../src/result";
+import {
+	all,
+	allOf,
+	array,
+	at,
+	chain,
+	check,
+	type FieldError,
+	fromEither,
+	fromResult,
+	Invalid,
+	invalid,
+	isInvalid,
+	isValid,
+	map,
+	mapErr,
+	match,
+	object,
+	toEither,
+	toResult,
+	unwrapOr,
+	Valid,
+	type Validation,
+	valid,
+	validate,
+} from "../src/validation";
+
+describe("Validation", () => {
+	it("valid should create a Valid", () => {
+		const validation = valid(42);
+		expect(validation).toBeInstanceOf(Valid);
+		expect(validation.isValid()).toBe(true);
+		expect(validation.isInvalid()).toBe(false);
+		expect(validation.extract()).toBe(42);
+	});
+
+	it("invalid should create an Invalid with a single error", () => {
+		const validation = invalid("required", "name");
+		expect(validation).toBeInstanceOf(Invalid);
+		expect(validation.isValid()).toBe(false);
+		expect(validation.isInvalid()).toBe(true);
+		expect(validation.extract()).toEqual([{ path: "name", error: "required" }]);
+		expect(invalid("required").extract()).toEqual([
+			{ path: "", error: "required" },
+		]);
+	});
+
+	it("map should transform only Valid", () => {
+		expect(
+			valid(5)
+				.map((x) => x * 2)
+				.extract(),
+		).toBe(10);
+		expect(
+			invalid<number, string>("e")
+				.map((x) => x * 2)
+				.isInvalid(),
+		).toBe(true);
+	});
+
+	it("mapErr should transform every error and keep paths", () => {
+		const validation = new Invalid<number, string>([
+			{ path: "a", error: "x" },
+			{ path: "b", error: "y" },
+		]).mapErr((e, path) => `${path}: ${e}`);
+		expect(validation.extract()).toEqual([
+			{ path: "a", error: "a: x" },
+			{ path: "b", error: "b: y" },
+		]);
+		expect(
+			valid<number, string>(1)
+				.mapErr((e) => e.length)
+				.extract(),
+		).toBe(1);
+	});
+
+	it("chain should run only for Valid", () => {
+		const parse = (s: string): Validation<number, string> =>
+			Number.isNaN(Number(s)) ? invalid("not a number") : valid(Number(s));
+		expect(valid<string, string>("42").chain(parse).extract()).toBe(42);
+		expect(valid<string, string>("x").chain(parse).isInvalid()).toBe(true);
+		expect(invalid<string, string>("e").chain(parse).extract()).toEqual([
+			{ path: "", error: "e" },
+		]);
+	});
+
+	it("validate should turn a failing Valid into Invalid", () => {
+		expect(
+			valid(20)
+				.validate((x) => x >= 18, "too young")
+				.isValid(),
+		).toBe(true);
+		expect(
+			valid(15)
+				.validate((x) => x >= 18, "too young")
+				.extract(),
+		).toEqual([{ path: "", error: "too young" }]);
+		expect(
+			invalid<number, string>("e")
+				.validate(() => false, "other")
+				.extract(),
+		).toEqual([{ path: "", error: "e" }]);
+	});
+
+	it("at should prefix error paths", () => {
+		expect(invalid("required").at("name").extract()).toEqual([
+			{ path: "name", error: "required" },
+		]);
+		expect(invalid("required", "zip").at("address").extract()).toEqual([
+			{ path: "address.zip", error: "required" },
+		]);
+		expect(invalid("too small", "qty").at(3).at("items").extract()).toEqual([
+			{ path: "items[3].qty", error: "too small" },
+		]);
+		expect(invalid("bad").at(0).at(2).extract()).toEqual([
+			{ path: "[2][0]", error: "bad" },
+		]);
+		expect(valid(1).at("a").extract()).toBe(1);
+	});
+
+	it("unwrapOr and match should handle both cases", () => {
+		expect(valid(1).unwrapOr(0)).toBe(1);
+		expect(invalid<number, string>("e").unwrapOr(0)).toBe(0);
+
+		const describe = (validation: Validation<number, string>) =>
+			validation.match({
+				valid: (value) => `valid ${value}`,
+				invalid: (errors) => `${errors.length} errors`,
+			});
+		expect(describe(valid(1))).toBe("valid 1");
+		expect(describe(invalid("e"))).toBe("1 errors");
+	});
+});
+
+describe("Validation conversions", () => {
+	it("toResult should convert to a Result with every error", () => {
+		expect(valid(42).toResult().unwrapOr(0)).toBe(42);
+		expect(invalid("required", "name").toResult().extract()).toEqual([
+			{ path: "name", error: "required" },
+		]);
+	});
+
+	it("toEither should convert to an Either with every error", () => {
+		expect(valid(42).toEither().unwrapOr(0)).toBe(42);
+		expect(invalid("required", "name").toEither().isLeft()).toBe(true);
+	});
+
+	it("fromResult should place the error at the given path", () => {
+		expect(fromResult(ok(42)).extract()).toBe(42);
+		expect(fromResult(err("not a number"), "age").extract()).toEqual([
+			{ path: "age", error: "not a number" },
+		]);
+	});
+
+	it("fromEither should place the Left value at the given path", () => {
+		expect(fromEither(right(42)).extract()).toBe(42);
+		expect(fromEither(left("not a number")).extract()).toEqual([
+			{ path: "", error: "not a number" },
+		]);
+	});
+
+	it("should round-trip through Result and Either", () => {
+		expect(fromResult(valid(42).toResult()).extract()).toBe(42);
+		expect(fromEither(valid(42).toEither()).extract()).toBe(42);
+	});
+});
+
+describe("Validation combinators", () => {
+	const nonEmpty = check((s: string) => s.length > 0, "required");
+	const positive = check((n: number) => n > 0, "must be positive");
+
+	it("all should accumulate every error", () => {
+		expect(
+			all([valid(1), invalid("e1", "a"), invalid("e2", "b")]).extract(),
+		).toEqual([
+			{ path: "a", error: "e1" },
+			{ path: "b", error: "e2" },
+		]);
+		const values: Validation<number[], string> = all([
+			valid<number, string>(1),
+			valid<number, string>(2),
+		]);
+		expect(values.extract()).toEqual([1, 2]);
+	});
+
+	it("check should validate with a predicate", () => {
+		expect(nonEmpty("a").extract()).toBe("a");
+		expect(nonEmpty("").extract()).toEqual([{ path: "", error: "required" }]);
+	});
+
+	it("allOf should accumulate the errors of every validator", () => {
+		const password = allOf(
+			check((s: string) => s.length >= 8, "too short"),
+			check((s: string) => /\d/.test(s), "needs a digit"),
+		);
+		expect(password("secret123").extract()).toBe("secret123");
+		expect(password("abc").extract()).toEqual([
+			{ path: "", error: "too short" },
+			{ path: "", error: "needs a digit" },
+		]);
+	});
+
+	it("object should validate every field and prefix paths", () => {
+		const address = object({
+			zip: check((s: string) => /^\d{5}$/.test(s), "invalid zip"),
+		});
+		const user = object({ name: nonEmpty, address });
+
+		const result = user({ name: "Alice", address: { zip: "12345" } });
+		const typed: Validation<
+			{ name: string; address: { zip: string } },
+			string
+		> = result;
+		expect(typed.extract()).toEqual({
+			name: "Alice",
+			address: { zip: "12345" },
+		});
+
+		expect(user({ name: "", address: { zip: "x" } }).extract()).toEqual([
+			{ path: "name", error: "required" },
+			{ path: "address.zip", error: "invalid zip" },
+		]);
+	});
+
+	it("array should validate every item and prefix indexes", () => {
+		const items = array(object({ qty: positive }));
+		expect(items([{ qty: 1 }, { qty: 2 }]).extract()).toEqual([
+			{ qty: 1 },
+			{ qty: 2 },
+		]);
+		expect(items([{ qty: 1 }, { qty: 0 }, { qty: -1 }]).extract()).toEqual([
+			{ path: "[1].qty", error: "must be positive" },
+			{ path: "[2].qty", error: "must be positive" },
+		]);
+	});
+
+	it("should validate a whole DTO in one pass", () => {
+		const order = object({
+			customer: object({ name: nonEmpty }),
+			items: array(object({ sku: nonEmpty, qty: positive })),
+		});
+
+		const errors = order({
+			customer: { name: "" },
+			items: [
+				{ sku: "a", qty: 1 },
+				{ sku: "", qty: 2 },
+				{ sku: "c", qty: 0 },
+				{ sku: "d", qty: 0 },
+			],
+		}).match({
+			valid: (): FieldError<string>[] => [],
+			invalid: (errors) => errors,
+		});
+
+		expect(errors.map((e) => e.path)).toEqual([
+			"customer.name",
+			"items[1].sku",
+			"items[2].qty",
+			"items[3].qty",
+		]);
+	});
+});
+
+describe("Validation curried helpers", () => {
+	it("should work in pipelines", () => {
+		const value = pipe(
+			valid<number, string>(15),
+			map((x) => x + 5),
+			validate((x) => x >= 18, "too young"),
+			chain((x) => valid(x * 2)),
+			unwrapOr(0),
+		);
+		expect(value).toBe(40);
+
+		const message = pipe(
+			invalid<number, string>("required", "zip"),
+			at("address"),
+			mapErr((e, path) => `${path} is ${e}`),
+			match({
+				valid: () => "",
+				invalid: (errors) => errors.map((e) => e.error).join(", "),
+			}),
+		);
+		expect(message).toBe("address.zip is required");
+	});
+
+	it("toResult and toEither should work in pipelines", () => {
+		expect(pipe(valid(42), toResult()).unwrapOr(0)).toBe(42);
+		expect(pipe(invalid("e"), toEither()).isLeft()).toBe(true);
+	});
+});
+
+describe("Validation type guards", () => {
+	it("isValid and isInvalid should narrow and expose value and errors", () => {
+		const validation: Validation<number, string> = valid(1);
+		if (validation.isValid()) {
+			const value: number = validation.value;
+			expect(value).toBe(1);
+		}
+
+		const failed: Validation<number, string> = invalid("required", "age");
+		if (failed.isInvalid()) {
+			const errors: FieldError<string>[] = failed.errors;
+			expect(errors).toEqual([{ path: "age", error: "required" }]);
+		}
+	});
+
+	it("standalone guards should filter arrays of Validations", () => {
+		const validations: Validation<number, string>[] = [
+			valid(1),
+			invalid("e", "a"),
+		];
+		const values: number[] = validations.filter(isValid).map((v) => v.value);
+		const errors = validations.filter(isInvalid).flatMap((v) => v.errors);
+		expect(values).toEqual([1]);
+		expect(errors).toEqual([{ path: "a", error: "e" }]);
+	});
+});